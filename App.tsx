@@ -1,21 +1,45 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import JSZip from 'jszip';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import saveAs from 'file-saver';
-import { Download, Play, RefreshCw, Box, Layers, Grid, Gamepad2, Palette, Check } from 'lucide-react';
+import { Play, RefreshCw, Box, Layers, Grid, Gamepad2, Palette, Check, FolderOpen, Upload, Pause, Square, History, Film } from 'lucide-react';
 
-import { AppPhase, ProjectManifest, GameAsset, FolderNode } from './types';
-import { generateProjectPlan, generateAssetImage, editAssetImage } from './services/geminiService';
+import { AppPhase, ProjectManifest, GameAsset, FolderNode, TerminalMessage, SavedProject, AssetRevision, RevisionSource, ProcessingSettings, ProjectPalette, AnimationMetadata, PlaygroundBindings } from './types';
+import { getProvider, setProvider, listProviders } from './services/providers';
+import { importProjectZip, getMissingAssets } from './services/projectArchive';
+import { getExportTarget } from './services/exportTargets';
+import { ImageReferences, generateCandidates } from './services/assetProvider';
+import { getConceptAssets, getGroupKey, getReferences, allConceptsApproved, getApprovalCounts, withConceptUnapproved, isConceptAsset } from './services/groupConcepts';
+import { classifyGenerationError, ERROR_KIND_LABELS } from './services/generationErrors';
+import { createGenerationQueue, formatDuration, DEFAULT_QUEUE_OPTIONS, GenerationQueue, QueueProgress } from './services/generationQueue';
+import { createRevision, createRevertRevision, applyAssetRevision, withStyleRevision, getCurrentRevision } from './services/revisions';
+import { postProcessImage, getProcessingSettings, ProcessedImage } from './services/imageProcessing';
+import { hasSheetData, getSheetFilename } from './services/sheetData';
+import { loadImage, readImageData, imageDataToUrl } from './services/imageData';
+import { Atlas } from './services/atlasPacker';
+import { exportAseprite, parseAseprite, asepriteToStrip, getAsepriteFilename } from './services/aseprite';
+import { PreviewOptions, DEFAULT_PREVIEW_OPTIONS, addPreviewsToZip } from './services/animationPreview';
+import { buildPlayableHtml, getPlayableFilename } from './services/playgroundHtml';
+import { EditMask, maskToUrl, compositeMaskedUrl, countMasked } from './services/inpainting';
+import { DEFAULT_PALETTE, extractPaletteFromUrl, quantizeImage, getPalettePrompt } from './services/palette';
+import { createProjectId, loadProject, saveProject, getLastProjectId, setLastProjectId, toResumableProject } from './services/projectStore';
 import Terminal from './components/Terminal';
 import AssetCard from './components/AssetCard';
 import FileTree from './components/FileTree';
 import EditModal from './components/EditModal';
 import AnimationModal from './components/AnimationModal';
 import GamePlayground from './components/GamePlayground';
+import ProjectBrowser from './components/ProjectBrowser';
+import ExportReportModal from './components/ExportReportModal';
+import ExportMenu from './components/ExportMenu';
+import VariantsModal from './components/VariantsModal';
+import HistoryModal from './components/HistoryModal';
+import PaletteModal from './components/PaletteModal';
+import AtlasModal from './components/AtlasModal';
+import PreviewExportModal from './components/PreviewExportModal';
 
 const App: React.FC = () => {
   const [phase, setPhase] = useState<AppPhase>(AppPhase.IDLE);
-  const [history, setHistory] = useState<{ role: 'user' | 'system', text: string }[]>([]);
+  const [history, setHistory] = useState<TerminalMessage[]>([]);
   const [plan, setPlan] = useState<ProjectManifest | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
@@ -28,9 +52,110 @@ const App: React.FC = () => {
   const [previewAsset, setPreviewAsset] = useState<GameAsset | null>(null);
   const [isAnimModalOpen, setIsAnimModalOpen] = useState(false);
 
+  // Variants State
+  const [variantsAsset, setVariantsAsset] = useState<GameAsset | null>(null);
+  const candidateDetailsRef = useRef(new Map<string, Pick<AssetRevision, 'rawImageUrl' | 'width' | 'height'>>()); // keyed by processed candidate URL
+
+  // Revision History State (an asset's history, or the style reference's)
+  const [historyTarget, setHistoryTarget] = useState<{ assetId: string } | 'style' | null>(null);
+
   // Game Playground State
   const [isPlaygroundOpen, setIsPlaygroundOpen] = useState(false);
 
+  // Backend Selection (Gemini, offline mock, ...)
+  const [providerId, setProviderId] = useState(() => getProvider().id);
+
+  const handleProviderChange = (id: string) => {
+    setProvider(id);
+    setProviderId(id);
+    setHistory(prev => [...prev, { role: 'system', text: `BACKEND SWITCHED: ${getProvider().label.toUpperCase()}` }]);
+  };
+
+  // Persistence State
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectCreatedAt, setProjectCreatedAt] = useState<number>(0);
+  const [isProjectBrowserOpen, setIsProjectBrowserOpen] = useState(false);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [isExportReportOpen, setIsExportReportOpen] = useState(false);
+  const [exportTargetId, setExportTargetId] = useState('archive');
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Texture atlas of one group, or of the whole project when `group` is not set
+  const [atlasScope, setAtlasScope] = useState<{ name: string; group?: string } | null>(null);
+  // Animated preview of one asset, or a contact sheet of a group
+  const [previewExportScope, setPreviewExportScope] = useState<{ name: string; assetId?: string; group?: string } | null>(null);
+  const [previewOptions, setPreviewOptions] = useState<PreviewOptions>(DEFAULT_PREVIEW_OPTIONS);
+  const [includePreviews, setIncludePreviews] = useState(false); // Adds Previews/ to the project ZIP
+
+  // Generation Queue State
+  const [concurrency, setConcurrency] = useState(DEFAULT_QUEUE_OPTIONS.concurrency);
+  const [queueProgress, setQueueProgress] = useState<QueueProgress | null>(null);
+  const queueRef = useRef<GenerationQueue | null>(null);
+
+  // Queue jobs read the latest plan and phase, not the ones captured when the run started
+  const planRef = useRef<ProjectManifest | null>(null);
+  planRef.current = plan;
+  const phaseRef = useRef<AppPhase>(phase);
+  phaseRef.current = phase;
+
+  // --- LOGIC: Persistence (IndexedDB) ---
+  const openProject = (saved: SavedProject) => {
+    let project: SavedProject;
+    try {
+        project = toResumableProject(saved);
+    } catch (e) {
+        setHistory(prev => [...prev, { role: 'system', text: `CANNOT OPEN PROJECT: ${e instanceof Error ? e.message : 'Unknown error'}` }]);
+        setIsProjectBrowserOpen(false);
+        return;
+    }
+    setProjectId(project.id);
+    setProjectCreatedAt(project.createdAt);
+    setPlan(project.plan);
+    setPhase(project.phase);
+    setHistory([
+        ...project.history,
+        { role: 'system', text: `PROJECT RESTORED: ${project.name}\nPHASE: ${project.phase}` }
+    ]);
+    setLastProjectId(project.id);
+    setIsProjectBrowserOpen(false);
+  };
+
+  const startNewProject = () => {
+    setProjectId(null);
+    setPlan(null);
+    setPhase(AppPhase.IDLE);
+    setHistory([]);
+    setLastProjectId(null);
+    setIsProjectBrowserOpen(false);
+  };
+
+  // Reopen the last project on startup
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (!lastId) return;
+    let cancelled = false;
+    loadProject(lastId)
+        .then(saved => { if (saved && !cancelled) openProject(saved); })
+        .catch(e => console.error("Failed to restore project", e));
+    return () => { cancelled = true; };
+  }, []);
+
+  // Autosave (debounced) whenever the project changes
+  useEffect(() => {
+    if (!plan || !projectId) return;
+    const timer = setTimeout(() => {
+        saveProject({
+            id: projectId,
+            name: plan.theme,
+            createdAt: projectCreatedAt,
+            updatedAt: Date.now(),
+            phase,
+            history,
+            plan
+        }).catch(e => console.error("Autosave failed", e));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [plan, phase, history, projectId]);
+
   // --- LOGIC: Handle User Input (Chat) ---
   const handleInput = async (input: string) => {
     setHistory(prev => [...prev, { role: 'user', text: input }]);
@@ -40,14 +165,20 @@ const App: React.FC = () => {
       if (phase === AppPhase.IDLE || phase === AppPhase.COMPLETE) {
         // Start Planning
         setHistory(prev => [...prev, { role: 'system', text: "ANALYZING REQUEST... GENERATING TECHNICAL MANIFEST..." }]);
-        const generatedPlan = await generateProjectPlan(input);
+        const generatedPlan = await getProvider().generateProjectPlan(input);
         
+        // Every new manifest starts a new saved project
+        const newId = createProjectId();
+        setProjectId(newId);
+        setProjectCreatedAt(Date.now());
+        setLastProjectId(newId);
+
         setPlan(generatedPlan);
         setPhase(AppPhase.REVIEW);
         
         setHistory(prev => [...prev, { 
           role: 'system', 
-          text: `PLAN GENERATED.\nTHEME: ${generatedPlan.theme}\nASSETS: ${generatedPlan.assets.length} items identified.\n\nPlease review the asset list. We will generate the BRAND IDENTITY (Concept Art) for the Player first to ensure consistency.` 
+          text: `PLAN GENERATED.\nTHEME: ${generatedPlan.theme}\nASSETS: ${generatedPlan.assets.length} items identified.\n\nPlease review the asset list. We will generate the BRAND IDENTITY (a Master Concept per group) first to ensure consistency.` 
         }]);
       } else if (phase === AppPhase.REVIEW) {
          if (input.toLowerCase().includes('confirm') || input.toLowerCase().includes('yes')) {
@@ -55,7 +186,7 @@ const App: React.FC = () => {
          } else {
             // User wants to refine
             setHistory(prev => [...prev, { role: 'system', text: "RECALIBRATING MANIFEST..." }]);
-            const generatedPlan = await generateProjectPlan(input);
+            const generatedPlan = await getProvider().generateProjectPlan(input);
             setPlan(generatedPlan);
             setHistory(prev => [...prev, { role: 'system', text: "UPDATED PLAN GENERATED. Please confirm." }]);
          }
@@ -67,74 +198,193 @@ const App: React.FC = () => {
     }
   };
 
-  // --- LOGIC: Phase 1 - Concept Generation ---
+  // --- LOGIC: Phase 1 - Concept Generation (one Master Concept per group) ---
+  const generateConcept = async (asset: GameAsset, references: ImageReferences): Promise<string> => {
+      updateAsset(asset.id, { status: 'generating' });
+      try {
+          const imageUrl = await getProvider().generateAssetImage(asset, planRef.current ? getPalettePrompt(planRef.current) : '', references);
+          const revision = await createProcessedRevision(asset, imageUrl, 'generate', { prompt: asset.description });
+          commitRevision(asset.id, revision);
+          return revision.imageUrl;
+      } catch (e) {
+          const error = classifyGenerationError(e);
+          updateAsset(asset.id, { status: 'error', error: error.toAssetError() });
+          setHistory(prev => [...prev, { role: 'system', text: `CONCEPT FAILED: ${getGroupKey(asset)} >> ${ERROR_KIND_LABELS[error.kind]}\n${error.message}` }]);
+          throw error;
+      }
+  };
+
   const startConceptPhase = async () => {
       if (!plan) return;
+      const conceptAssets = getConceptAssets(plan);
+      if (conceptAssets.length === 0) return;
+
+      const groupConcepts = Object.fromEntries(conceptAssets.map(a => [getGroupKey(a), { assetId: a.id, approved: false }]));
+      const [styleAsset, ...otherConcepts] = conceptAssets;
+
       setPhase(AppPhase.CONCEPT);
-      setHistory(prev => [...prev, { role: 'system', text: "PHASE 1: BRANDING & IDENTITY.\nGenerating 'Master Concept' for the Player...\nThis will be the reference for all other animations." }]);
-
-      // Find the "Idle" state of the Player or the first character asset
-      const conceptAsset = plan.assets.find(a => 
-          a.category === 'Characters' && 
-          (a.name.toLowerCase().includes('idle') || a.name.toLowerCase().includes('stand'))
-      ) || plan.assets[0];
-
-      if (conceptAsset) {
-          conceptAsset.status = 'generating';
-          // Force update UI
-          setPlan({ ...plan });
-          
-          try {
-              const imageUrl = await generateAssetImage(conceptAsset, plan.paletteDescription);
-              conceptAsset.imageUrl = imageUrl;
-              conceptAsset.status = 'done';
-              
-              setPlan(prev => {
-                  if(!prev) return null;
-                  return { ...prev, masterStyleImage: imageUrl };
-              });
-              setHistory(prev => [...prev, { role: 'system', text: "CONCEPT GENERATED.\nCheck the result on the right.\nIf you like it, click 'APPROVE & GENERATE ALL'.\nIf not, click 'Regenerate' or Edit it." }]);
-          } catch (e) {
-              conceptAsset.status = 'error';
+      setPlan(prev => prev ? { ...prev, groupConcepts } : null);
+      setHistory(prev => [...prev, {
+          role: 'system',
+          text: `PHASE 1: BRANDING & IDENTITY.\nGenerating a Master Concept for each group: ${Object.keys(groupConcepts).join(', ')}.\n` +
+              `The ${getGroupKey(styleAsset)} concept also becomes the project style reference (palette).`
+      }]);
+
+      // The style-defining concept goes first so the other groups can match its palette
+      let styleImage: string | undefined;
+      try {
+          styleImage = await generateConcept(styleAsset, {});
+          const revision = createRevision(styleImage, 'generate', { prompt: styleAsset.description });
+          setPlan(prev => prev && prev.masterStyleImage !== revision.imageUrl ? { ...prev, ...withStyleRevision(prev, revision) } : prev);
+      } catch {
+          // Reported by generateConcept; the other groups still get a concept
+      }
+
+      const queue = createGenerationQueue(otherConcepts.map(a => a.id), {
+          ...DEFAULT_QUEUE_OPTIONS,
+          concurrency,
+          shouldRetry: (e) => classifyGenerationError(e).retryable,
+          run: async (assetId) => {
+              const asset = planRef.current?.assets.find(a => a.id === assetId);
+              if (asset) await generateConcept(asset, { style: styleImage });
           }
+      });
+      await queue.start();
+
+      setHistory(prev => [...prev, { role: 'system', text: "CONCEPTS GENERATED.\nReview each group on the right and click 'APPROVE CONCEPT'.\nIf one is off, Regenerate or Edit it; it must then be approved again.\nOnce every group is approved, click 'GENERATE ALL'." }]);
+  };
+
+  const handleApproveConcept = (groupKey: string) => {
+      setPlan(prev => {
+          const concept = prev?.groupConcepts?.[groupKey];
+          if (!prev || !concept) return prev;
+          return { ...prev, groupConcepts: { ...prev.groupConcepts, [groupKey]: { ...concept, approved: true } } };
+      });
+      setHistory(prev => [...prev, { role: 'system', text: `CONCEPT APPROVED: ${groupKey}` }]);
+
+      // The approved style reference defines the project palette, unless one was entered by hand
+      const conceptAsset = plan?.assets.find(a => a.id === plan.groupConcepts?.[groupKey]?.assetId);
+      if (plan?.masterStyleImage && conceptAsset?.imageUrl === plan.masterStyleImage && plan.palette?.source !== 'manual') {
+          const limit = plan.palette?.limit ?? DEFAULT_PALETTE.limit;
+          extractPaletteFromUrl(plan.masterStyleImage, limit)
+              .then(colors => {
+                  setPlan(prev => prev ? { ...prev, palette: { ...DEFAULT_PALETTE, ...prev.palette, colors, source: 'concept' } } : null);
+                  setHistory(prev => [...prev, { role: 'system', text: `PROJECT PALETTE EXTRACTED: ${colors.length} colors from the ${groupKey} concept.
+New assets are remapped to it (see PALETTE).` }]);
+              })
+              .catch(e => console.error("Palette extraction failed", e));
       }
   };
 
   // --- LOGIC: Phase 2 - Batch Generation (Using Concept as Reference) ---
+  const updateAsset = (assetId: string, patch: Partial<GameAsset>) => {
+    setPlan(prev => {
+        if (!prev) return null;
+        return { ...prev, assets: prev.assets.map(a => a.id === assetId ? { ...a, ...patch } : a) };
+    });
+  };
+
+  // Provider images are post-processed (true resolution, background keyed out, palette) before they are stored.
+  // The raw output is kept on the revision so the cleanup can be redone or undone.
+  const createProcessedRevision = async (asset: GameAsset, rawUrl: string, source: RevisionSource, details: Pick<AssetRevision, 'prompt'>) => {
+    try {
+        const { imageUrl, width, height, frames } = await postProcessImage(rawUrl, getProcessingSettings(asset), planRef.current?.palette, asset.metadata?.frames);
+        return createRevision(imageUrl, source, { ...details, frames, width, height, rawImageUrl: imageUrl !== rawUrl ? rawUrl : undefined });
+    } catch (e) {
+        console.error("Post-processing failed, keeping the raw image", e);
+        return createRevision(rawUrl, source, details);
+    }
+  };
+
+  // Every new image goes through here so it is recorded in the asset's history
+  const commitRevision = (assetId: string, revision: AssetRevision) => {
+    setPlan(prev => {
+        if (!prev) return null;
+        const next = applyAssetRevision(prev, assetId, revision);
+        // A concept whose image changed must be approved again
+        return phaseRef.current === AppPhase.CONCEPT ? { ...next, groupConcepts: withConceptUnapproved(next, assetId) } : next;
+    });
+  };
+
   const approveAndGenerateRest = async () => {
-    if (!plan || !plan.masterStyleImage) return;
-    
+    if (!plan || !allConceptsApproved(plan) || queueRef.current) return;
+
+    // Only assets not yet done are queued, so this also resumes an interrupted run
+    const jobIds = plan.assets.filter(a => a.status !== 'done').map(a => a.id);
+    const isResume = phase === AppPhase.GENERATING;
+
     setPhase(AppPhase.GENERATING);
-    setHistory(prev => [...prev, { role: 'system', text: "IDENTITY CONFIRMED.\nINITIATING MASS PRODUCTION.\nUsing Master Concept as stylistic reference for all animations..." }]);
+    setHistory(prev => [...prev, {
+        role: 'system',
+        text: isResume
+            ? `RESUMING PRODUCTION.\n${jobIds.length} assets remaining.`
+            : "IDENTITY CONFIRMED.\nINITIATING MASS PRODUCTION.\nEach group is generated from its own Master Concept, with the project style reference for palette..."
+    }]);
 
-    const newAssets = [...plan.assets];
-    
-    for (let i = 0; i < newAssets.length; i++) {
-        const asset = newAssets[i];
-        
-        // Skip if already done (the Concept asset)
-        if (asset.status === 'done') continue;
+    const queue = createGenerationQueue(jobIds, {
+        ...DEFAULT_QUEUE_OPTIONS,
+        concurrency,
+        shouldRetry: (e) => classifyGenerationError(e).retryable,
+        run: async (assetId, { attempt, signal }) => {
+            const current = planRef.current;
+            const asset = current?.assets.find(a => a.id === assetId);
+            if (!current || !asset) return;
 
-        asset.status = 'generating';
-        setPlan({ ...plan, assets: [...newAssets] });
-        
-        try {
-            // PASS THE MASTER CONCEPT as reference if it's a character from the same group
-            // Simple heuristic: If it's a character, use the reference.
-            const referenceImage = asset.category === 'Characters' ? plan.masterStyleImage : undefined;
-
-            const imageUrl = await generateAssetImage(asset, plan.paletteDescription, referenceImage);
-            asset.imageUrl = imageUrl;
-            asset.status = 'done';
-        } catch (e) {
-            asset.status = 'error';
+            updateAsset(assetId, { status: 'generating' });
+            try {
+                // PASS THE GROUP'S MASTER CONCEPT (design) and the project style reference (palette)
+                const imageUrl = await getProvider().generateAssetImage(asset, getPalettePrompt(current), getReferences(current, asset));
+                const revision = await createProcessedRevision(asset, imageUrl, 'generate', { prompt: asset.description });
+                if (signal.aborted) {
+                    updateAsset(assetId, { status: 'pending' });
+                    return;
+                }
+                commitRevision(assetId, revision);
+            } catch (e) {
+                const error = classifyGenerationError(e);
+                updateAsset(assetId, signal.aborted
+                    ? { status: 'pending' }
+                    : { status: 'error', error: error.toAssetError() });
+                throw error;
+            }
+        },
+        onProgress: setQueueProgress,
+        onJobRetry: (assetId, attempt, delayMs) => {
+            setHistory(prev => [...prev, { role: 'system', text: `RETRYING ${assetId} (attempt ${attempt + 1}) in ${formatDuration(delayMs)}...` }]);
+        },
+        onJobFailed: (assetId, e) => {
+            const error = classifyGenerationError(e);
+            setHistory(prev => [...prev, { role: 'system', text: `FAILED: ${assetId} >> ${ERROR_KIND_LABELS[error.kind]}: ${error.message}` }]);
         }
-        
-        setPlan({ ...plan, assets: [...newAssets] });
-    }
+    });
+
+    queueRef.current = queue;
+    const result = await queue.start();
+    queueRef.current = null;
+    setQueueProgress(null);
 
     setPhase(AppPhase.COMPLETE);
-    setHistory(prev => [...prev, { role: 'system', text: "PRODUCTION COMPLETE.\nAssets are coherent and consistent.\nReady for testing." }]);
+    if (result.state === 'cancelled') {
+        setHistory(prev => [...prev, { role: 'system', text: `PRODUCTION CANCELLED.\n${result.done}/${result.total} assets generated. Remaining assets can be generated individually.` }]);
+    } else if (result.failed > 0) {
+        setHistory(prev => [...prev, { role: 'system', text: `PRODUCTION FINISHED WITH ERRORS.\n${result.failed} of ${result.total} assets failed. Use RETRY on each to try again.` }]);
+    } else {
+        setHistory(prev => [...prev, { role: 'system', text: "PRODUCTION COMPLETE.\nAssets are coherent and consistent.\nReady for testing." }]);
+    }
+  };
+
+  const handlePauseQueue = () => {
+    queueRef.current?.pause();
+    setHistory(prev => [...prev, { role: 'system', text: "PRODUCTION PAUSED. Running jobs will finish; no new jobs will start." }]);
+  };
+
+  const handleResumeQueue = () => {
+    queueRef.current?.resume();
+    setHistory(prev => [...prev, { role: 'system', text: "PRODUCTION RESUMED." }]);
+  };
+
+  const handleCancelQueue = () => {
+    queueRef.current?.cancel();
   };
 
   // --- LOGIC: Individual Asset Regeneration ---
@@ -146,33 +396,67 @@ const App: React.FC = () => {
     setPlan({ ...plan, assets: newAssets });
     
     try {
-        // Use reference if available and applicable
-        const referenceImage = (asset.category === 'Characters' && plan.masterStyleImage && asset.id !== plan.assets.find(a => a.imageUrl === plan.masterStyleImage)?.id) 
-            ? plan.masterStyleImage 
-            : undefined;
-
-        const imageUrl = await generateAssetImage(asset, plan.paletteDescription, referenceImage);
-        
-        // If we regenerated the Master Concept, update the plan's master ref
-        const isMaster = asset.imageUrl === plan.masterStyleImage;
-        
-        setPlan(currentPlan => {
-            if (!currentPlan) return null;
-            return {
-                ...currentPlan,
-                masterStyleImage: isMaster ? imageUrl : currentPlan.masterStyleImage,
-                assets: currentPlan.assets.map(a => a.id === asset.id ? { ...a, status: 'done', imageUrl } : a)
-            };
-        });
+        // Use the group concept and style reference, unless this asset is the one defining them
+        const imageUrl = await getProvider().generateAssetImage(asset, getPalettePrompt(plan), getReferences(plan, asset));
+        commitRevision(asset.id, await createProcessedRevision(asset, imageUrl, 'generate', { prompt: asset.description }));
     } catch (e) {
-         setPlan(currentPlan => {
-            if (!currentPlan) return null;
-            return {
-                ...currentPlan,
-                assets: currentPlan.assets.map(a => a.id === asset.id ? { ...a, status: 'error' } : a)
-            };
-        });
+         const error = classifyGenerationError(e);
+         updateAsset(asset.id, { status: 'error', error: error.toAssetError() });
+         setHistory(prev => [...prev, { role: 'system', text: `FAILED: ${asset.filename} >> ${ERROR_KIND_LABELS[error.kind]}: ${error.message}` }]);
+    }
+  };
+
+  // --- LOGIC: Variants (N candidates, pick the winner) ---
+  const handleGenerateVariants = async (asset: GameAsset, count: number): Promise<string[]> => {
+    const current = planRef.current;
+    if (!current) return [];
+
+    setHistory(prev => [...prev, { role: 'system', text: `GENERATING ${count} CANDIDATES: ${asset.filename}...` }]);
+    const { candidates: rawCandidates, failures } = await generateCandidates(getProvider(), asset, getPalettePrompt(current), getReferences(current, asset), count);
+
+    // Candidates are compared as they would be stored, i.e. post-processed
+    const candidates = await Promise.all(rawCandidates.map(async rawUrl => {
+        const revision = await createProcessedRevision(asset, rawUrl, 'variant', {});
+        const { rawImageUrl, width, height } = revision;
+        candidateDetailsRef.current.set(revision.imageUrl, { rawImageUrl, width, height });
+        return revision.imageUrl;
+    }));
+
+    if (failures.length > 0) {
+        const error = classifyGenerationError(failures[0]);
+        setHistory(prev => [...prev, { role: 'system', text: `${failures.length}/${count} CANDIDATES FAILED >> ${ERROR_KIND_LABELS[error.kind]}: ${error.message}` }]);
     }
+    return candidates;
+  };
+
+  const handlePromoteVariant = (assetId: string, winner: string, candidates: string[]) => {
+    setPlan(prev => {
+        if (!prev) return null;
+        const asset = prev.assets.find(a => a.id === assetId);
+        if (!asset) return prev;
+
+        // Losing candidates stay in the history (marked rejected) so they can still be picked later
+        const rejected = candidates
+            .filter(url => url !== winner)
+            .map(url => createRevision(url, 'variant', { prompt: asset.description, rejected: true, ...candidateDetailsRef.current.get(url) }));
+        const withRejected = {
+            ...prev,
+            assets: prev.assets.map(a => a.id === assetId ? { ...a, revisions: [...(a.revisions || []), ...rejected] } : a)
+        };
+        if (winner === asset.imageUrl) return withRejected;
+
+        const next = applyAssetRevision(withRejected, assetId, createRevision(winner, 'variant', { prompt: asset.description, ...candidateDetailsRef.current.get(winner) }));
+        return phase === AppPhase.CONCEPT ? { ...next, groupConcepts: withConceptUnapproved(next, assetId) } : next;
+    });
+
+    candidates.forEach(url => candidateDetailsRef.current.delete(url));
+    const asset = plan?.assets.find(a => a.id === assetId);
+    setHistory(prev => [...prev, {
+        role: 'system',
+        text: winner === asset?.imageUrl
+            ? `VARIANTS REVIEWED: ${asset?.filename} >> kept current image.`
+            : `VARIANT PROMOTED: ${asset?.filename}`
+    }]);
   };
 
   // --- LOGIC: Open Edit Modal ---
@@ -181,8 +465,17 @@ const App: React.FC = () => {
     setIsEditModalOpen(true);
   };
 
+  // A masked edit is cleaned up like any provider image, then only its masked pixels are kept.
+  // Frames are not re-sliced: the unmasked pixels already sit in the asset's cells.
+  const createInpaintedRevision = async (asset: GameAsset, rawUrl: string, mask: EditMask, instruction: string) => {
+    const processed = await postProcessImage(rawUrl, { ...getProcessingSettings(asset), sliceFrames: false }, planRef.current?.palette)
+        .catch(e => { console.error("Post-processing failed, compositing the raw image", e); return null; });
+    const imageUrl = await compositeMaskedUrl(asset.imageUrl!, processed?.imageUrl ?? rawUrl, mask);
+    return createRevision(imageUrl, 'ai_edit', { prompt: instruction, rawImageUrl: rawUrl, width: mask.width, height: mask.height });
+  };
+
   // --- LOGIC: Perform Edit (Image-to-Image AI) ---
-  const handleConfirmEditAI = async (instruction: string) => {
+  const handleConfirmEditAI = async (instruction: string, mask?: EditMask) => {
     if (!editingAsset || !plan || !editingAsset.imageUrl) return;
 
     setIsEditingProcessing(true);
@@ -197,144 +490,251 @@ const App: React.FC = () => {
     });
 
     try {
-        const newImageUrl = await editAssetImage(editingAsset.imageUrl, instruction, editingAsset.description);
+        const newImageUrl = await getProvider().editAssetImage(editingAsset.imageUrl, instruction, editingAsset.description, mask && maskToUrl(mask));
+        // The instruction lives in the revision; the description stays the original prompt
+        commitRevision(editingAsset.id, mask
+            ? await createInpaintedRevision(editingAsset, newImageUrl, mask, instruction)
+            : await createProcessedRevision(editingAsset, newImageUrl, 'ai_edit', { prompt: instruction }));
         
-        // Check if we edited the Master Concept
-        const isMaster = editingAsset.imageUrl === plan.masterStyleImage;
-
-        setPlan(prev => {
-            if (!prev) return null;
-            return {
-                ...prev,
-                masterStyleImage: isMaster ? newImageUrl : prev.masterStyleImage,
-                assets: prev.assets.map(a => a.id === editingAsset.id ? { 
-                    ...a, 
-                    status: 'done', 
-                    imageUrl: newImageUrl,
-                    description: `${a.description} (Edit: ${instruction})` 
-                } : a)
-            }
-        });
-        
-        setHistory(prev => [...prev, { role: 'system', text: `ASSET EDITED (AI): ${editingAsset.filename} >> "${instruction}"` }]);
+        setHistory(prev => [...prev, {
+            role: 'system',
+            text: `ASSET EDITED (AI): ${editingAsset.filename} >> "${instruction}"${mask ? ` (masked: ${countMasked(mask)} px)` : ''}`
+        }]);
         setIsEditModalOpen(false);
         setEditingAsset(null);
 
     } catch (e) {
         console.error(e);
-        setPlan(prev => {
-            if (!prev) return null;
-            return {
-                ...prev,
-                assets: prev.assets.map(a => a.id === editingAsset.id ? { ...a, status: 'error' } : a)
-            }
-        });
-        setHistory(prev => [...prev, { role: 'system', text: `ERROR EDITING ASSET: ${editingAsset.filename}` }]);
+        // The previous image is kept and still valid, so the asset stays done; the failure goes to the log
+        const error = classifyGenerationError(e);
+        updateAsset(editingAsset.id, { status: 'done' });
+        setHistory(prev => [...prev, { role: 'system', text: `ERROR EDITING ASSET: ${editingAsset.filename} >> ${ERROR_KIND_LABELS[error.kind]}: ${error.message}` }]);
     } finally {
         setIsEditingProcessing(false);
     }
   };
 
   // --- LOGIC: Save Manual Edit / Animation Update ---
-  const handleSaveAsset = (assetId: string, newImageUrl: string, newFrameCount?: number) => {
-      setPlan(prev => {
-          if (!prev) return null;
-          // Check if this was the master image
-          const isMaster = prev.assets.find(a => a.id === assetId)?.imageUrl === prev.masterStyleImage;
-          
-          return {
+  const handleSaveAsset = (source: 'manual' | 'animation') => async (assetId: string, newImageUrl: string, newFrameCount?: number, frameMetadata?: AnimationMetadata) => {
+      const asset = planRef.current?.assets.find(a => a.id === assetId);
+      // Editing only pivots, boxes or timing is not a new image
+      if (newImageUrl !== asset?.imageUrl || (newFrameCount !== undefined && newFrameCount !== asset?.metadata?.frames)) {
+          // Measured so the metadata keeps the real size (the animation editor can change it)
+          const size = await loadImage(newImageUrl).then(img => ({ width: img.width, height: img.height })).catch(() => ({}));
+          commitRevision(assetId, createRevision(newImageUrl, source, { frames: newFrameCount, ...size }));
+      }
+      if (frameMetadata) {
+          setPlan(prev => prev ? {
               ...prev,
-              masterStyleImage: isMaster ? newImageUrl : prev.masterStyleImage,
-              assets: prev.assets.map(a => a.id === assetId ? {
-                  ...a,
-                  imageUrl: newImageUrl,
-                  status: 'done', // Ensure it's marked done
-                  metadata: {
-                      ...a.metadata,
-                      frames: newFrameCount !== undefined ? newFrameCount : a.metadata?.frames
-                  }
-              } : a)
-          }
-      });
+              assets: prev.assets.map(a => a.id === assetId ? { ...a, metadata: { ...a.metadata, ...frameMetadata } } : a)
+          } : null);
+      }
   };
 
+  // --- LOGIC: Aseprite Round Trip ---
+  const handleExportAseprite = async (asset: GameAsset) => {
+      try {
+          saveAs(await exportAseprite(asset, planRef.current?.palette?.colors), getAsepriteFilename(asset));
+      } catch (e) {
+          console.error(e);
+          setHistory(prev => [...prev, { role: 'system', text: `ASEPRITE EXPORT FAILED: ${asset.filename} >> ${e instanceof Error ? e.message : String(e)}` }]);
+      }
+  };
 
-  // --- LOGIC: Combine Group to Sprite Sheet ---
-  const handleExportGroupSheet = async (groupName: string, assets: GameAsset[]) => {
-    const loadedImages = await Promise.all(assets.map(async (asset) => {
-        if (!asset.imageUrl) return null;
-        return new Promise<{ img: HTMLImageElement, name: string }>((resolve, reject) => {
-            const img = new Image();
-            img.onload = () => resolve({ img, name: asset.filename });
-            img.onerror = reject;
-            img.src = asset.imageUrl!;
-        }).catch(() => null);
-    }));
+  // The file's frames become the strip as they are (no re-slicing); its durations and tags the timing
+  const handleImportAseprite = async (assetId: string, file: File) => {
+      const asset = planRef.current?.assets.find(a => a.id === assetId);
+      if (!asset) return;
+      try {
+          const strip = asepriteToStrip(await parseAseprite(await file.arrayBuffer()), asset);
+          commitRevision(assetId, createRevision(strip.imageUrl, 'import', {
+              prompt: `Imported from ${file.name}`,
+              frames: strip.frames,
+              width: strip.width,
+              height: strip.height
+          }));
+          setPlan(prev => prev ? {
+              ...prev,
+              assets: prev.assets.map(a => a.id === assetId ? { ...a, metadata: { ...a.metadata, animation: strip.animation } } : a)
+          } : null);
+          setHistory(prev => [...prev, {
+              role: 'system',
+              text: `ASEPRITE IMPORTED: ${file.name} >> ${asset.filename} (${strip.frames} frames, ${strip.animation.tags.length} tags)`
+          }]);
+      } catch (e) {
+          console.error(e);
+          setHistory(prev => [...prev, { role: 'system', text: `ASEPRITE IMPORT FAILED: ${file.name} >> ${e instanceof Error ? e.message : String(e)}` }]);
+      }
+  };
 
-    const validImages = loadedImages.filter((item): item is { img: HTMLImageElement, name: string } => item !== null);
-    if (validImages.length === 0) return;
+  // --- LOGIC: Post-Processing Settings (Background Removal) ---
+  const handleApplyProcessing = (assetId: string, settings: ProcessingSettings, result?: ProcessedImage) => {
+      const asset = plan?.assets.find(a => a.id === assetId);
+      if (!asset) return;
+      updateAsset(assetId, { processing: settings });
+      if (result && result.imageUrl !== asset.imageUrl) {
+          const rawImageUrl = getCurrentRevision(asset.revisions, asset.imageUrl)?.rawImageUrl ?? asset.imageUrl;
+          commitRevision(assetId, createRevision(result.imageUrl, 'process', {
+              rawImageUrl: rawImageUrl !== result.imageUrl ? rawImageUrl : undefined,
+              frames: result.frames,
+              width: result.width,
+              height: result.height
+          }));
+      }
+      setHistory(prev => [...prev, {
+          role: 'system',
+          text: `CLEANUP: ${asset.filename}
+` +
+              `BACKGROUND: ${settings.removeBackground ? `REMOVED (tolerance ${settings.tolerance})` : 'KEPT'}
+` +
+              `PIXEL GRID: ${!settings.pixelGrid ? 'OFF' : result?.grid ? `${+result.grid.cellSize.toFixed(2)}px cells >> ${result.width}x${result.height}` : 'NONE DETECTED'}` +
+              (result?.frames ? `\nFRAMES: re-sliced into ${result.frames} uniform cells` : '')
+      }]);
+  };
 
-    const maxWidth = Math.max(...validImages.map(i => i.img.width));
-    const totalHeight = validImages.reduce((sum, i) => sum + i.img.height, 0);
+  // --- LOGIC: Project Palette ---
+  const handleSavePalette = (palette: ProjectPalette) => {
+      setPlan(prev => prev ? { ...prev, palette } : null);
+      setHistory(prev => [...prev, { role: 'system', text: `PALETTE SAVED: ${palette.colors.length} colors${palette.enforce ? ', enforced on new assets' : ''}${palette.dither ? ', dithered' : ''}.` }]);
+  };
 
-    const canvas = document.createElement('canvas');
-    canvas.width = maxWidth;
-    canvas.height = totalHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  const handleRemapAssets = async (assetIds: string[]) => {
+      const palette = planRef.current?.palette;
+      if (!palette) return;
+      for (const assetId of assetIds) {
+          const asset = planRef.current?.assets.find(a => a.id === assetId);
+          if (!asset?.imageUrl) continue;
+          try {
+              const image = quantizeImage(await readImageData(asset.imageUrl), palette.colors, palette.dither);
+              const rawImageUrl = getCurrentRevision(asset.revisions, asset.imageUrl)?.rawImageUrl;
+              commitRevision(assetId, createRevision(imageDataToUrl(image), 'process', {
+                  prompt: `Remapped to the ${palette.colors.length}-color project palette`,
+                  rawImageUrl,
+                  width: image.width,
+                  height: image.height
+              }));
+          } catch (e) {
+              console.error(e);
+              setHistory(prev => [...prev, { role: 'system', text: `REMAP FAILED: ${asset.filename}` }]);
+          }
+      }
+      setHistory(prev => [...prev, { role: 'system', text: `REMAPPED ${assetIds.length} ASSET(S) TO THE PROJECT PALETTE.` }]);
+  };
 
-    let currentY = 0;
-    validImages.forEach(({ img }) => {
-        ctx.drawImage(img, 0, currentY);
-        currentY += img.height;
-    });
+  // --- LOGIC: Revision History (Revert) ---
+  const handleRevertAsset = (assetId: string, revisionId: string) => {
+      const asset = plan?.assets.find(a => a.id === assetId);
+      const target = asset?.revisions?.find(r => r.id === revisionId);
+      if (!asset || !target) return;
+      commitRevision(assetId, createRevertRevision(target));
+      setHistory(prev => [...prev, { role: 'system', text: `REVERTED: ${asset.filename} >> ${new Date(target.createdAt).toLocaleString()}` }]);
+  };
 
-    canvas.toBlob((blob) => {
-        if (blob) {
-            saveAs(blob, `${groupName.replace(/\s+/g, '_')}_SpriteSheet.png`);
-        }
-    });
+  const handleRevertStyle = (revisionId: string) => {
+      const target = plan?.styleRevisions?.find(r => r.id === revisionId);
+      if (!target) return;
+      setPlan(prev => prev ? { ...prev, ...withStyleRevision(prev, createRevertRevision(target)) } : null);
+      setHistory(prev => [...prev, { role: 'system', text: `STYLE REFERENCE REVERTED >> ${new Date(target.createdAt).toLocaleString()}
+Assets generated from now on use the restored palette.` }]);
   };
 
 
-  // --- LOGIC: ZIP Creation ---
-  const handleDownload = async () => {
+  // --- LOGIC: Texture Atlas (PNG + TexturePacker JSON) ---
+  const handleDownloadAtlas = (atlas: Atlas, baseName: string) => {
+    saveAs(atlas.imageUrl, `${baseName}.png`);
+    saveAs(new Blob([JSON.stringify(atlas.data, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+    setHistory(prev => [...prev, {
+        role: 'system',
+        text: `ATLAS EXPORTED: ${baseName}.png (${atlas.width}x${atlas.height}, ${atlas.frameCount} frames, ${Math.round(atlas.occupancy * 100)}% used)`
+    }]);
+  };
+
+
+  // --- LOGIC: Animated Previews (GIF / APNG / WebP) ---
+  const handleDownloadPreview = (blob: Blob, filename: string) => {
+    saveAs(blob, filename);
+    setHistory(prev => [...prev, { role: 'system', text: `PREVIEW EXPORTED: ${filename} (${Math.max(1, Math.round(blob.size / 1024))} KB)` }]);
+  };
+
+
+  // --- LOGIC: Playground (bindings and playable HTML) ---
+  const handleChangePlaygroundBindings = (bindings: PlaygroundBindings) => {
+    setPlan(prev => prev ? { ...prev, playgroundBindings: bindings } : null);
+  };
+
+  const handleExportPlayableHtml = async () => {
     if (!plan) return;
+    try {
+        const filename = getPlayableFilename(plan);
+        saveAs(new Blob([await buildPlayableHtml(plan)], { type: 'text/html' }), filename);
+        setHistory(prev => [...prev, { role: 'system', text: `PLAYABLE EXPORTED: ${filename}\nOpen it in any browser to play, no install needed.` }]);
+    } catch (e) {
+        console.error(e);
+        setHistory(prev => [...prev, { role: 'system', text: `PLAYABLE EXPORT FAILED: ${e instanceof Error ? e.message : String(e)}` }]);
+    }
+  };
 
-    const zip = new JSZip();
-    const root = zip.folder(`Project_${plan.theme.replace(/\s+/g, '_')}`);
-    
-    if (!root) return;
 
-    const docs = root.folder("_Documentation");
-    docs?.file("Game_Design_Doc.md", plan.designDocs);
-    docs?.file("Manifest.json", JSON.stringify(plan, null, 2));
+  // --- LOGIC: ZIP Creation (see services/exportTargets.ts) ---
+  const handleDownload = (targetId: string) => {
+    if (!plan) return;
+    setExportTargetId(targetId);
 
-    const charFolder = root.folder("Characters");
-    const envFolder = root.folder("Environment");
-    const uiFolder = root.folder("UI");
+    // Incomplete projects go through the report first
+    if (getMissingAssets(plan).length > 0) {
+        setIsExportReportOpen(true);
+        return;
+    }
+    exportZip(targetId);
+  };
 
-    for (const asset of plan.assets) {
-        if (!asset.imageUrl) continue;
-        
-        const response = await fetch(asset.imageUrl);
-        const blob = await response.blob();
-        
-        if (asset.category === 'Characters') {
-            charFolder?.file(asset.filename, blob);
-        } else if (asset.category === 'Environment') {
-            envFolder?.file(asset.filename, blob);
-        } else {
-            uiFolder?.file(asset.filename, blob);
-        }
+  const exportZip = async (targetId = exportTargetId) => {
+    if (!plan) return;
+    setIsExportReportOpen(false);
+
+    const target = getExportTarget(targetId);
+    try {
+        const zip = await target.build(plan);
+        if (includePreviews) await addPreviewsToZip(zip, plan, previewOptions);
+        const content = await zip.generateAsync({ type: "blob" });
+        saveAs(content, `${plan.theme.replace(/\s+/g, '_')}_${target.filenameSuffix}.zip`);
+    } catch (e) {
+        console.error(e);
+        setHistory(prev => [...prev, { role: 'system', text: `EXPORT FAILED (${target.label}): ${e instanceof Error ? e.message : String(e)}` }]);
     }
+  };
+
+  // --- LOGIC: ZIP Import ---
+  const handleImportZip = async (file: File) => {
+    setHistory(prev => [...prev, { role: 'system', text: `IMPORTING ARCHIVE: ${file.name}...` }]);
+    try {
+        const importedPlan = await importProjectZip(file);
+
+        const newId = createProjectId();
+        setProjectId(newId);
+        setProjectCreatedAt(Date.now());
+        setLastProjectId(newId);
+
+        setPlan(importedPlan);
+        setPhase(AppPhase.COMPLETE);
 
-    const content = await zip.generateAsync({ type: "blob" });
-    saveAs(content, `${plan.theme.replace(/\s+/g, '_')}_Assets.zip`);
+        const linked = importedPlan.assets.filter(a => a.imageUrl).length;
+        setHistory(prev => [...prev, {
+            role: 'system',
+            text: `ARCHIVE IMPORTED.\nTHEME: ${importedPlan.theme}\nASSETS: ${linked}/${importedPlan.assets.length} images linked.`
+        }]);
+    } catch (e) {
+        setHistory(prev => [...prev, { role: 'system', text: `IMPORT FAILED: ${e instanceof Error ? e.message : 'Unknown error'}` }]);
+    }
   };
 
   const getFolderStructure = (): FolderNode => {
     if (!plan) return { name: "Root", type: "folder", children: [] };
+
+    // Strips are exported with their sheet data next to them
+    const getAssetFiles = (a: GameAsset): FolderNode[] => hasSheetData(a)
+        ? [{ name: a.filename, type: 'file' }, { name: getSheetFilename(a), type: 'file' }]
+        : [{ name: a.filename, type: 'file' }];
     
     return {
         name: `Project_${plan.theme.replace(/\s+/g, '_')}`,
@@ -351,22 +751,36 @@ const App: React.FC = () => {
             {
                 name: "Characters",
                 type: 'folder',
-                children: plan.assets.filter(a => a.category === 'Characters').map(a => ({ name: a.filename, type: 'file' }))
+                children: plan.assets.filter(a => a.category === 'Characters').flatMap(getAssetFiles)
             },
              {
                 name: "Environment",
                 type: 'folder',
-                children: plan.assets.filter(a => a.category === 'Environment').map(a => ({ name: a.filename, type: 'file' }))
+                children: plan.assets.filter(a => a.category === 'Environment').flatMap(getAssetFiles)
             },
              {
                 name: "UI",
                 type: 'folder',
-                children: plan.assets.filter(a => a.category === 'UI').map(a => ({ name: a.filename, type: 'file' }))
+                children: plan.assets.filter(a => a.category === 'UI').flatMap(getAssetFiles)
             }
         ]
     };
   };
 
+  const atlasAssets = useMemo(() => {
+    if (!plan || !atlasScope) return [];
+    return atlasScope.group
+        ? plan.assets.filter(a => (a.group || a.category || "Uncategorized") === atlasScope.group)
+        : plan.assets;
+  }, [plan?.assets, atlasScope]);
+
+  const previewExportAssets = useMemo(() => {
+    if (!plan || !previewExportScope) return [];
+    return previewExportScope.group
+        ? plan.assets.filter(a => (a.group || a.category || "Uncategorized") === previewExportScope.group)
+        : plan.assets.filter(a => a.id === previewExportScope.assetId);
+  }, [plan?.assets, previewExportScope]);
+
   const getGroupedAssets = () => {
     if (!plan) return {};
     const groups: Record<string, GameAsset[]> = {};
@@ -397,6 +811,57 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex gap-2">
+            <select
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                disabled={isProcessing || phase === AppPhase.GENERATING}
+                className="bg-black/50 border border-white/20 text-gray-300 font-mono text-xs px-2 rounded outline-none focus:border-retro-green"
+                title="Generation backend"
+            >
+                {listProviders().map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                ))}
+            </select>
+
+            <button
+                onClick={() => setIsProjectBrowserOpen(true)}
+                disabled={phase === AppPhase.GENERATING}
+                className="flex items-center gap-2 bg-retro-gray border border-white/20 text-white font-bold px-4 py-2 rounded hover:bg-white/20 transition-colors disabled:opacity-30"
+            >
+                <FolderOpen size={18} />
+                PROJECTS
+            </button>
+
+            {plan && (
+                <button
+                    onClick={() => setIsPaletteOpen(true)}
+                    className="flex items-center gap-2 bg-retro-gray border border-white/20 text-white font-bold px-4 py-2 rounded hover:bg-white/20 transition-colors"
+                >
+                    <Palette size={18} />
+                    PALETTE{plan.palette ? ` (${plan.palette.colors.length})` : ''}
+                </button>
+            )}
+
+            <input
+                ref={zipInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportZip(file);
+                    e.target.value = '';
+                }}
+            />
+            <button
+                onClick={() => zipInputRef.current?.click()}
+                disabled={isProcessing || phase === AppPhase.GENERATING}
+                className="flex items-center gap-2 bg-retro-gray border border-white/20 text-white font-bold px-4 py-2 rounded hover:bg-white/20 transition-colors disabled:opacity-30"
+            >
+                <Upload size={18} />
+                OPEN ZIP
+            </button>
+
             {phase === AppPhase.COMPLETE && (
                 <button
                     onClick={() => setIsPlaygroundOpen(true)}
@@ -408,14 +873,23 @@ const App: React.FC = () => {
             )}
 
             {phase === AppPhase.COMPLETE && (
-                <button 
-                    onClick={handleDownload}
-                    className="flex items-center gap-2 bg-retro-amber text-black font-bold px-4 py-2 rounded hover:bg-yellow-400 transition-colors shadow-[0_0_15px_rgba(255,176,0,0.4)]"
+                <button
+                    onClick={() => setAtlasScope({ name: plan!.theme })}
+                    className="flex items-center gap-2 bg-retro-gray border border-white/20 text-white font-bold px-4 py-2 rounded hover:bg-white/20 transition-colors"
                 >
-                    <Download size={18} />
-                    DOWNLOAD .ZIP
+                    <Grid size={18} />
+                    ATLAS
                 </button>
             )}
+
+            {phase === AppPhase.COMPLETE && (
+                <ExportMenu
+                    onExport={handleDownload}
+                    includePreviews={includePreviews}
+                    onIncludePreviewsChange={setIncludePreviews}
+                    previewFormat={previewOptions.format}
+                />
+            )}
         </div>
       </header>
 
@@ -428,6 +902,7 @@ const App: React.FC = () => {
             onSubmit={handleInput} 
             isLoading={isProcessing} 
             history={history} 
+            progress={queueProgress}
           />
         </div>
 
@@ -446,12 +921,57 @@ const App: React.FC = () => {
                             <Play size={12} /> GENERATE IDENTITY
                         </button>
                     )}
-                    {phase === AppPhase.CONCEPT && (
+                    {(phase === AppPhase.CONCEPT || (phase === AppPhase.GENERATING && !queueProgress)) && (
+                        <select
+                            value={concurrency}
+                            onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+                            className="text-xs bg-black/50 border border-white/20 text-gray-300 font-mono px-2 rounded outline-none"
+                            title="Parallel generation jobs"
+                        >
+                            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}x PARALLEL</option>)}
+                        </select>
+                    )}
+                    {phase === AppPhase.CONCEPT && plan && (
                         <button 
+                            onClick={approveAndGenerateRest}
+                            disabled={!allConceptsApproved(plan)}
+                            title={allConceptsApproved(plan) ? undefined : 'Approve every group concept first'}
+                            className="text-xs bg-retro-amber/10 text-retro-amber border border-retro-amber px-3 py-1 rounded hover:bg-retro-amber hover:text-black transition-colors flex items-center gap-1 enabled:animate-pulse disabled:opacity-40 disabled:hover:bg-retro-amber/10 disabled:hover:text-retro-amber"
+                        >
+                            <Check size={12} /> GENERATE ALL ({getApprovalCounts(plan).approved}/{getApprovalCounts(plan).total} APPROVED)
+                        </button>
+                    )}
+                    {/* Interrupted run (e.g. restored after a reload) */}
+                    {phase === AppPhase.GENERATING && !queueProgress && (
+                        <button
                             onClick={approveAndGenerateRest}
                             className="text-xs bg-retro-amber/10 text-retro-amber border border-retro-amber px-3 py-1 rounded hover:bg-retro-amber hover:text-black transition-colors flex items-center gap-1 animate-pulse"
                         >
-                            <Check size={12} /> APPROVE & GENERATE ALL
+                            <Play size={12} /> RESUME GENERATION
+                        </button>
+                    )}
+                    {queueProgress?.state === 'running' && (
+                        <button
+                            onClick={handlePauseQueue}
+                            className="text-xs bg-retro-gray border border-white/20 text-white px-3 py-1 rounded hover:bg-white/20 transition-colors flex items-center gap-1"
+                        >
+                            <Pause size={12} /> PAUSE
+                        </button>
+                    )}
+                    {queueProgress?.state === 'paused' && (
+                        <button
+                            onClick={handleResumeQueue}
+                            className="text-xs bg-retro-green/10 text-retro-green border border-retro-green px-3 py-1 rounded hover:bg-retro-green hover:text-black transition-colors flex items-center gap-1"
+                        >
+                            <Play size={12} /> RESUME
+                        </button>
+                    )}
+                    {(queueProgress?.state === 'running' || queueProgress?.state === 'paused') && (
+                        <button
+                            onClick={handleCancelQueue}
+                            className="text-xs bg-red-500/10 text-red-400 border border-red-500 px-3 py-1 rounded hover:bg-red-500 hover:text-white transition-colors flex items-center gap-1"
+                        >
+                            <Square size={12} /> CANCEL
                         </button>
                     )}
                 </div>
@@ -474,8 +994,9 @@ const App: React.FC = () => {
                                 <div>
                                     <h3 className="text-retro-amber font-bold text-lg font-pixel">BRANDING PHASE</h3>
                                     <p className="text-gray-300 text-sm font-mono mt-2 max-w-md">
-                                        We are defining the "Hero Style" first. 
-                                        Once you approve this character, all other animations (Run, Jump, Shoot, Roll) will be generated using this image as a strict visual reference.
+                                        Every group (the hero, each enemy, each tileset) gets its own Master Concept.
+                                        Once you approve a group's concept, its other animations (Run, Jump, Shoot, Roll...) are generated using that image as a strict visual reference,
+                                        while the hero's concept keeps the palette consistent across all groups.
                                     </p>
                                 </div>
                             </div>
@@ -501,6 +1022,14 @@ const App: React.FC = () => {
                         <div>
                             <h3 className="text-white font-bold text-sm mb-4 font-mono border-b border-white/10 pb-2">
                                 ASSET MANIFEST <span className="text-gray-500 text-xs font-normal">({plan.assets.length} items)</span>
+                                {(plan.styleRevisions?.length ?? 0) > 1 && (
+                                    <button
+                                        onClick={() => setHistoryTarget('style')}
+                                        className="float-right flex items-center gap-1 text-[10px] font-normal bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 transition-colors"
+                                    >
+                                        <History size={12} /> STYLE HISTORY ({plan.styleRevisions!.length})
+                                    </button>
+                                )}
                             </h3>
                             
                             <div className="space-y-8">
@@ -510,16 +1039,46 @@ const App: React.FC = () => {
                                             <h4 className="text-retro-green font-mono font-bold flex items-center gap-2">
                                                 <Layers size={16} />
                                                 {groupName}
+                                                {plan.masterStyleImage && assets.some(a => a.imageUrl === plan.masterStyleImage) && (
+                                                    <span className="text-[10px] font-normal text-retro-amber border border-retro-amber/50 px-1 rounded">STYLE REF</span>
+                                                )}
                                             </h4>
+
+                                            {/* Concept Approval (per group) */}
+                                            {phase === AppPhase.CONCEPT && plan.groupConcepts?.[groupName] && (() => {
+                                                const concept = plan.groupConcepts[groupName];
+                                                const conceptAsset = assets.find(a => a.id === concept.assetId);
+                                                return concept.approved ? (
+                                                    <span className="flex items-center gap-1 text-[10px] text-retro-green font-mono">
+                                                        <Check size={12} /> CONCEPT APPROVED
+                                                    </span>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => handleApproveConcept(groupName)}
+                                                        disabled={conceptAsset?.status !== 'done'}
+                                                        className="flex items-center gap-1 text-[10px] bg-retro-amber text-black font-bold px-2 py-1 rounded hover:bg-white transition-colors disabled:opacity-30"
+                                                    >
+                                                        <Check size={12} /> APPROVE CONCEPT
+                                                    </button>
+                                                );
+                                            })()}
                                             
-                                            {/* Combine Button (Only if all done) */}
-                                            {assets.length > 1 && assets.every(a => a.status === 'done') && (
-                                                <button 
-                                                    onClick={() => handleExportGroupSheet(groupName, assets)}
-                                                    className="flex items-center gap-1 text-[10px] bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 transition-colors"
-                                                >
-                                                    <Grid size={12} /> COMBINE SHEET
-                                                </button>
+                                            {/* Atlas and Contact Sheet Buttons (Only if all done) */}
+                                            {assets.every(a => a.status === 'done') && (
+                                                <>
+                                                    <button 
+                                                        onClick={() => setAtlasScope({ name: groupName, group: groupName })}
+                                                        className="flex items-center gap-1 text-[10px] bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 transition-colors"
+                                                    >
+                                                        <Grid size={12} /> PACK ATLAS
+                                                    </button>
+                                                    <button 
+                                                        onClick={() => setPreviewExportScope({ name: groupName, group: groupName })}
+                                                        className="flex items-center gap-1 text-[10px] bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 transition-colors"
+                                                    >
+                                                        <Film size={12} /> CONTACT SHEET
+                                                    </button>
+                                                </>
                                             )}
                                         </div>
                                         
@@ -530,6 +1089,9 @@ const App: React.FC = () => {
                                                     asset={asset} 
                                                     onRegenerate={handleRegenerate}
                                                     onEdit={handleOpenEdit}
+                                                    canGenerate={phase === AppPhase.COMPLETE || (phase === AppPhase.CONCEPT && plan.groupConcepts?.[groupName]?.assetId === asset.id)}
+                                                    onVariants={setVariantsAsset}
+                                                    onHistory={(a) => setHistoryTarget({ assetId: a.id })}
                                                     onPreviewAnimation={(a) => {
                                                         setPreviewAsset(a);
                                                         setIsAnimModalOpen(true);
@@ -549,21 +1111,116 @@ const App: React.FC = () => {
 
       {editingAsset && (
         <EditModal 
-            asset={editingAsset}
+            asset={plan?.assets.find(a => a.id === editingAsset.id) || editingAsset}
             isOpen={isEditModalOpen}
             onClose={() => setIsEditModalOpen(false)}
             onConfirmAI={handleConfirmEditAI}
-            onSaveManual={handleSaveAsset}
+            onSaveManual={handleSaveAsset('manual')}
+            onApplyProcessing={handleApplyProcessing}
+            projectPalette={plan?.palette?.colors}
             isProcessing={isEditingProcessing}
         />
       )}
 
       {previewAsset && (
         <AnimationModal 
-            asset={previewAsset}
+            asset={plan?.assets.find(a => a.id === previewAsset.id) || previewAsset}
             isOpen={isAnimModalOpen}
             onClose={() => setIsAnimModalOpen(false)}
-            onSave={handleSaveAsset}
+            onSave={handleSaveAsset('animation')}
+            onExportAseprite={handleExportAseprite}
+            onImportAseprite={handleImportAseprite}
+            onExportPreview={(asset) => setPreviewExportScope({ name: asset.name, assetId: asset.id })}
+            projectPalette={plan?.palette?.colors}
+        />
+      )}
+
+      {variantsAsset && plan && (
+        <VariantsModal
+            asset={plan.assets.find(a => a.id === variantsAsset.id) || variantsAsset}
+            isOpen={!!variantsAsset}
+            isConcept={isConceptAsset(plan, variantsAsset)}
+            onClose={() => setVariantsAsset(null)}
+            onGenerate={handleGenerateVariants}
+            onPromote={handlePromoteVariant}
+        />
+      )}
+
+      {historyTarget && plan && (() => {
+        if (historyTarget === 'style') {
+            return (
+                <HistoryModal
+                    title="STYLE REFERENCE"
+                    currentImage={plan.masterStyleImage}
+                    revisions={plan.styleRevisions || []}
+                    isOpen
+                    onClose={() => setHistoryTarget(null)}
+                    onRevert={handleRevertStyle}
+                />
+            );
+        }
+        const asset = plan.assets.find(a => a.id === historyTarget.assetId);
+        return asset ? (
+            <HistoryModal
+                title={asset.filename}
+                currentImage={asset.imageUrl}
+                revisions={asset.revisions || []}
+                isOpen
+                onClose={() => setHistoryTarget(null)}
+                onRevert={(revisionId) => handleRevertAsset(asset.id, revisionId)}
+            />
+        ) : null;
+      })()}
+
+      <ProjectBrowser
+          isOpen={isProjectBrowserOpen}
+          currentProjectId={projectId}
+          onClose={() => setIsProjectBrowserOpen(false)}
+          onOpen={openProject}
+          onNew={startNewProject}
+      />
+
+      {plan && (
+        <PaletteModal
+            plan={plan}
+            isOpen={isPaletteOpen}
+            onClose={() => setIsPaletteOpen(false)}
+            onSave={handleSavePalette}
+            onRemapAssets={handleRemapAssets}
+        />
+      )}
+
+      {atlasScope && (
+        <AtlasModal
+            name={atlasScope.name}
+            assets={atlasAssets}
+            isOpen={!!atlasScope}
+            onClose={() => setAtlasScope(null)}
+            onDownload={handleDownloadAtlas}
+        />
+      )}
+
+      {previewExportScope && previewExportAssets.length > 0 && (
+        <PreviewExportModal
+            name={previewExportScope.name}
+            assets={previewExportAssets}
+            contactSheet={!!previewExportScope.group}
+            isOpen={!!previewExportScope}
+            options={previewOptions}
+            onOptionsChange={setPreviewOptions}
+            onClose={() => setPreviewExportScope(null)}
+            onDownload={handleDownloadPreview}
+        />
+      )}
+
+      {plan && (
+        <ExportReportModal
+            missing={getMissingAssets(plan)}
+            totalAssets={plan.assets.length}
+            isOpen={isExportReportOpen}
+            onClose={() => setIsExportReportOpen(false)}
+            onExportAnyway={() => exportZip()}
+            writesReport={!!getExportTarget(exportTargetId).writesMissingReport}
         />
       )}
 
@@ -572,6 +1229,8 @@ const App: React.FC = () => {
             plan={plan}
             isOpen={isPlaygroundOpen}
             onClose={() => setIsPlaygroundOpen(false)}
+            onBindingsChange={handleChangePlaygroundBindings}
+            onExportHtml={handleExportPlayableHtml}
         />
       )}
     </div>
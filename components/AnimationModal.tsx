@@ -1,63 +1,107 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Play, Square, FastForward, ChevronLeft, ChevronRight, Trash2, Copy, Save, RotateCcw } from 'lucide-react';
-import { GameAsset } from '../types';
+import { X, Play, Square, FastForward, ChevronLeft, ChevronRight, Trash2, Copy, Save, RotateCcw, Scissors, Wand2, Grid3X3, Check, Crosshair, BoxSelect, CopyCheck, Spline, Pencil, Layers, FileDown, FileUp, Film } from 'lucide-react';
+import { GameAsset, FrameBox, FrameBoxKind, FrameData, AnimationTag, LoopMode, AnimationMetadata } from '../types';
+import { readImageData, imageDataToUrl } from '../services/imageData';
+import { FrameRect, detectFrames, uniformSlices, initialSlices, normalizeFrames, cropImage } from '../services/frameSlicer';
+import { FRAME_BOX_KINDS, FRAME_BOX_COLORS, fitFrameData, getPivot, copyToAllFrames, interpolateFrames, nextBoxName } from '../services/frameData';
+import PixelCanvas, { OnionSkin } from './PixelCanvas';
+import { LOOP_MODES, LOOP_MODE_LABELS, fitAnimation, getFrameAtTime, getPlaybackRange, getTotalDuration } from '../services/animationTiming';
 
 interface AnimationModalProps {
   asset: GameAsset;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (assetId: string, newImageUrl: string, newFrameCount: number) => void;
+  onSave: (assetId: string, newImageUrl: string, newFrameCount: number, metadata: AnimationMetadata) => void;
+  onExportAseprite: (asset: GameAsset) => void;
+  onImportAseprite: (assetId: string, file: File) => void; // Replaces the strip and its timing
+  onExportPreview: (asset: GameAsset) => void; // GIF / APNG / WebP
+  projectPalette?: string[];
 }
 
-const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose, onSave }) => {
-  const [fps, setFps] = useState(8);
+const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose, onSave, onExportAseprite, onImportAseprite, onExportPreview, projectPalette }) => {
+  const [fps, setFps] = useState(8); // Applied to every frame at once
   const [isPlaying, setIsPlaying] = useState(true);
+
+  // Timing State: per-frame durations (parallel to frames), loop mode and tags
+  const [durations, setDurations] = useState<number[]>([]);
+  const [loopMode, setLoopMode] = useState<LoopMode>('loop');
+  const [tags, setTags] = useState<AnimationTag[]>([]);
+  const [playTag, setPlayTag] = useState(''); // Tag name the preview plays; '' = whole strip
+  const [newTag, setNewTag] = useState({ name: '', from: 1, to: 1 }); // 1-based, as shown
   
   // Editor State
   const [frames, setFrames] = useState<string[]>([]); // Array of DataURLs for individual frames
+  const [frameData, setFrameData] = useState<FrameData[]>([]); // Pivot and boxes, parallel to frames
   const [selectedFrameIdx, setSelectedFrameIdx] = useState<number>(0);
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
-  
+
+  // Slicing State: the rects the frames are cut from, over the asset's current strip
+  const [view, setView] = useState<'PREVIEW' | 'SLICE' | 'BOXES' | 'PAINT'>('PREVIEW');
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [slices, setSlices] = useState<FrameRect[]>([]);
+  const [selectedSlice, setSelectedSlice] = useState<number | null>(null);
+  const [uniformCount, setUniformCount] = useState(1);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRect, setDragRect] = useState<FrameRect | null>(null);
+  const [sliceNote, setSliceNote] = useState('');
+  const stripRef = useRef<HTMLImageElement>(null);
+  const aseInputRef = useRef<HTMLInputElement>(null);
+
+  // Overlay State: placing the pivot or drawing boxes on the selected frame
+  const [overlayTool, setOverlayTool] = useState<'pivot' | 'box'>('box');
+  const [boxKind, setBoxKind] = useState<FrameBoxKind>('hurtbox');
+  const [interpolateTo, setInterpolateTo] = useState(0);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+  const frameRef = useRef<HTMLImageElement>(null);
+
+  // Paint State: how many neighbouring frames show through, and how strongly
+  const [onionPrevious, setOnionPrevious] = useState(1);
+  const [onionNext, setOnionNext] = useState(1);
+  const [onionOpacity, setOnionOpacity] = useState(0.4);
+
+  const timing = fitAnimation({ frameDurations: durations, loop: loopMode, tags }, frames.length);
+  const playRange = getPlaybackRange(timing, timing.tags.find(t => t.name === playTag));
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>();
   const startTimeRef = useRef<number>();
 
-  // --- INITIALIZATION: Slice Sprite Sheet into Frames ---
-  useEffect(() => {
-    if (!isOpen || !asset.imageUrl) return;
-
-    const initEditor = async () => {
-      setOriginalImage(asset.imageUrl!);
-      const img = new Image();
-      img.src = asset.imageUrl!;
-      await new Promise((r) => (img.onload = r));
-
-      const frameCount = asset.metadata?.frames || 1;
-      const frameWidth = Math.floor(img.width / frameCount);
-      const frameHeight = img.height;
-
-      const newFrames: string[] = [];
-      
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = frameWidth;
-      tempCanvas.height = frameHeight;
-      const ctx = tempCanvas.getContext('2d');
-
-      if (ctx) {
-        for (let i = 0; i < frameCount; i++) {
-          ctx.clearRect(0, 0, frameWidth, frameHeight);
-          ctx.drawImage(img, i * frameWidth, 0, frameWidth, frameHeight, 0, 0, frameWidth, frameHeight);
-          newFrames.push(tempCanvas.toDataURL());
-        }
-      }
-      setFrames(newFrames);
-    };
+  // --- SLICING: Cut frames out of the strip and normalize them to one cell size ---
+  const applySlices = (image: ImageData, rects: FrameRect[], detected: boolean) => {
+    // Uniform cells are kept as they are; detected frames get a common cell, at their height in the sheet
+    const { strip, cellWidth, cellHeight } = normalizeFrames(image, rects, detected ? 1 : 0);
+    setFrames(rects.map((_, i) => imageDataToUrl(cropImage(strip, { x: i * cellWidth, y: 0, width: cellWidth, height: cellHeight }))));
+    setFrameData(fitFrameData(asset.metadata?.frameData, rects.length));
+    const animation = fitAnimation(asset.metadata?.animation, rects.length);
+    setDurations(animation.frameDurations);
+    setLoopMode(animation.loop);
+    setTags(animation.tags);
+    setPlayTag('');
+    setSelectedFrameIdx(0);
+    startTimeRef.current = 0;
+  };
 
-    initEditor();
+  const describeSlices = (found: number) => {
+    const expected = asset.metadata?.frames || 1;
+    return found === expected ? `${found} FRAMES` : `${found} FRAMES (asset says ${expected})`;
+  };
 
-    // Reset loop
-    startTimeRef.current = 0;
+  // --- INITIALIZATION: Slice Sprite Sheet into Frames ---
+  const initEditor = async () => {
+    const image = await readImageData(asset.imageUrl!);
+    const expected = asset.metadata?.frames || 1;
+    const { rects, detected } = initialSlices(image, expected);
+    setSource(image);
+    setSlices(rects);
+    setSelectedSlice(null);
+    setUniformCount(expected);
+    setSliceNote(detected ? `UNEVEN STRIP: DETECTED ${describeSlices(rects.length)}` : '');
+    applySlices(image, rects, detected);
+  };
 
+  useEffect(() => {
+    if (!isOpen || !asset.imageUrl) return;
+    setView('PREVIEW');
+    initEditor().catch(e => console.error("Could not slice the strip", e));
   }, [isOpen, asset.imageUrl, asset.metadata?.frames]);
 
   // --- ANIMATION LOOP ---
@@ -70,22 +114,16 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
       return img;
     });
 
-    let currentFrame = 0;
+    let shownFrame = -1;
 
     const animate = (time: number) => {
       if (!startTimeRef.current) startTimeRef.current = time;
-      const deltaTime = time - startTimeRef.current;
-      const interval = 1000 / fps;
-
-      if (deltaTime > interval) {
-        if (isPlaying) {
-          currentFrame = (currentFrame + 1) % frames.length;
-        } else {
-            // When paused, show selected frame if valid, else 0
-            currentFrame = selectedFrameIdx < frames.length ? selectedFrameIdx : 0;
-        }
-        startTimeRef.current = time;
+      // Same playback rule as the playground, so the preview shows what the game will
+      const currentFrame = isPlaying
+        ? getFrameAtTime(timing, time - startTimeRef.current, playRange).frame
+        : selectedFrameIdx < frames.length ? selectedFrameIdx : 0; // When paused, show selected frame
 
+      if (currentFrame !== shownFrame) {
         const canvas = canvasRef.current;
         const ctx = canvas?.getContext('2d');
 
@@ -103,6 +141,7 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
            const drawY = (canvas.height - drawH) / 2;
 
            ctx.drawImage(img, drawX, drawY, drawW, drawH);
+           shownFrame = currentFrame;
         }
       }
       requestRef.current = requestAnimationFrame(animate);
@@ -112,17 +151,23 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [isOpen, frames, fps, isPlaying, selectedFrameIdx]);
+  }, [isOpen, frames, durations, loopMode, tags, playTag, isPlaying, selectedFrameIdx]);
 
   // --- EDITOR ACTIONS ---
 
   const moveFrame = (idx: number, direction: -1 | 1) => {
     const newFrames = [...frames];
+    const newData = [...frameData];
     const targetIdx = idx + direction;
     if (targetIdx < 0 || targetIdx >= newFrames.length) return;
     
     [newFrames[idx], newFrames[targetIdx]] = [newFrames[targetIdx], newFrames[idx]];
+    [newData[idx], newData[targetIdx]] = [newData[targetIdx], newData[idx]];
+    const newDurations = [...durations];
+    [newDurations[idx], newDurations[targetIdx]] = [newDurations[targetIdx], newDurations[idx]];
     setFrames(newFrames);
+    setFrameData(newData);
+    setDurations(newDurations);
     setSelectedFrameIdx(targetIdx);
   };
 
@@ -130,6 +175,8 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
     if (frames.length <= 1) return; // Prevent deleting last frame
     const newFrames = frames.filter((_, i) => i !== idx);
     setFrames(newFrames);
+    setFrameData(frameData.filter((_, i) => i !== idx));
+    setDurations(durations.filter((_, i) => i !== idx));
     if (selectedFrameIdx >= newFrames.length) setSelectedFrameIdx(newFrames.length - 1);
   };
 
@@ -137,9 +184,158 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
     const newFrames = [...frames];
     newFrames.splice(idx + 1, 0, newFrames[idx]);
     setFrames(newFrames);
+    const newData = [...frameData];
+    newData.splice(idx + 1, 0, { pivot: frameData[idx]?.pivot, boxes: (frameData[idx]?.boxes || []).map(b => ({ ...b })) });
+    setFrameData(newData);
+    const newDurations = [...durations];
+    newDurations.splice(idx + 1, 0, durations[idx]);
+    setDurations(newDurations);
     setSelectedFrameIdx(idx + 1);
   };
 
+  // --- PAINT: Pixel edits of a single frame, over its neighbours ---
+  const getOnionSkins = (idx: number): OnionSkin[] => {
+    const skins: OnionSkin[] = [];
+    // Fainter the further away; the nearest frames are drawn last (on top)
+    for (let d = onionPrevious; d >= 1; d--) {
+      if (idx - d >= 0) skins.push({ imageUrl: frames[idx - d], opacity: onionOpacity / d, tint: 'previous' });
+    }
+    for (let d = onionNext; d >= 1; d--) {
+      if (idx + d < frames.length) skins.push({ imageUrl: frames[idx + d], opacity: onionOpacity / d, tint: 'next' });
+    }
+    return skins;
+  };
+
+  const handlePaintSave = (url: string) => {
+    setFrames(frames.map((f, i) => i === selectedFrameIdx ? url : f));
+    setView('PREVIEW');
+  };
+
+  // --- TIMING ---
+  const setDuration = (idx: number, ms: number) => {
+    setDurations(durations.map((d, i) => i === idx ? Math.max(1, ms) : d));
+    startTimeRef.current = 0;
+  };
+
+  const setAllDurations = (newFps: number) => {
+    setFps(newFps);
+    setDurations(durations.map(() => Math.round(1000 / newFps)));
+    startTimeRef.current = 0;
+  };
+
+  const addTag = () => {
+    const name = newTag.name.trim();
+    if (!name || tags.some(t => t.name === name)) return;
+    const from = Math.min(newTag.from, newTag.to) - 1, to = Math.max(newTag.from, newTag.to) - 1;
+    setTags([...tags, { name, from: Math.max(0, from), to: Math.min(frames.length - 1, to) }]);
+    setNewTag({ name: '', from: 1, to: 1 });
+  };
+
+  const updateTag = (name: string, patch: Partial<AnimationTag>) => {
+    setTags(tags.map(t => t.name === name ? { ...t, ...patch } : t));
+  };
+
+  const deleteTag = (name: string) => {
+    setTags(tags.filter(t => t.name !== name));
+    if (playTag === name) setPlayTag('');
+  };
+
+  const handleAutoDetect = () => {
+    if (!source) return;
+    const rects = detectFrames(source);
+    if (rects.length === 0) {
+      setSliceNote('NOTHING DETECTED: the strip has no transparent background');
+      return;
+    }
+    setSlices(rects);
+    setSelectedSlice(null);
+    setSliceNote(`DETECTED ${describeSlices(rects.length)}`);
+  };
+
+  const handleUniform = () => {
+    if (!source) return;
+    setSlices(uniformSlices(source.width, source.height, uniformCount));
+    setSelectedSlice(null);
+    setSliceNote(`${uniformCount} EQUAL CELLS`);
+  };
+
+  const updateSlice = (idx: number, patch: Partial<FrameRect>) => {
+    setSlices(slices.map((s, i) => i === idx ? { ...s, ...patch } : s));
+  };
+
+  const deleteSlice = (idx: number) => {
+    setSlices(slices.filter((_, i) => i !== idx));
+    setSelectedSlice(null);
+  };
+
+  const handleApplySlices = () => {
+    if (!source || slices.length === 0) return;
+    // Cells can only stay as they are if they all have the same size
+    const uniform = slices.every(s => s.width === slices[0].width && s.height === slices[0].height);
+    applySlices(source, slices, !uniform);
+    setView('PREVIEW');
+  };
+
+  // --- OVERLAY: Pivot and boxes of the selected frame ---
+  const updateFrame = (idx: number, data: FrameData) => {
+    setFrameData(frameData.map((d, i) => i === idx ? data : d));
+  };
+
+  const currentData = frameData[selectedFrameIdx] ?? { boxes: [] };
+
+  const updateBox = (boxIdx: number, patch: Partial<FrameBox>) => {
+    updateFrame(selectedFrameIdx, { ...currentData, boxes: currentData.boxes.map((b, i) => i === boxIdx ? { ...b, ...patch } : b) });
+  };
+
+  const deleteBox = (boxIdx: number) => {
+    updateFrame(selectedFrameIdx, { ...currentData, boxes: currentData.boxes.filter((_, i) => i !== boxIdx) });
+  };
+
+  // Drawing a rect adds a frame (SLICE, in strip pixels) or a box (BOXES, in frame pixels)
+  const toImagePoint = (e: React.MouseEvent) => {
+    const img = view === 'SLICE' ? stripRef.current : frameRef.current;
+    if (!img || !img.naturalWidth) return null;
+    const bounds = img.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(img.naturalWidth, Math.round((e.clientX - bounds.left) / bounds.width * img.naturalWidth))),
+      y: Math.max(0, Math.min(img.naturalHeight, Math.round((e.clientY - bounds.top) / bounds.height * img.naturalHeight)))
+    };
+  };
+
+  const handleStripMouseDown = (e: React.MouseEvent) => {
+    const point = toImagePoint(e);
+    if (!point) return;
+    if (view === 'BOXES' && overlayTool === 'pivot') {
+      updateFrame(selectedFrameIdx, { ...currentData, pivot: point });
+      return;
+    }
+    setDragStart(point);
+    setDragRect(null);
+  };
+
+  const handleStripMouseMove = (e: React.MouseEvent) => {
+    const point = dragStart && toImagePoint(e);
+    if (!dragStart || !point) return;
+    setDragRect({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y)
+    });
+  };
+
+  const handleStripMouseUp = () => {
+    if (view === 'BOXES' && dragRect && dragRect.width > 0 && dragRect.height > 0) {
+      updateFrame(selectedFrameIdx, { ...currentData, boxes: [...currentData.boxes, { ...dragRect, name: nextBoxName(currentData, boxKind), kind: boxKind }] });
+    } else if (view === 'SLICE' && dragRect && dragRect.width > 1 && dragRect.height > 1) {
+      const next = [...slices, dragRect].sort((a, b) => a.x - b.x);
+      setSlices(next);
+      setSelectedSlice(next.indexOf(dragRect));
+    }
+    setDragStart(null);
+    setDragRect(null);
+  };
+
   const handleSave = async () => {
     if (frames.length === 0) return;
 
@@ -167,7 +363,10 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
     }));
 
     const newUrl = canvas.toDataURL('image/png');
-    onSave(asset.id, newUrl, frames.length);
+    onSave(asset.id, newUrl, frames.length, {
+        frameData,
+        animation: timing
+    });
     onClose();
   };
 
@@ -181,6 +380,54 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
         <div className="bg-retro-amber text-retro-black p-3 flex justify-between items-center font-bold font-mono">
             <span className="flex items-center gap-2"><FastForward size={16}/> ANIMATION_EDITOR.exe</span>
             <div className="flex gap-2">
+                <button
+                    onClick={() => setView(view === 'SLICE' ? 'PREVIEW' : 'SLICE')}
+                    disabled={!source}
+                    className={`flex items-center gap-1 px-3 py-1 rounded text-xs border border-black/30 transition-all disabled:opacity-40 ${view === 'SLICE' ? 'bg-black text-retro-amber' : 'hover:bg-black/20'}`}
+                >
+                    <Scissors size={14} /> SLICE
+                </button>
+                <button
+                    onClick={() => { setView(view === 'BOXES' ? 'PREVIEW' : 'BOXES'); setIsPlaying(false); }}
+                    disabled={frames.length === 0}
+                    className={`flex items-center gap-1 px-3 py-1 rounded text-xs border border-black/30 transition-all disabled:opacity-40 ${view === 'BOXES' ? 'bg-black text-retro-amber' : 'hover:bg-black/20'}`}
+                >
+                    <BoxSelect size={14} /> BOXES
+                </button>
+                <input
+                    ref={aseInputRef}
+                    type="file"
+                    accept=".aseprite,.ase"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImportAseprite(asset.id, file);
+                        e.target.value = '';
+                    }}
+                />
+                <button
+                    onClick={() => onExportPreview(asset)}
+                    disabled={!asset.imageUrl}
+                    title="Export as animated GIF, APNG or WebP (saved state, not unsaved edits)"
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs border border-black/30 hover:bg-black/20 disabled:opacity-40"
+                >
+                    <Film size={14} /> GIF
+                </button>
+                <button
+                    onClick={() => onExportAseprite(asset)}
+                    disabled={!asset.imageUrl}
+                    title="Download as .aseprite (saved state, not unsaved edits)"
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs border border-black/30 hover:bg-black/20 disabled:opacity-40"
+                >
+                    <FileDown size={14} /> ASE
+                </button>
+                <button
+                    onClick={() => aseInputRef.current?.click()}
+                    title="Replace the strip with an edited .aseprite file"
+                    className="flex items-center gap-1 px-2 py-1 rounded text-xs border border-black/30 hover:bg-black/20"
+                >
+                    <FileUp size={14} /> ASE
+                </button>
                 <button 
                     onClick={handleSave} 
                     className="flex items-center gap-1 bg-retro-green text-black px-3 py-1 rounded text-xs hover:bg-white hover:scale-105 transition-all"
@@ -191,8 +438,262 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
             </div>
         </div>
 
+        {/* Slicing Grid Editor */}
+        {view === 'SLICE' && source && (
+            <div className="flex-1 flex flex-col overflow-hidden border-b border-white/10 font-mono text-xs">
+                <div className="flex flex-wrap items-center gap-2 p-3 bg-retro-gray/20 border-b border-white/10 text-gray-300">
+                    <button onClick={handleAutoDetect} className="flex items-center gap-1 bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20">
+                        <Wand2 size={12} /> AUTO-DETECT
+                    </button>
+                    <button onClick={handleUniform} className="flex items-center gap-1 bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20">
+                        <Grid3X3 size={12} /> UNIFORM
+                    </button>
+                    <input
+                        type="number" min="1" max="64"
+                        value={uniformCount}
+                        onChange={(e) => setUniformCount(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                        className="w-14 bg-black/50 border border-white/20 rounded px-2 py-1 text-white outline-none focus:border-retro-amber"
+                    />
+                    <span className="text-gray-500">{slices.length} RECTS. Drag on the strip to add one.</span>
+                    <button
+                        onClick={handleApplySlices}
+                        disabled={slices.length === 0}
+                        className="ml-auto flex items-center gap-1 bg-retro-amber text-black font-bold px-3 py-1 rounded hover:bg-yellow-400 disabled:opacity-40"
+                    >
+                        <Check size={12} /> APPLY SLICES
+                    </button>
+                </div>
+                {sliceNote && <div className="px-3 py-1 text-retro-amber text-[10px]">{sliceNote}</div>}
+
+                <div className="flex-1 overflow-auto custom-scrollbar p-4 flex items-center justify-center bg-black/50">
+                    <div
+                        className="relative select-none cursor-crosshair"
+                        onMouseDown={handleStripMouseDown}
+                        onMouseMove={handleStripMouseMove}
+                        onMouseUp={handleStripMouseUp}
+                        onMouseLeave={handleStripMouseUp}
+                    >
+                        <img ref={stripRef} src={asset.imageUrl} draggable={false} className="max-w-full max-h-[40vh] [image-rendering:pixelated] bg-white/5" />
+                        {[...slices, ...(dragRect ? [dragRect] : [])].map((rect, idx) => (
+                            <div
+                                key={idx}
+                                onMouseDown={(e) => { if (rect !== dragRect) { e.stopPropagation(); setSelectedSlice(idx); } }}
+                                className={`absolute border ${idx === selectedSlice ? 'border-retro-amber bg-retro-amber/20' : rect === dragRect ? 'border-white border-dashed' : 'border-retro-green bg-retro-green/10 hover:bg-retro-green/20'}`}
+                                style={{
+                                    left: `${rect.x / source.width * 100}%`,
+                                    top: `${rect.y / source.height * 100}%`,
+                                    width: `${rect.width / source.width * 100}%`,
+                                    height: `${rect.height / source.height * 100}%`
+                                }}
+                            >
+                                {rect !== dragRect && <span className="absolute -top-4 left-0 text-[9px] text-gray-400">{idx + 1}</span>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {selectedSlice !== null && slices[selectedSlice] && (
+                    <div className="flex items-center gap-3 p-3 bg-retro-gray/20 border-t border-white/10 text-gray-400">
+                        <span>FRAME {selectedSlice + 1}</span>
+                        {(['x', 'y', 'width', 'height'] as const).map(key => (
+                            <label key={key} className="flex items-center gap-1">
+                                {key.toUpperCase()}
+                                <input
+                                    type="number" min="0"
+                                    value={slices[selectedSlice][key]}
+                                    onChange={(e) => updateSlice(selectedSlice, { [key]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                    className="w-16 bg-black/50 border border-white/20 rounded px-2 py-1 text-white outline-none focus:border-retro-amber"
+                                />
+                            </label>
+                        ))}
+                        <button
+                            onClick={() => deleteSlice(selectedSlice)}
+                            className="ml-auto p-1 bg-red-500 text-white rounded hover:bg-red-400"
+                            title="Delete Rect"
+                        >
+                            <Trash2 size={12} />
+                        </button>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Pivot & Box Overlay Editor (selected frame) */}
+        {view === 'BOXES' && frames[selectedFrameIdx] && (
+            <div className="flex-1 flex flex-col overflow-hidden border-b border-white/10 font-mono text-xs">
+                <div className="flex flex-wrap items-center gap-2 p-3 bg-retro-gray/20 border-b border-white/10 text-gray-300">
+                    <button
+                        onClick={() => setOverlayTool('pivot')}
+                        className={`flex items-center gap-1 px-2 py-1 rounded border ${overlayTool === 'pivot' ? 'bg-retro-amber text-black border-retro-amber' : 'bg-retro-gray border-white/20 text-white hover:bg-white/20'}`}
+                    >
+                        <Crosshair size={12} /> PIVOT
+                    </button>
+                    <button
+                        onClick={() => setOverlayTool('box')}
+                        className={`flex items-center gap-1 px-2 py-1 rounded border ${overlayTool === 'box' ? 'bg-retro-amber text-black border-retro-amber' : 'bg-retro-gray border-white/20 text-white hover:bg-white/20'}`}
+                    >
+                        <BoxSelect size={12} /> BOX
+                    </button>
+                    <select
+                        value={boxKind}
+                        onChange={(e) => setBoxKind(e.target.value as FrameBoxKind)}
+                        className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+                    >
+                        {FRAME_BOX_KINDS.map(k => <option key={k} value={k}>{k.toUpperCase()}</option>)}
+                    </select>
+                    <button
+                        onClick={() => setFrameData(copyToAllFrames(frameData, selectedFrameIdx))}
+                        className="flex items-center gap-1 bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20"
+                        title="Replace every frame's pivot and boxes with this frame's"
+                    >
+                        <CopyCheck size={12} /> COPY TO ALL
+                    </button>
+                    <button
+                        onClick={() => setFrameData(interpolateFrames(frameData, selectedFrameIdx, interpolateTo))}
+                        disabled={Math.abs(interpolateTo - selectedFrameIdx) < 2}
+                        className="flex items-center gap-1 bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 disabled:opacity-40"
+                        title="Fill the frames in between from this frame and the target frame"
+                    >
+                        <Spline size={12} /> INTERPOLATE TO
+                    </button>
+                    <select
+                        value={interpolateTo}
+                        onChange={(e) => setInterpolateTo(parseInt(e.target.value, 10))}
+                        className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+                    >
+                        {frames.map((_, i) => <option key={i} value={i}>FRAME {i + 1}</option>)}
+                    </select>
+                </div>
+
+                <div className="flex-1 overflow-auto custom-scrollbar p-4 flex items-center justify-center bg-black/50">
+                    <div
+                        className="relative select-none cursor-crosshair"
+                        onMouseDown={handleStripMouseDown}
+                        onMouseMove={handleStripMouseMove}
+                        onMouseUp={handleStripMouseUp}
+                        onMouseLeave={handleStripMouseUp}
+                    >
+                        <img
+                            ref={frameRef}
+                            src={frames[selectedFrameIdx]}
+                            draggable={false}
+                            onLoad={(e) => setFrameSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                            className="h-[36vh] max-w-full object-contain [image-rendering:pixelated] bg-white/5"
+                        />
+                        {frameSize.width > 0 && (
+                            <>
+                                {[...currentData.boxes, ...(dragRect ? [{ ...dragRect, name: '', kind: boxKind }] : [])].map((box, idx) => (
+                                    <div
+                                        key={idx}
+                                        className="absolute border-2 pointer-events-none"
+                                        style={{
+                                            left: `${box.x / frameSize.width * 100}%`,
+                                            top: `${box.y / frameSize.height * 100}%`,
+                                            width: `${box.width / frameSize.width * 100}%`,
+                                            height: `${box.height / frameSize.height * 100}%`,
+                                            borderColor: FRAME_BOX_COLORS[box.kind],
+                                            backgroundColor: `${FRAME_BOX_COLORS[box.kind]}22`
+                                        }}
+                                    >
+                                        <span className="absolute -top-4 left-0 text-[9px]" style={{ color: FRAME_BOX_COLORS[box.kind] }}>{box.name}</span>
+                                    </div>
+                                ))}
+                                {(() => {
+                                    const pivot = getPivot(currentData, frameSize.width, frameSize.height);
+                                    return (
+                                        <div
+                                            className={`absolute w-3 h-3 -ml-1.5 -mt-1.5 pointer-events-none border-2 rounded-full ${currentData.pivot ? 'border-retro-amber' : 'border-gray-500'}`}
+                                            style={{ left: `${pivot.x / frameSize.width * 100}%`, top: `${pivot.y / frameSize.height * 100}%` }}
+                                            title="Pivot"
+                                        />
+                                    );
+                                })()}
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-3 bg-retro-gray/20 border-t border-white/10 text-gray-400 flex flex-col gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+                    <span>
+                        FRAME {selectedFrameIdx + 1} PIVOT: {(() => { const p = getPivot(currentData, frameSize.width, frameSize.height); return `${p.x}, ${p.y}`; })()}
+                        {currentData.pivot ? '' : ' (default: bottom center)'}
+                    </span>
+                    {currentData.boxes.length === 0 && <span className="text-gray-600">No boxes. Drag on the frame to draw one.</span>}
+                    {currentData.boxes.map((box, idx) => (
+                        <div key={idx} className="flex items-center gap-2">
+                            <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: FRAME_BOX_COLORS[box.kind] }} />
+                            <input
+                                value={box.name}
+                                onChange={(e) => updateBox(idx, { name: e.target.value })}
+                                className="w-28 bg-black/50 border border-white/20 rounded px-2 py-0.5 text-white outline-none focus:border-retro-amber"
+                            />
+                            <select
+                                value={box.kind}
+                                onChange={(e) => updateBox(idx, { kind: e.target.value as FrameBoxKind })}
+                                className="bg-black/50 border border-white/20 text-gray-300 px-1 py-0.5 rounded outline-none"
+                            >
+                                {FRAME_BOX_KINDS.map(k => <option key={k} value={k}>{k.toUpperCase()}</option>)}
+                            </select>
+                            <span className="text-gray-500">{box.x},{box.y} {box.width}x{box.height}</span>
+                            <button onClick={() => deleteBox(idx)} className="ml-auto p-1 text-red-400 hover:text-red-300" title="Delete Box">
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {/* Pixel Editor (selected frame, with onion skins) */}
+        {view === 'PAINT' && frames[selectedFrameIdx] && (
+            <div className="flex-1 flex flex-col overflow-hidden border-b border-white/10">
+                <div className="flex flex-wrap items-center gap-4 p-3 bg-retro-gray/20 border-b border-white/10 font-mono text-xs text-gray-300">
+                    <span className="flex items-center gap-1 text-retro-amber"><Layers size={12} /> ONION SKIN</span>
+                    <label className="flex items-center gap-1">
+                        PREV
+                        <input
+                            type="number" min="0" max="4"
+                            value={onionPrevious}
+                            onChange={(e) => setOnionPrevious(Math.max(0, Math.min(4, parseInt(e.target.value, 10) || 0)))}
+                            className="w-10 bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white outline-none"
+                        />
+                    </label>
+                    <label className="flex items-center gap-1">
+                        NEXT
+                        <input
+                            type="number" min="0" max="4"
+                            value={onionNext}
+                            onChange={(e) => setOnionNext(Math.max(0, Math.min(4, parseInt(e.target.value, 10) || 0)))}
+                            className="w-10 bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white outline-none"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        OPACITY
+                        <input
+                            type="range" min="0" max="1" step="0.05"
+                            value={onionOpacity}
+                            onChange={(e) => setOnionOpacity(parseFloat(e.target.value))}
+                            className="accent-retro-amber"
+                        />
+                        <span className="w-8 text-right">{Math.round(onionOpacity * 100)}%</span>
+                    </label>
+                    <span className="ml-auto text-gray-500">FRAME {selectedFrameIdx + 1}/{frames.length}</span>
+                </div>
+                <div className="flex-1 overflow-hidden">
+                    <PixelCanvas
+                        key={selectedFrameIdx}
+                        imageUrl={frames[selectedFrameIdx]}
+                        palette={projectPalette}
+                        onionSkins={getOnionSkins(selectedFrameIdx)}
+                        saveLabel="APPLY TO FRAME"
+                        onSave={handlePaintSave}
+                    />
+                </div>
+            </div>
+        )}
+
         {/* Preview Canvas */}
-        <div className="flex-1 bg-[url('https://www.transparenttextures.com/patterns/dark-matter.png')] bg-black/50 relative flex items-center justify-center border-b border-white/10 overflow-hidden">
+        <div className={`flex-1 bg-[url('https://www.transparenttextures.com/patterns/dark-matter.png')] bg-black/50 relative flex items-center justify-center border-b border-white/10 overflow-hidden ${view !== 'PREVIEW' ? 'hidden' : ''}`}>
             <canvas ref={canvasRef} width={800} height={600} className="w-full h-full object-contain" />
             
             {/* Playback Controls Overlay */}
@@ -206,7 +707,7 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
                 <div className="flex flex-col w-32">
                      <div className="flex justify-between text-[10px] font-mono text-gray-400">
                         <span>SLOW</span>
-                        <span>{fps} FPS</span>
+                        <span>ALL {fps} FPS</span>
                         <span>FAST</span>
                     </div>
                     <input 
@@ -214,18 +715,80 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
                         min="1" 
                         max="60" 
                         value={fps} 
-                        onChange={(e) => setFps(parseInt(e.target.value))}
+                        onChange={(e) => setAllDurations(parseInt(e.target.value))}
                         className="w-full accent-retro-green h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                        title="Sets every frame's duration"
                     />
                 </div>
+                <select
+                    value={loopMode}
+                    onChange={(e) => { setLoopMode(e.target.value as LoopMode); startTimeRef.current = 0; }}
+                    className="bg-black/50 border border-white/20 text-gray-300 text-[10px] font-mono px-2 py-1 rounded outline-none"
+                    title="Loop mode"
+                >
+                    {LOOP_MODES.map(m => <option key={m} value={m}>{LOOP_MODE_LABELS[m]}</option>)}
+                </select>
+                <select
+                    value={playTag}
+                    onChange={(e) => { setPlayTag(e.target.value); setIsPlaying(true); startTimeRef.current = 0; }}
+                    className="bg-black/50 border border-white/20 text-gray-300 text-[10px] font-mono px-2 py-1 rounded outline-none"
+                    title="Play a tag"
+                >
+                    <option value="">ALL FRAMES</option>
+                    {tags.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                </select>
+                <span className="text-[10px] font-mono text-gray-500">
+                    {getTotalDuration(timing, playRange)}MS
+                </span>
             </div>
         </div>
 
         {/* Timeline Editor */}
-        <div className="h-48 bg-retro-gray/20 p-4 flex flex-col gap-2 overflow-hidden border-t border-white/10">
+        <div className="h-64 bg-retro-gray/20 p-4 flex flex-col gap-2 overflow-hidden border-t border-white/10">
             <div className="flex justify-between items-center text-xs font-mono text-gray-400">
                 <span>TIMELINE ({frames.length} frames)</span>
-                <span>Select a frame to edit</span>
+                <span>{sliceNote && view === 'PREVIEW' ? sliceNote : 'Select a frame to edit'}</span>
+            </div>
+
+            {/* Tags: named frame ranges */}
+            <div className="flex flex-wrap items-center gap-2 text-[10px] font-mono text-gray-400">
+                <span>TAGS:</span>
+                {tags.map(tag => (
+                    <span key={tag.name} className="flex items-center gap-1 bg-black/40 border border-white/10 rounded px-1.5 py-0.5">
+                        <span className="text-retro-amber">{tag.name}</span>
+                        <span>{tag.from + 1}-{tag.to + 1}</span>
+                        <select
+                            value={tag.loop ?? ''}
+                            onChange={(e) => updateTag(tag.name, { loop: (e.target.value || undefined) as LoopMode | undefined })}
+                            className="bg-transparent text-gray-300 outline-none"
+                        >
+                            <option value="">(STRIP)</option>
+                            {LOOP_MODES.map(m => <option key={m} value={m}>{LOOP_MODE_LABELS[m]}</option>)}
+                        </select>
+                        <button onClick={() => deleteTag(tag.name)} className="text-red-400 hover:text-red-300" title="Delete Tag"><X size={10} /></button>
+                    </span>
+                ))}
+                <input
+                    value={newTag.name}
+                    onChange={(e) => setNewTag({ ...newTag, name: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') addTag(); }}
+                    placeholder="new tag"
+                    className="w-20 bg-black/50 border border-white/20 rounded px-1.5 py-0.5 text-white outline-none focus:border-retro-amber"
+                />
+                <input
+                    type="number" min="1" max={frames.length}
+                    value={newTag.from}
+                    onChange={(e) => setNewTag({ ...newTag, from: parseInt(e.target.value, 10) || 1 })}
+                    className="w-10 bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white outline-none"
+                />
+                <span>-</span>
+                <input
+                    type="number" min="1" max={frames.length}
+                    value={newTag.to}
+                    onChange={(e) => setNewTag({ ...newTag, to: parseInt(e.target.value, 10) || 1 })}
+                    className="w-10 bg-black/50 border border-white/20 rounded px-1 py-0.5 text-white outline-none"
+                />
+                <button onClick={addTag} disabled={!newTag.name.trim()} className="bg-retro-gray border border-white/20 text-white px-2 py-0.5 rounded hover:bg-white/20 disabled:opacity-40">ADD</button>
             </div>
             
             <div className="flex-1 flex gap-2 overflow-x-auto overflow-y-hidden custom-scrollbar pb-2 items-center">
@@ -244,8 +807,16 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
                         <div className="flex-1 p-2 flex items-center justify-center">
                             <img src={frameSrc} className="max-w-full max-h-full object-contain [image-rendering:pixelated]" />
                         </div>
-                        <div className="bg-black/80 text-[10px] text-center font-mono py-1 text-gray-500">
-                            {idx + 1}
+                        <div className="bg-black/80 text-[10px] font-mono py-1 px-1 text-gray-500 flex items-center justify-between gap-1">
+                            <span>{idx + 1}</span>
+                            <input
+                                type="number" min="1" step="10"
+                                value={durations[idx] ?? ''}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => setDuration(idx, parseInt(e.target.value, 10) || 1)}
+                                className="w-12 bg-transparent text-right text-gray-300 outline-none"
+                                title="Duration (ms)"
+                            />
                         </div>
 
                         {/* Hover Actions */}
@@ -265,6 +836,13 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
                                 >
                                     <Copy size={10} />
                                 </button>
+                                <button 
+                                    onClick={(e) => { e.stopPropagation(); setView('PAINT'); }}
+                                    className="p-1 bg-retro-amber text-black rounded hover:bg-yellow-400 shadow-md"
+                                    title="Edit Pixels"
+                                >
+                                    <Pencil size={10} />
+                                </button>
                             </div>
                         )}
                          {selectedFrameIdx === idx && (
@@ -288,15 +866,9 @@ const AnimationModal: React.FC<AnimationModalProps> = ({ asset, isOpen, onClose,
                     </div>
                 ))}
                 
-                {/* Reset Button (Optional, just to start over if messed up) */}
+                {/* Reset Button: back to the strip as it was sliced on open */}
                 <button 
-                     onClick={() => {
-                         // Reset logic mimics init
-                         if(originalImage) {
-                             // Re-trigger init by toggling a dummy state or just separate Init logic
-                             // For simplicity in this demo, we assume user won't need hard reset often or closes modal
-                         }
-                     }}
+                     onClick={() => { if (asset.imageUrl) initEditor(); }}
                      className="shrink-0 w-24 h-24 border-2 border-dashed border-white/10 rounded flex flex-col items-center justify-center text-gray-500 hover:text-white hover:border-white/30 transition-colors gap-2"
                 >
                     <RotateCcw size={20} />
@@ -1,15 +1,19 @@
 import React from 'react';
 import { GameAsset } from '../types';
-import { Loader2, AlertCircle, CheckCircle2, RefreshCw, Wand2, PlayCircle } from 'lucide-react';
+import { ERROR_KIND_LABELS } from '../services/generationErrors';
+import { Loader2, AlertCircle, CheckCircle2, RefreshCw, Wand2, PlayCircle, Shuffle, History } from 'lucide-react';
 
 interface AssetCardProps {
   asset: GameAsset;
   onRegenerate: (asset: GameAsset) => void;
   onEdit: (asset: GameAsset) => void;
   onPreviewAnimation: (asset: GameAsset) => void;
+  canGenerate?: boolean; // Allow generating assets still pending outside a batch run
+  onVariants?: (asset: GameAsset) => void;
+  onHistory?: (asset: GameAsset) => void;
 }
 
-const AssetCard: React.FC<AssetCardProps> = ({ asset, onRegenerate, onEdit, onPreviewAnimation }) => {
+const AssetCard: React.FC<AssetCardProps> = ({ asset, onRegenerate, onEdit, onPreviewAnimation, canGenerate, onVariants, onHistory }) => {
   const isAnimation = (asset.metadata?.frames && asset.metadata.frames > 1) || asset.filename.includes('strip');
 
   return (
@@ -21,7 +25,7 @@ const AssetCard: React.FC<AssetCardProps> = ({ asset, onRegenerate, onEdit, onPr
           {asset.status === 'pending' && <span className="text-gray-500">WAITING</span>}
           {asset.status === 'generating' && <Loader2 className="animate-spin w-4 h-4 text-retro-amber" />}
           {asset.status === 'done' && <CheckCircle2 className="w-4 h-4 text-retro-green" />}
-          {asset.status === 'error' && <AlertCircle className="w-4 h-4 text-red-500" />}
+          {asset.status === 'error' && <span title={asset.error?.message}><AlertCircle className="w-4 h-4 text-red-500" /></span>}
         </div>
       </div>
 
@@ -37,18 +41,42 @@ const AssetCard: React.FC<AssetCardProps> = ({ asset, onRegenerate, onEdit, onPr
         ) : (
           <div className="text-white/10 text-4xl font-pixel">?</div>
         )}
+
+        {canGenerate && asset.status === 'pending' && (
+          <div className="absolute inset-0 bg-black/80 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center p-2">
+              <button 
+                onClick={() => onRegenerate(asset)}
+                className="flex items-center gap-1 text-[10px] bg-retro-green text-black px-2 py-1 rounded font-bold hover:bg-white transition-colors w-full justify-center"
+              >
+                <RefreshCw size={10} /> GENERATE
+              </button>
+          </div>
+        )}
         
-        {/* Actions Overlay (Only if done) */}
-        {asset.status === 'done' && (
+        {/* Failure Reason */}
+        {asset.status === 'error' && (
+          <div className="absolute bottom-0 inset-x-0 bg-red-900/80 text-red-100 text-[9px] font-mono px-1 py-0.5 truncate" title={asset.error?.message}>
+            {asset.error ? ERROR_KIND_LABELS[asset.error.kind] : 'GENERATION FAILED'}
+          </div>
+        )}
+
+        {/* Actions Overlay (Only if done or failed) */}
+        {(asset.status === 'done' || asset.status === 'error') && (
           <div className="absolute inset-0 bg-black/80 opacity-0 group-hover/image:opacity-100 transition-opacity flex flex-col items-center justify-center gap-2 p-2">
+              {asset.status === 'error' && asset.error && (
+                <p className="text-[9px] text-red-300 font-mono text-center line-clamp-3">{asset.error.message}</p>
+              )}
+
+              {asset.imageUrl && (
               <button 
                 onClick={() => onEdit(asset)}
                 className="flex items-center gap-1 text-[10px] bg-retro-green text-black px-2 py-1 rounded font-bold hover:bg-white transition-colors w-full justify-center"
               >
                 <Wand2 size={10} /> EDIT
               </button>
+              )}
               
-              {isAnimation && (
+              {isAnimation && asset.imageUrl && (
                   <button 
                     onClick={() => onPreviewAnimation(asset)}
                     className="flex items-center gap-1 text-[10px] bg-retro-amber text-black px-2 py-1 rounded font-bold hover:bg-white transition-colors w-full justify-center"
@@ -63,6 +91,24 @@ const AssetCard: React.FC<AssetCardProps> = ({ asset, onRegenerate, onEdit, onPr
               >
                 <RefreshCw size={10} /> RETRY
               </button>
+
+              {onVariants && (
+                  <button 
+                    onClick={() => onVariants(asset)}
+                    className="flex items-center gap-1 text-[10px] bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 transition-colors w-full justify-center"
+                  >
+                    <Shuffle size={10} /> VARIANTS
+                  </button>
+              )}
+
+              {onHistory && (asset.revisions?.length ?? 0) > 1 && (
+                  <button 
+                    onClick={() => onHistory(asset)}
+                    className="flex items-center gap-1 text-[10px] bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 transition-colors w-full justify-center"
+                  >
+                    <History size={10} /> HISTORY ({asset.revisions!.length})
+                  </button>
+              )}
           </div>
         )}
       </div>
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { X, Grid, Download, Loader2 } from 'lucide-react';
+import { GameAsset } from '../types';
+import { Atlas, AtlasOptions, DEFAULT_ATLAS_OPTIONS, ATLAS_MAX_SIZES, buildAtlas } from '../services/atlasPacker';
+
+interface AtlasModalProps {
+  name: string; // Group name, or the project theme for a project-wide atlas
+  assets: GameAsset[];
+  isOpen: boolean;
+  onClose: () => void;
+  onDownload: (atlas: Atlas, baseName: string) => void;
+}
+
+const AtlasModal: React.FC<AtlasModalProps> = ({ name, assets, isOpen, onClose, onDownload }) => {
+  const [options, setOptions] = useState<AtlasOptions>(DEFAULT_ATLAS_OPTIONS);
+  const [atlas, setAtlas] = useState<Atlas | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseName = `${name.replace(/\s+/g, '_')}_Atlas`;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setAtlas(null);
+    setError(null);
+    // Debounced: the number inputs fire on every step
+    const timer = setTimeout(() => {
+      buildAtlas(assets, `${baseName}.png`, options)
+        .then(result => { if (!cancelled) setAtlas(result); })
+        .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    }, 150);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [isOpen, assets, options, baseName]);
+
+  if (!isOpen) return null;
+
+  const numberField = (label: string, key: 'padding' | 'extrude') => (
+    <label className="flex items-center gap-2">
+        {label}
+        <input
+            type="number" min="0" max="16"
+            value={options[key]}
+            onChange={(e) => setOptions({ ...options, [key]: Math.max(0, Math.min(16, parseInt(e.target.value, 10) || 0)) })}
+            className="w-14 bg-black/50 border border-white/20 rounded px-2 py-1 text-white outline-none focus:border-retro-green"
+        />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-green w-full max-w-5xl h-[85vh] rounded-lg shadow-[0_0_30px_rgba(51,255,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-green text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><Grid size={16}/> ATLAS.exe // {name}</span>
+            <button onClick={onClose} className="hover:text-white p-1"><X size={18} /></button>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 border-b border-white/10 flex flex-wrap items-center gap-6 font-mono text-xs text-gray-300">
+            {numberField('PADDING', 'padding')}
+            {numberField('EXTRUDE', 'extrude')}
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={options.trim} onChange={(e) => setOptions({ ...options, trim: e.target.checked })} className="accent-retro-green" />
+                TRIM
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={options.powerOfTwo} onChange={(e) => setOptions({ ...options, powerOfTwo: e.target.checked })} className="accent-retro-green" />
+                POWER OF TWO
+            </label>
+            <label className="flex items-center gap-2">
+                MAX SIZE
+                <select
+                    value={options.maxSize}
+                    onChange={(e) => setOptions({ ...options, maxSize: parseInt(e.target.value, 10) })}
+                    className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+                >
+                    {ATLAS_MAX_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center gap-2">
+                JSON
+                <select
+                    value={options.format}
+                    onChange={(e) => setOptions({ ...options, format: e.target.value as AtlasOptions['format'] })}
+                    className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+                >
+                    <option value="hash">HASH</option>
+                    <option value="array">ARRAY</option>
+                </select>
+            </label>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 min-h-0 p-4 flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/checkerboard-cross-dark.png')] bg-black/60 overflow-auto custom-scrollbar">
+            {atlas
+                ? <img src={atlas.imageUrl} className="max-w-full max-h-full object-contain [image-rendering:pixelated] border border-white/20" />
+                : error
+                    ? <span className="text-red-400 font-mono text-xs">{error}</span>
+                    : <Loader2 className="animate-spin text-retro-amber" />}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-white/10 flex items-center gap-4 font-mono text-xs text-gray-400">
+            {atlas && (
+                <span>
+                    {atlas.width}x{atlas.height}, {atlas.frameCount} FRAMES FROM {assets.filter(a => a.imageUrl).length} ASSETS, {Math.round(atlas.occupancy * 100)}% USED
+                </span>
+            )}
+            <span className="text-gray-600 text-[10px]">TexturePacker JSON, loads in Phaser (atlas) and PixiJS (Spritesheet).</span>
+            <button
+                onClick={() => atlas && onDownload(atlas, baseName)}
+                disabled={!atlas}
+                className="ml-auto bg-retro-green text-black px-4 py-2 rounded font-bold hover:bg-white disabled:opacity-50 flex items-center gap-2"
+            >
+                <Download size={14} /> DOWNLOAD PNG + JSON
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AtlasModal;
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import { EXPORT_TARGETS } from '../services/exportTargets';
+import { PreviewFormat, PREVIEW_FORMATS } from '../services/animationPreview';
+
+interface ExportMenuProps {
+  onExport: (targetId: string) => void;
+  includePreviews: boolean;
+  onIncludePreviewsChange: (include: boolean) => void;
+  previewFormat: PreviewFormat; // Last used in the preview export
+}
+
+// The download button, with one entry per export target
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, includePreviews, onIncludePreviewsChange, previewFormat }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+        <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="flex items-center gap-2 bg-retro-amber text-black font-bold px-4 py-2 rounded hover:bg-yellow-400 transition-colors shadow-[0_0_15px_rgba(255,176,0,0.4)]"
+        >
+            <Download size={18} />
+            DOWNLOAD .ZIP
+            <ChevronDown size={14} />
+        </button>
+        {isOpen && (
+            <div className="absolute right-0 mt-2 w-72 z-40 bg-retro-black border border-retro-amber rounded shadow-[0_0_15px_rgba(255,176,0,0.3)] overflow-hidden">
+                {EXPORT_TARGETS.map(target => (
+                    <button
+                        key={target.id}
+                        onClick={() => {
+                            setIsOpen(false);
+                            onExport(target.id);
+                        }}
+                        className="w-full text-left px-3 py-2 font-mono hover:bg-white/10 border-b border-white/5 last:border-b-0"
+                    >
+                        <span className="block text-xs font-bold text-retro-amber">{target.label}</span>
+                        <span className="block text-[10px] text-gray-400">{target.description}</span>
+                    </button>
+                ))}
+                <label className="flex items-center gap-2 px-3 py-2 font-mono text-[10px] text-gray-400 cursor-pointer border-t border-white/10 hover:bg-white/5">
+                    <input
+                        type="checkbox"
+                        checked={includePreviews}
+                        onChange={(e) => onIncludePreviewsChange(e.target.checked)}
+                        className="accent-retro-amber"
+                    />
+                    INCLUDE ANIMATED PREVIEWS ({PREVIEW_FORMATS.find(f => f.id === previewFormat)?.label})
+                </label>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { X, AlertTriangle, Download } from 'lucide-react';
+import { GameAsset } from '../types';
+import { getCategoryFolder, describeMissingReason } from '../services/projectArchive';
+
+interface ExportReportModalProps {
+  missing: GameAsset[];
+  totalAssets: number;
+  isOpen: boolean;
+  onClose: () => void;
+  onExportAnyway: () => void;
+  writesReport?: boolean; // Whether the export adds Missing_Assets.md
+}
+
+const ExportReportModal: React.FC<ExportReportModalProps> = ({ missing, totalAssets, isOpen, onClose, onExportAnyway, writesReport = true }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-amber w-full max-w-2xl max-h-[80vh] rounded-lg shadow-[0_0_30px_rgba(255,176,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-amber text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><AlertTriangle size={16}/> EXPORT_REPORT.log</span>
+            <button onClick={onClose} className="hover:text-white p-1"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 font-mono text-sm text-gray-300">
+            {missing.length} of {totalAssets} files are missing and will not be in the ZIP.
+            {writesReport && <> A <span className="text-retro-amber">Missing_Assets.md</span> report will be added to _Documentation.</>}
+        </div>
+
+        {/* Missing Files */}
+        <div className="flex-1 overflow-y-auto px-4 pb-4 custom-scrollbar">
+            <table className="w-full text-xs font-mono">
+                <thead>
+                    <tr className="text-gray-500 text-left border-b border-white/10">
+                        <th className="py-1 pr-2">FILE</th>
+                        <th className="py-1 pr-2">FOLDER</th>
+                        <th className="py-1">REASON</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {missing.map(asset => (
+                        <tr key={asset.id} className="border-b border-white/5 align-top">
+                            <td className="py-1 pr-2 text-white">{asset.filename}</td>
+                            <td className="py-1 pr-2 text-gray-400">{getCategoryFolder(asset)}</td>
+                            <td className={`py-1 ${asset.status === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{describeMissingReason(asset)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+
+        {/* Actions */}
+        <div className="p-3 border-t border-white/10 flex justify-end gap-2">
+            <button
+                onClick={onClose}
+                className="text-xs bg-retro-gray border border-white/20 text-white px-3 py-2 rounded hover:bg-white/20 transition-colors font-mono"
+            >
+                GO BACK
+            </button>
+            <button
+                onClick={onExportAnyway}
+                className="flex items-center gap-1 text-xs bg-retro-amber text-black font-bold px-3 py-2 rounded hover:bg-yellow-400 transition-colors font-mono"
+            >
+                <Download size={14} /> EXPORT ANYWAY
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportReportModal;
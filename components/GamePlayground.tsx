@@ -1,23 +1,49 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { X, Gamepad2, ArrowRight, ArrowUp, ArrowLeft, Loader2 } from 'lucide-react';
-import { ProjectManifest, GameAsset } from '../types';
+import { X, Gamepad2, ArrowRight, ArrowUp, ArrowLeft, Loader2, FileDown } from 'lucide-react';
+import { ProjectManifest, GameAsset, FrameData, AnimationTiming, PlaygroundBindings } from '../types';
+import { FRAME_BOX_COLORS, findBox, getPivot } from '../services/frameData';
+import { PlaybackRange, fitAnimation, findTag, getAnimation, getFrameAtTime, getPlaybackRange } from '../services/animationTiming';
+import {
+  PLAYGROUND_LEVEL, PLAYGROUND_PHYSICS, SPRITE_SCALE, DEFAULT_SIZE, CANVAS_WIDTH, CANVAS_HEIGHT,
+  getDrawScale, getGroundRow, getPlatforms
+} from '../services/level';
+import { PLAYGROUND_ROLES, guessBindings, resolveBindings, withBinding } from '../services/playgroundBindings';
+
+type PlayerState = 'idle' | 'run' | 'jump';
+
+// How a player state plays: the strip's timing, limited to a tag when the strip has one for the state
+interface PlaybackClip {
+  animation: AnimationTiming;
+  range: PlaybackRange;
+}
+
+const getClip = (asset: GameAsset | undefined, state: PlayerState): PlaybackClip => {
+  const animation = asset ? getAnimation(asset) : fitAnimation(undefined, 1);
+  return { animation, range: getPlaybackRange(animation, findTag(animation, state)) };
+};
 
 interface GamePlaygroundProps {
   plan: ProjectManifest;
   isOpen: boolean;
   onClose: () => void;
+  onBindingsChange: (bindings: PlaygroundBindings) => void;
+  onExportHtml: () => void; // Standalone playable page with the current bindings
 }
 
+// Top of a level row on screen; the level is anchored to the bottom of the canvas
+const getRowY = (row: number, tileSize: number) => CANVAS_HEIGHT - (PLAYGROUND_LEVEL.rows - row) * tileSize;
+
 // Simple Input State
 const keys = {
   left: false,
   right: false,
   up: false,
   down: false,
-  space: false
+  space: false,
+  showBoxes: false
 };
 
-const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }) => {
+const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose, onBindingsChange, onExportHtml }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isLoading, setIsLoading] = useState(true);
   const requestRef = useRef<number>();
@@ -31,11 +57,11 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
       vy: 0,
       width: 32,
       height: 32,
-      state: 'idle' as 'idle' | 'run' | 'jump',
+      state: 'idle' as PlayerState,
       facingRight: true,
       grounded: false,
       frameIndex: 0,
-      frameTimer: 0
+      stateStart: 0 // When the current state's animation started (ms)
     },
     camera: { x: 0 },
     assets: {
@@ -50,6 +76,17 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
       idleFrames: 1,
       runFrames: 1,
       jumpFrames: 1,
+      tileFrames: 1,
+      enemyFrames: 1,
+      scale: SPRITE_SCALE, // Player draw scale, from the idle frame's true size
+      tileSize: DEFAULT_SIZE, // On screen
+      idleData: [] as FrameData[],
+      runData: [] as FrameData[],
+      jumpData: [] as FrameData[],
+      enemyData: [] as FrameData[],
+      pivot: { x: DEFAULT_SIZE / 2, y: DEFAULT_SIZE }, // Where frame pivots land, relative to the collision box (on screen)
+      clips: {} as Record<PlayerState, PlaybackClip>,
+      enemyClip: null as PlaybackClip | null,
     }
   });
 
@@ -60,11 +97,8 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
 
     const loadGameAssets = async () => {
       const state = gameState.current;
-      const { assets } = plan;
 
-      // Reset Position
-      state.player.x = 100;
-      state.player.y = 200;
+      // Reset Velocity (the position is reset once the tile size is known)
       state.player.vx = 0;
       state.player.vy = 0;
 
@@ -78,47 +112,78 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
         });
       };
 
-      // Heuristic Matcher: Find best assets based on filename/group
-      const findAsset = (category: string, keyword: string) => {
-        return assets.find(a => 
-          a.category === category && 
-          (a.name.toLowerCase().includes(keyword) || a.filename.toLowerCase().includes(keyword))
-        );
-      };
-
       try {
-        // Player Assets
-        const idleAsset = findAsset('Characters', 'idle') || assets.find(a => a.category === 'Characters');
-        const runAsset = findAsset('Characters', 'run');
-        const jumpAsset = findAsset('Characters', 'jump');
-        
-        // Environment Assets
-        const tileAsset = findAsset('Environment', 'tile') || findAsset('Environment', 'floor');
-        const bgAsset = findAsset('Environment', 'bg') || findAsset('Environment', 'background');
-        
-        // Enemy (Optional)
-        const enemyAsset = assets.find(a => a.category === 'Characters' && !a.name.toLowerCase().includes('player') && !a.group?.toLowerCase().includes('player'));
+        // Picked in the bindings bar, or guessed from names (see services/playgroundBindings.ts)
+        const bound = resolveBindings(plan);
+        const idleAsset = bound.idle;
+        const runAsset = bound.run;
+        const jumpAsset = bound.jump;
+        const tileAsset = bound.tile;
+        const bgAsset = bound.background;
+        const enemyAsset = bound.enemy;
 
         // Load into State
         if (idleAsset?.imageUrl) {
             state.assets.idle = await loadImg(idleAsset.imageUrl);
             state.meta.idleFrames = idleAsset.metadata?.frames || 1;
+            state.meta.idleData = idleAsset.metadata?.frameData || [];
         }
         if (runAsset?.imageUrl) {
             state.assets.run = await loadImg(runAsset.imageUrl);
             state.meta.runFrames = runAsset.metadata?.frames || 1;
+            state.meta.runData = runAsset.metadata?.frameData || [];
         }
         if (jumpAsset?.imageUrl) {
             state.assets.jump = await loadImg(jumpAsset.imageUrl);
             state.meta.jumpFrames = jumpAsset.metadata?.frames || 1;
+            state.meta.jumpData = jumpAsset.metadata?.frameData || [];
+        }
+        if (tileAsset?.imageUrl) {
+            state.assets.tile = await loadImg(tileAsset.imageUrl);
+            state.meta.tileFrames = tileAsset.metadata?.frames || 1;
         }
-        if (tileAsset?.imageUrl) state.assets.tile = await loadImg(tileAsset.imageUrl);
         if (bgAsset?.imageUrl) state.assets.bg = await loadImg(bgAsset.imageUrl);
-        if (enemyAsset?.imageUrl) state.assets.enemy = await loadImg(enemyAsset.imageUrl);
+        if (enemyAsset?.imageUrl) {
+            state.assets.enemy = await loadImg(enemyAsset.imageUrl);
+            state.meta.enemyFrames = enemyAsset.metadata?.frames || 1;
+            state.meta.enemyData = enemyAsset.metadata?.frameData || [];
+        }
+
+        // Fallbacks if run/jump missing (a combined sheet may have "run"/"jump" tags)
+        if (!state.assets.run) { state.assets.run = state.assets.idle; state.meta.runFrames = state.meta.idleFrames; state.meta.runData = state.meta.idleData; }
+        if (!state.assets.jump) { state.assets.jump = state.assets.idle; state.meta.jumpFrames = state.meta.idleFrames; state.meta.jumpData = state.meta.idleData; }
+        state.meta.clips = {
+            idle: getClip(idleAsset, 'idle'),
+            run: getClip(runAsset?.imageUrl ? runAsset : idleAsset, 'run'),
+            jump: getClip(jumpAsset?.imageUrl ? jumpAsset : idleAsset, 'jump')
+        };
+        state.meta.enemyClip = enemyAsset?.imageUrl ? getClip(enemyAsset, 'idle') : null;
+
+        // Size everything from the images' true resolution instead of assuming 32x32
+        if (state.assets.idle) {
+            const frameW = state.assets.idle.width / state.meta.idleFrames;
+            const frameH = state.assets.idle.height;
+            const scale = state.meta.scale = getDrawScale(frameH);
+            // The idle hurtbox is the body; without one, the whole frame is
+            const body = findBox(state.meta.idleData[0], 'hurtbox') ?? { x: 0, y: 0, width: frameW, height: frameH };
+            const pivot = getPivot(state.meta.idleData[0], frameW, frameH);
+            state.player.width = Math.round(body.width * scale);
+            state.player.height = Math.round(body.height * scale);
+            state.meta.pivot = { x: (pivot.x - body.x) * scale, y: (pivot.y - body.y) * scale };
+        } else {
+            state.player.width = DEFAULT_SIZE;
+            state.player.height = DEFAULT_SIZE;
+            state.meta.pivot = { x: DEFAULT_SIZE / 2, y: DEFAULT_SIZE };
+        }
+        if (state.assets.tile) {
+            const tileW = state.assets.tile.width / state.meta.tileFrames;
+            state.meta.tileSize = Math.round(tileW * getDrawScale(state.assets.tile.height));
+        }
 
-        // Fallbacks if run/jump missing
-        if (!state.assets.run) { state.assets.run = state.assets.idle; state.meta.runFrames = state.meta.idleFrames; }
-        if (!state.assets.jump) { state.assets.jump = state.assets.idle; state.meta.jumpFrames = state.meta.idleFrames; }
+        // Reset Position (standing on the spawn cell)
+        const spawn = PLAYGROUND_LEVEL.playerSpawn;
+        state.player.x = spawn.column * state.meta.tileSize;
+        state.player.y = getRowY(spawn.row + 1, state.meta.tileSize) - state.player.height;
 
       } catch (e) {
         console.error("Failed to load game assets", e);
@@ -134,6 +199,7 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
       if(e.code === 'ArrowLeft' || e.key === 'a') keys.left = true;
       if(e.code === 'ArrowRight' || e.key === 'd') keys.right = true;
       if(e.code === 'ArrowUp' || e.code === 'Space' || e.key === 'w') keys.space = true;
+      if(e.key === 'b') keys.showBoxes = !keys.showBoxes;
     };
     const handleKeyUp = (e: KeyboardEvent) => {
       if(e.code === 'ArrowLeft' || e.key === 'a') keys.left = false;
@@ -161,17 +227,14 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
 
       if (canvas && ctx) {
         // --- PHYSICS ---
-        const friction = 0.8;
-        const gravity = 0.8;
-        const speed = 5;
-        const jumpForce = -15;
+        const { friction, gravity, acceleration, jumpForce } = PLAYGROUND_PHYSICS;
 
         if (keys.right) {
-            state.player.vx += 1;
+            state.player.vx += acceleration;
             state.player.facingRight = true;
         }
         if (keys.left) {
-            state.player.vx -= 1;
+            state.player.vx -= acceleration;
             state.player.facingRight = false;
         }
 
@@ -181,8 +244,9 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
         state.player.x += state.player.vx;
         state.player.y += state.player.vy;
 
-        // Floor Collision (Simple flat plane at bottom)
-        const floorY = canvas.height - 64;
+        // Floor Collision (Simple flat plane at the top of the level's ground)
+        const tileSize = state.meta.tileSize;
+        const floorY = getRowY(getGroundRow(PLAYGROUND_LEVEL), tileSize);
         if (state.player.y + state.player.height > floorY) {
             state.player.y = floorY - state.player.height;
             state.player.vy = 0;
@@ -191,6 +255,19 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
             state.player.grounded = false;
         }
 
+        // Platform Collision (One-way, simple AABB check)
+        const feetY = state.player.y + state.player.height;
+        getPlatforms(PLAYGROUND_LEVEL).forEach(platform => {
+            const platformX = platform.column * tileSize;
+            const platformY = getRowY(platform.row, tileSize);
+            if (state.player.x + state.player.width > platformX && state.player.x < platformX + platform.length * tileSize &&
+                feetY > platformY && feetY < platformY + 10 && state.player.vy > 0) {
+                 state.player.y = platformY - state.player.height;
+                 state.player.vy = 0;
+                 state.player.grounded = true;
+            }
+        });
+
         // Jump
         if (keys.space && state.player.grounded) {
             state.player.vy = jumpForce;
@@ -198,6 +275,7 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
         }
 
         // State Machine
+        const previousState = state.player.state;
         if (!state.player.grounded) {
             state.player.state = 'jump';
         } else if (Math.abs(state.player.vx) > 0.5) {
@@ -205,6 +283,7 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
         } else {
             state.player.state = 'idle';
         }
+        if (state.player.state !== previousState) state.player.stateStart = time;
 
         // --- RENDER ---
         ctx.clearRect(0, 0, canvas.width, canvas.height);
@@ -218,80 +297,92 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
             ctx.fillRect(0,0, canvas.width, canvas.height);
         }
 
-        // 2. Tiles (Floor)
-        if (state.assets.tile) {
-            const tileW = 32;
-            const tileH = 32;
-            const cols = Math.ceil(canvas.width / tileW);
-            // Draw floor row
-            for (let i = 0; i < cols; i++) {
-                ctx.drawImage(state.assets.tile, i * tileW, floorY, tileW, tileH);
-                // Draw sub-floor to bottom
-                ctx.drawImage(state.assets.tile, i * tileW, floorY + tileH, tileW, tileH);
-            }
-            
-            // Draw a platform
-            ctx.drawImage(state.assets.tile, 300, floorY - 100, tileW, tileH);
-            ctx.drawImage(state.assets.tile, 332, floorY - 100, tileW, tileH);
-            ctx.drawImage(state.assets.tile, 364, floorY - 100, tileW, tileH);
-            
-            // Platform collision (Simple AABB check)
-            if (state.player.x + 32 > 300 && state.player.x < 396 &&
-                state.player.y + 32 > floorY - 100 && state.player.y + 32 < floorY - 90 && state.player.vy > 0) {
-                 state.player.y = floorY - 100 - 32;
-                 state.player.vy = 0;
-                 state.player.grounded = true;
-            }
-        } else {
-             ctx.fillStyle = '#333';
-             ctx.fillRect(0, floorY, canvas.width, 64);
-        }
+        // 2. Tiles (Ground and platforms of the level)
+        const srcW = state.assets.tile ? state.assets.tile.width / state.meta.tileFrames : 0;
+        ctx.fillStyle = '#333';
+        PLAYGROUND_LEVEL.cells.forEach(cell => {
+            const x = cell.column * tileSize;
+            const y = getRowY(cell.row, tileSize);
+            if (x >= canvas.width || y + tileSize <= 0) return;
+            if (state.assets.tile) ctx.drawImage(state.assets.tile, 0, 0, srcW, state.assets.tile.height, x, y, tileSize, tileSize);
+            else ctx.fillRect(x, y, tileSize, tileSize);
+        });
 
-        // 3. Enemy (Patrol)
+        // Frame boxes (debug view), with the frame's top-left at x, y
+        const drawBoxes = (data: FrameData | undefined, x: number, y: number, scale: number) => {
+            if (!keys.showBoxes) return;
+            ctx.lineWidth = 1;
+            data?.boxes.forEach(box => {
+                ctx.strokeStyle = FRAME_BOX_COLORS[box.kind];
+                ctx.strokeRect(x + box.x * scale, y + box.y * scale, box.width * scale, box.height * scale);
+            });
+        };
+
+        // 3. Enemy (Patrol, standing on its pivot)
         if (state.assets.enemy) {
-            const enemyX = 400 + Math.sin(time / 1000) * 100;
-            ctx.drawImage(state.assets.enemy, 0, 0, 32, 32, enemyX, floorY - 32, 32, 32);
+            const enemyX = PLAYGROUND_LEVEL.enemySpawn.column * tileSize + Math.sin(time / 1000) * 100;
+            const srcW = state.assets.enemy.width / state.meta.enemyFrames;
+            const srcH = state.assets.enemy.height;
+            const scale = getDrawScale(srcH);
+            const clip = state.meta.enemyClip;
+            const frame = clip ? getFrameAtTime(clip.animation, time, clip.range).frame % state.meta.enemyFrames : 0;
+            const pivot = getPivot(state.meta.enemyData[frame], srcW, srcH);
+            const x = enemyX + (srcW / 2 - pivot.x) * scale;
+            const y = floorY - pivot.y * scale;
+            ctx.drawImage(state.assets.enemy, frame * srcW, 0, srcW, srcH, x, y, srcW * scale, srcH * scale);
+            drawBoxes(state.meta.enemyData[frame], x, y, scale);
         }
 
         // 4. Player
         let currentImg = state.assets.idle;
         let totalFrames = state.meta.idleFrames;
+        let frameData = state.meta.idleData;
 
         if (state.player.state === 'run') {
             currentImg = state.assets.run;
             totalFrames = state.meta.runFrames;
+            frameData = state.meta.runData;
         } else if (state.player.state === 'jump') {
             currentImg = state.assets.jump;
             totalFrames = state.meta.jumpFrames;
+            frameData = state.meta.jumpData;
         }
 
         if (currentImg) {
-            // Update Animation Frame
-            state.player.frameTimer++;
-            if (state.player.frameTimer > 8) { // Animation Speed
-                state.player.frameIndex = (state.player.frameIndex + 1) % totalFrames;
-                state.player.frameTimer = 0;
-            }
+            // Update Animation Frame (per-frame durations, loop mode and tags from the asset)
+            const clip = state.meta.clips[state.player.state];
+            state.player.frameIndex = clip
+                ? getFrameAtTime(clip.animation, time - state.player.stateStart, clip.range).frame % totalFrames
+                : 0;
 
             const frameW = currentImg.width / totalFrames;
             const frameH = currentImg.height;
+            const data = frameData[state.player.frameIndex];
 
             ctx.save();
             ctx.translate(state.player.x + state.player.width/2, state.player.y + state.player.height/2);
             if (!state.player.facingRight) {
                 ctx.scale(-1, 1);
             }
-            // Draw Sprite
+            // Draw Sprite with every frame's pivot on the same spot (run/jump strips may be framed differently than idle)
+            const pivot = getPivot(data, frameW, frameH);
+            const drawX = state.meta.pivot.x - state.player.width/2 - pivot.x * state.meta.scale;
+            const drawY = state.meta.pivot.y - state.player.height/2 - pivot.y * state.meta.scale;
             ctx.drawImage(
                 currentImg, 
                 state.player.frameIndex * frameW, 0, frameW, frameH, // Source
-                -state.player.width/2, -state.player.height/2, 64, 64 // Dest (Scaled up 2x for visibility)
+                drawX, drawY, frameW * state.meta.scale, frameH * state.meta.scale // Dest (true resolution, scaled up for visibility)
             );
+            drawBoxes(data, drawX, drawY, state.meta.scale);
             ctx.restore();
+            if (keys.showBoxes) {
+                ctx.strokeStyle = 'white';
+                ctx.strokeRect(state.player.x, state.player.y, state.player.width, state.player.height);
+            }
         } else {
             // Fallback Box
             ctx.fillStyle = 'red';
-            ctx.fillRect(state.player.x, state.player.y, 32, 32);
+            ctx.fillRect(state.player.x, state.player.y, state.player.width, state.player.height);
         }
         
         // UI Text
@@ -299,7 +390,7 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
         ctx.fillStyle = 'white';
         ctx.fillText(`STATE: ${state.player.state.toUpperCase()}`, 10, 20);
         ctx.fillText(`VELOCITY: ${state.player.vx.toFixed(1)}, ${state.player.vy.toFixed(1)}`, 10, 35);
-        ctx.fillText(`ARROWS to Move, SPACE to Jump`, 10, canvas.height - 10);
+        ctx.fillText(`ARROWS to Move, SPACE to Jump, B to show boxes`, 10, canvas.height - 10);
       }
 
       requestRef.current = requestAnimationFrame(loop);
@@ -313,6 +404,8 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
 
   if (!isOpen) return null;
 
+  const guessed = guessBindings(plan.assets);
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/95 backdrop-blur-md p-4">
       <div className="relative w-full max-w-5xl aspect-video bg-retro-black border-4 border-retro-green rounded-lg shadow-[0_0_50px_rgba(51,255,0,0.2)] overflow-hidden flex flex-col">
@@ -328,10 +421,39 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
               <span className="flex items-center gap-1 bg-black/20 px-2 py-1 rounded"><ArrowLeft size={10}/> <ArrowRight size={10}/> MOVE</span>
               <span className="flex items-center gap-1 bg-black/20 px-2 py-1 rounded"><ArrowUp size={10}/> JUMP</span>
             </div>
+            <button
+                onClick={onExportHtml}
+                title="Download as a single HTML file that plays offline"
+                className="flex items-center gap-1 bg-black/20 px-2 py-1 rounded text-[10px] font-mono hover:bg-black/40"
+            >
+              <FileDown size={12}/> EXPORT HTML
+            </button>
             <button onClick={onClose} className="hover:text-white transition-colors"><X size={20} /></button>
           </div>
         </div>
 
+        {/* Bindings: which asset plays which part */}
+        <div className="bg-black/60 border-b border-retro-green/30 px-2 py-1 flex flex-wrap gap-3 font-mono text-[10px] text-retro-green/80 z-10">
+          {PLAYGROUND_ROLES.map(({ role, label, category }) => (
+            <label key={role} className="flex items-center gap-1">
+              {label}
+              <select
+                value={plan.playgroundBindings?.[role] ?? ''}
+                onChange={(e) => {
+                  onBindingsChange(withBinding(plan.playgroundBindings, role, e.target.value || null));
+                  e.target.blur(); // Arrow keys move the player, not the selection
+                }}
+                className="max-w-[9rem] bg-black border border-retro-green/30 text-gray-300 px-1 py-0.5 rounded outline-none"
+              >
+                <option value="">AUTO{guessed[role]?.imageUrl ? ` (${guessed[role]!.name})` : ''}</option>
+                {plan.assets.filter(a => a.category === category && a.imageUrl).map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
         {/* Game Canvas */}
         <div className="flex-1 relative bg-[#1a1a2a]">
           {isLoading ? (
@@ -340,7 +462,7 @@ const GamePlayground: React.FC<GamePlaygroundProps> = ({ plan, isOpen, onClose }
                <span className="font-mono text-sm">LOADING ASSETS INTO MEMORY...</span>
             </div>
           ) : (
-            <canvas ref={canvasRef} width={800} height={450} className="w-full h-full object-contain" />
+            <canvas ref={canvasRef} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} className="w-full h-full object-contain" />
           )}
         </div>
 
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, RotateCcw, Columns, Layers } from 'lucide-react';
+import { AssetRevision } from '../types';
+import { REVISION_SOURCE_LABELS, getCurrentRevision, formatRevisionTime } from '../services/revisions';
+
+interface HistoryModalProps {
+  title: string; // Asset filename, or the style reference
+  currentImage?: string;
+  revisions: AssetRevision[];
+  isOpen: boolean;
+  onClose: () => void;
+  onRevert: (revisionId: string) => void;
+}
+
+type DiffMode = 'side' | 'onion';
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ title, currentImage, revisions, isOpen, onClose, onRevert }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('side');
+  const [opacity, setOpacity] = useState(0.5);
+
+  const current = getCurrentRevision(revisions, currentImage);
+
+  // Preselect the revision before the current one: the usual thing to compare against
+  useEffect(() => {
+    if (!isOpen) return;
+    const older = revisions.filter(r => r.id !== current?.id && !r.rejected);
+    setSelectedId(older.length > 0 ? older[older.length - 1].id : revisions[0]?.id ?? null);
+  }, [isOpen, title]);
+
+  if (!isOpen) return null;
+
+  const selected = revisions.find(r => r.id === selectedId);
+  const canRevert = !!selected && selected.imageUrl !== currentImage;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-green w-full max-w-5xl h-[85vh] rounded-lg shadow-[0_0_30px_rgba(51,255,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-green text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><History size={16}/> HISTORY.exe // {title}</span>
+            <button onClick={onClose} className="hover:text-white p-1"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+            {/* Revision List (newest first) */}
+            <div className="w-64 border-r border-white/10 overflow-y-auto custom-scrollbar">
+                {[...revisions].reverse().map(rev => (
+                    <button
+                        key={rev.id}
+                        onClick={() => setSelectedId(rev.id)}
+                        className={`w-full flex gap-2 p-2 text-left border-b border-white/5 transition-colors ${rev.id === selectedId ? 'bg-retro-green/10' : 'hover:bg-white/5'} ${rev.rejected ? 'opacity-50' : ''}`}
+                    >
+                        <div className="w-12 h-12 shrink-0 bg-black/40 rounded flex items-center justify-center border border-white/10">
+                            <img src={rev.imageUrl} className="max-w-full max-h-full object-contain [image-rendering:pixelated]" />
+                        </div>
+                        <div className="min-w-0 font-mono">
+                            <div className="flex items-center gap-1 text-[10px]">
+                                <span className="text-retro-amber">{REVISION_SOURCE_LABELS[rev.source]}</span>
+                                {rev.id === current?.id && <span className="bg-retro-green text-black px-1 rounded">CURRENT</span>}
+                                {rev.rejected && <span className="text-gray-500">REJECTED</span>}
+                            </div>
+                            <div className="text-[10px] text-gray-500">{formatRevisionTime(rev.createdAt)}</div>
+                            {rev.prompt && <div className="text-[10px] text-gray-400 truncate" title={rev.prompt}>{rev.prompt}</div>}
+                        </div>
+                    </button>
+                ))}
+            </div>
+
+            {/* Diff View */}
+            <div className="flex-1 flex flex-col overflow-hidden">
+                <div className="p-3 border-b border-white/10 flex items-center gap-2 font-mono text-xs">
+                    <button
+                        onClick={() => setMode('side')}
+                        className={`flex items-center gap-1 px-2 py-1 rounded border ${mode === 'side' ? 'border-retro-green text-retro-green' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                    >
+                        <Columns size={12} /> SIDE BY SIDE
+                    </button>
+                    <button
+                        onClick={() => setMode('onion')}
+                        className={`flex items-center gap-1 px-2 py-1 rounded border ${mode === 'onion' ? 'border-retro-green text-retro-green' : 'border-white/20 text-gray-400 hover:text-white'}`}
+                    >
+                        <Layers size={12} /> ONION SKIN
+                    </button>
+                    {mode === 'onion' && (
+                        <label className="flex items-center gap-2 text-gray-400 ml-2">
+                            CURRENT
+                            <input type="range" min="0" max="1" step="0.05" value={opacity} onChange={(e) => setOpacity(parseFloat(e.target.value))} className="accent-retro-green" />
+                            SELECTED
+                        </label>
+                    )}
+                </div>
+
+                <div className="flex-1 p-4 overflow-hidden">
+                    {!selected ? (
+                        <div className="h-full flex items-center justify-center text-gray-600 font-mono text-sm">NO HISTORY YET.</div>
+                    ) : mode === 'side' ? (
+                        <div className="h-full grid grid-cols-2 gap-4">
+                            {[{ label: 'SELECTED', url: selected.imageUrl }, { label: 'CURRENT', url: currentImage }].map(({ label, url }) => (
+                                <div key={label} className="flex flex-col gap-1 min-h-0">
+                                    <span className="text-[10px] font-mono text-gray-500">{label}</span>
+                                    <div className="flex-1 min-h-0 bg-black/40 rounded border border-white/10 flex items-center justify-center p-2">
+                                        {url ? <img src={url} className="max-w-full max-h-full object-contain [image-rendering:pixelated]" /> : <span className="text-white/10 text-4xl font-pixel">?</span>}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="relative h-full bg-black/40 rounded border border-white/10">
+                            {currentImage && <img src={currentImage} className="absolute inset-0 w-full h-full object-contain [image-rendering:pixelated] p-2" />}
+                            <img src={selected.imageUrl} style={{ opacity }} className="absolute inset-0 w-full h-full object-contain [image-rendering:pixelated] p-2" />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-3 border-t border-white/10 flex justify-between items-center gap-2">
+            <span className="text-[10px] text-gray-500 font-mono">Reverting adds a new revision; nothing is deleted.</span>
+            <button
+                onClick={() => selected && onRevert(selected.id)}
+                disabled={!canRevert}
+                className="flex items-center gap-1 text-xs bg-retro-amber text-black font-bold px-3 py-2 rounded hover:bg-yellow-400 transition-colors font-mono disabled:opacity-40"
+            >
+                <RotateCcw size={14} /> REVERT TO SELECTED
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
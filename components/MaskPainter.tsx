@@ -0,0 +1,149 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Paintbrush, Eraser, Trash2 } from 'lucide-react';
+import { Point, brushPoints, linePoints } from '../services/pixelTools';
+import { EditMask, createEditMask, countMasked } from '../services/inpainting';
+
+interface MaskPainterProps {
+  imageUrl: string;
+  mask: EditMask | null;
+  onChange: (mask: EditMask) => void;
+  disabled?: boolean;
+}
+
+const BRUSH_SIZES = [1, 2, 4, 8, 16];
+const VIEW_SIZE = 320; // Largest side of the view, in screen pixels
+
+// Paints the region an AI edit may change over the asset's image
+const MaskPainter: React.FC<MaskPainterProps> = ({ imageUrl, mask, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [erase, setErase] = useState(false);
+  const [brushSize, setBrushSize] = useState(4);
+  const lastRef = useRef<Point | null>(null);
+  // Several mouse moves can arrive before the parent re-renders with the new mask
+  const maskRef = useRef(mask);
+  maskRef.current = mask;
+
+  useEffect(() => {
+    const img = new Image();
+    img.src = imageUrl;
+    img.onload = () => {
+      [canvasRef.current, overlayRef.current].forEach(canvas => {
+        if (!canvas) return;
+        canvas.width = img.width;
+        canvas.height = img.height;
+      });
+      canvasRef.current?.getContext('2d')?.drawImage(img, 0, 0);
+      setSize({ width: img.width, height: img.height });
+    };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const ctx = overlayRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (!mask || mask.width !== size.width || mask.height !== size.height) return;
+    ctx.fillStyle = 'rgba(255, 59, 59, 0.55)';
+    mask.data.forEach((m, p) => { if (m) ctx.fillRect(p % mask.width, Math.floor(p / mask.width), 1, 1); });
+  }, [mask, size]);
+
+  const getPointerPos = (e: React.MouseEvent): Point => {
+      const rect = overlayRef.current!.getBoundingClientRect();
+      return {
+          x: Math.floor((e.clientX - rect.left) * size.width / rect.width),
+          y: Math.floor((e.clientY - rect.top) * size.height / rect.height)
+      };
+  };
+
+  // A mask left over from an image of another size is started over
+  const currentMask = () => {
+      const mask = maskRef.current;
+      return mask && mask.width === size.width && mask.height === size.height ? mask : createEditMask(size.width, size.height);
+  };
+
+  const paint = (points: Point[]) => {
+      if (!size.width) return;
+      const mask = currentMask();
+      const data = new Uint8Array(mask.data);
+      points.flatMap(p => brushPoints(p.x, p.y, brushSize)).forEach(({ x, y }) => {
+          if (x >= 0 && y >= 0 && x < mask.width && y < mask.height) data[y * mask.width + x] = erase ? 0 : 1;
+      });
+      maskRef.current = { ...mask, data };
+      onChange(maskRef.current);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+      if (disabled) return;
+      const p = getPointerPos(e);
+      lastRef.current = p;
+      paint([p]);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      const last = lastRef.current;
+      if (!last) return;
+      const p = getPointerPos(e);
+      if (p.x === last.x && p.y === last.y) return;
+      paint(linePoints(last.x, last.y, p.x, p.y));
+      lastRef.current = p;
+  };
+
+  const handleMouseUp = () => { lastRef.current = null; };
+
+  const scale = size.width ? VIEW_SIZE / Math.max(size.width, size.height) : 1;
+  const masked = mask && mask.width === size.width && mask.height === size.height ? countMasked(mask) : 0;
+
+  return (
+    <div className="flex flex-col gap-2 shrink-0">
+        <div
+            className="relative bg-[url('https://www.transparenttextures.com/patterns/checkerboard-cross-dark.png')] bg-black/50 border border-white/20 rounded overflow-hidden cursor-crosshair"
+            style={{ width: size.width ? size.width * scale : VIEW_SIZE, height: size.height ? size.height * scale : VIEW_SIZE }}
+        >
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full [image-rendering:pixelated]" />
+            <canvas
+                ref={overlayRef}
+                className="absolute inset-0 w-full h-full [image-rendering:pixelated]"
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+            />
+        </div>
+        <div className="flex items-center gap-2 font-mono text-[10px] text-gray-400">
+            <button
+                onClick={() => setErase(false)}
+                className={`p-1.5 rounded ${!erase ? 'bg-retro-green text-black' : 'hover:text-white'}`}
+                title="Paint the region to edit"
+            >
+                <Paintbrush size={14} />
+            </button>
+            <button
+                onClick={() => setErase(true)}
+                className={`p-1.5 rounded ${erase ? 'bg-retro-green text-black' : 'hover:text-white'}`}
+                title="Erase from the region"
+            >
+                <Eraser size={14} />
+            </button>
+            <select
+                value={brushSize}
+                onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                className="bg-black border border-white/20 rounded px-1 py-0.5 text-white"
+            >
+                {BRUSH_SIZES.map(n => <option key={n} value={n}>{n}PX</option>)}
+            </select>
+            <button
+                onClick={() => size.width && onChange(createEditMask(size.width, size.height))}
+                disabled={!masked}
+                className="p-1.5 rounded hover:text-white disabled:opacity-40"
+                title="Clear the mask"
+            >
+                <Trash2 size={14} />
+            </button>
+            <span className="ml-auto">{masked ? `MASK: ${masked} PX` : 'NO MASK: WHOLE IMAGE'}</span>
+        </div>
+    </div>
+  );
+};
+
+export default MaskPainter;
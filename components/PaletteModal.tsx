@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { X, Palette, Pipette, Save, Loader2, CheckCircle2, AlertCircle, Wand2 } from 'lucide-react';
+import { ProjectManifest, ProjectPalette } from '../types';
+import { DEFAULT_PALETTE, PALETTE_LIMITS, extractPaletteFromUrl, parsePaletteText, getPaletteReport, PaletteReportEntry } from '../services/palette';
+
+interface PaletteModalProps {
+  plan: ProjectManifest;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (palette: ProjectPalette) => void;
+  onRemapAssets: (assetIds: string[]) => Promise<void>;
+}
+
+const PaletteModal: React.FC<PaletteModalProps> = ({ plan, isOpen, onClose, onSave, onRemapAssets }) => {
+  const [draft, setDraft] = useState<ProjectPalette>({ ...DEFAULT_PALETTE, colors: [] });
+  const [hexInput, setHexInput] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [report, setReport] = useState<PaletteReportEntry[] | null>(null);
+  const [isRemapping, setIsRemapping] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setDraft(plan.palette ?? { ...DEFAULT_PALETTE, colors: [] });
+  }, [isOpen]);
+
+  // The report is always against the SAVED palette, and refreshes as assets change
+  useEffect(() => {
+    if (!isOpen || !plan.palette || plan.palette.colors.length === 0) {
+      setReport(null);
+      return;
+    }
+    let cancelled = false;
+    setReport(null);
+    getPaletteReport(plan).then(entries => { if (!cancelled) setReport(entries); });
+    return () => { cancelled = true; };
+  }, [isOpen, plan.palette, plan.assets]);
+
+  const handleExtract = async () => {
+    if (!plan.masterStyleImage) return;
+    setIsExtracting(true);
+    try {
+      const colors = await extractPaletteFromUrl(plan.masterStyleImage, draft.limit);
+      setDraft({ ...draft, colors, source: 'concept' });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleAddHex = () => {
+    const added = parsePaletteText(hexInput);
+    if (added.length === 0) return;
+    setDraft({ ...draft, colors: Array.from(new Set([...draft.colors, ...added])), source: 'manual' });
+    setHexInput('');
+  };
+
+  const handleRemap = async (assetIds: string[]) => {
+    setIsRemapping(true);
+    try {
+      await onRemapAssets(assetIds);
+    } finally {
+      setIsRemapping(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(plan.palette ?? null);
+  const offenders = (report || []).filter(e => e.offPalettePixels > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-green w-full max-w-5xl h-[85vh] rounded-lg shadow-[0_0_30px_rgba(51,255,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-green text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><Palette size={16}/> PALETTE.exe // {plan.theme}</span>
+            <button onClick={onClose} disabled={isRemapping} className="hover:text-white p-1"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 overflow-hidden">
+            {/* Palette Editor */}
+            <div className="p-4 border-r border-white/10 flex flex-col gap-4 overflow-y-auto custom-scrollbar font-mono text-xs">
+                <div>
+                    <h4 className="text-gray-400 font-bold mb-2">
+                        PROJECT PALETTE <span className="font-normal text-gray-500">({draft.colors.length} colors, {draft.source === 'concept' ? 'from style reference' : 'manual'})</span>
+                    </h4>
+                    {draft.colors.length === 0 ? (
+                        <p className="text-gray-600">NO PALETTE YET. Extract it from the style reference or enter colors below.</p>
+                    ) : (
+                        <div className="grid grid-cols-8 gap-1">
+                            {draft.colors.map(c => (
+                                <button
+                                    key={c}
+                                    onClick={() => setDraft({ ...draft, colors: draft.colors.filter(x => x !== c), source: 'manual' })}
+                                    className="aspect-square rounded border border-white/10 hover:scale-110 transition-transform"
+                                    style={{ backgroundColor: c }}
+                                    title={`${c} (click to remove)`}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                    <span className="text-gray-400">LIMIT:</span>
+                    <select
+                        value={draft.limit}
+                        onChange={(e) => setDraft({ ...draft, limit: parseInt(e.target.value, 10) })}
+                        className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+                    >
+                        {PALETTE_LIMITS.map(n => <option key={n} value={n}>{n} COLORS</option>)}
+                    </select>
+                    <button
+                        onClick={handleExtract}
+                        disabled={!plan.masterStyleImage || isExtracting}
+                        title={plan.masterStyleImage ? undefined : 'Generate the style reference concept first'}
+                        className="flex items-center gap-1 bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20 disabled:opacity-40"
+                    >
+                        {isExtracting ? <Loader2 size={12} className="animate-spin" /> : <Pipette size={12} />} EXTRACT FROM STYLE REF
+                    </button>
+                </div>
+                {draft.colors.length > draft.limit && (
+                    <p className="text-retro-amber">Palette has more colors than the limit; extracting again will reduce it.</p>
+                )}
+
+                <div>
+                    <p className="text-gray-400 mb-1">ADD COLORS (hex, e.g. pasted from Lospec):</p>
+                    <div className="flex gap-2">
+                        <input
+                            value={hexInput}
+                            onChange={(e) => setHexInput(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleAddHex(); }}
+                            placeholder="#1a1c2c #5d275d #b13e53 ..."
+                            className="flex-1 bg-black/50 border border-white/20 rounded px-2 py-1 text-white outline-none focus:border-retro-green"
+                        />
+                        <button onClick={handleAddHex} className="bg-retro-gray border border-white/20 text-white px-2 py-1 rounded hover:bg-white/20">ADD</button>
+                    </div>
+                </div>
+
+                <label className="flex items-center gap-2 cursor-pointer text-gray-300">
+                    <input type="checkbox" checked={draft.enforce} onChange={(e) => setDraft({ ...draft, enforce: e.target.checked })} className="accent-retro-green" />
+                    REMAP EVERY NEW ASSET TO THE PALETTE
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer text-gray-300">
+                    <input type="checkbox" checked={draft.dither} onChange={(e) => setDraft({ ...draft, dither: e.target.checked })} className="accent-retro-green" />
+                    ORDERED DITHERING (BAYER 4x4)
+                </label>
+
+                <button
+                    onClick={() => onSave(draft)}
+                    disabled={!isDirty || draft.colors.length === 0}
+                    className="mt-auto bg-retro-green text-black py-2 rounded font-bold hover:bg-white flex items-center justify-center gap-2 disabled:opacity-40"
+                >
+                    <Save size={14} /> SAVE PALETTE
+                </button>
+            </div>
+
+            {/* Compliance Report */}
+            <div className="p-4 flex flex-col gap-3 overflow-hidden font-mono text-xs">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-gray-400 font-bold">COMPLIANCE REPORT</h4>
+                    {offenders.length > 0 && (
+                        <button
+                            onClick={() => handleRemap(offenders.map(e => e.assetId))}
+                            disabled={isRemapping}
+                            className="flex items-center gap-1 bg-retro-amber text-black font-bold px-2 py-1 rounded hover:bg-yellow-400 disabled:opacity-40"
+                        >
+                            {isRemapping ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />} REMAP ALL ({offenders.length})
+                        </button>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar">
+                    {!plan.palette ? (
+                        <p className="text-gray-600">Save a palette to check assets against it.</p>
+                    ) : !report ? (
+                        <div className="flex items-center gap-2 text-gray-500"><Loader2 size={12} className="animate-spin" /> CHECKING ASSETS...</div>
+                    ) : report.length === 0 ? (
+                        <p className="text-gray-600">No generated assets yet.</p>
+                    ) : (
+                        <table className="w-full">
+                            <tbody>
+                                {report.map(entry => {
+                                    const share = entry.opaquePixels > 0 ? entry.offPalettePixels / entry.opaquePixels : 0;
+                                    return (
+                                        <tr key={entry.assetId} className="border-b border-white/5">
+                                            <td className="py-1.5 pr-2">
+                                                {entry.offPalettePixels === 0
+                                                    ? <CheckCircle2 size={14} className="text-retro-green" />
+                                                    : <AlertCircle size={14} className="text-retro-amber" />}
+                                            </td>
+                                            <td className="py-1.5 pr-2 text-gray-300 truncate max-w-[160px]" title={entry.filename}>{entry.filename}</td>
+                                            <td className="py-1.5 pr-2 text-right text-gray-400 whitespace-nowrap">
+                                                {entry.offPalettePixels === 0 ? 'OK' : `${(share * 100).toFixed(1)}% OFF`}
+                                            </td>
+                                            <td className="py-1.5 pr-2">
+                                                <div className="flex gap-0.5" title={`${entry.offPaletteColors.length} off-palette colors`}>
+                                                    {entry.offPaletteColors.slice(0, 6).map(c => (
+                                                        <span key={c} className="w-3 h-3 rounded-sm border border-white/10" style={{ backgroundColor: c }} />
+                                                    ))}
+                                                </div>
+                                            </td>
+                                            <td className="py-1.5 text-right">
+                                                {entry.offPalettePixels > 0 && (
+                                                    <button
+                                                        onClick={() => handleRemap([entry.assetId])}
+                                                        disabled={isRemapping}
+                                                        className="text-[10px] bg-retro-gray border border-white/20 text-white px-2 py-0.5 rounded hover:bg-white/20 disabled:opacity-40"
+                                                    >
+                                                        REMAP
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteModal;
@@ -0,0 +1,491 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Paintbrush, Eraser, PaintBucket, Pipette, Save, Slash, Square, Circle, SquareDashed, Wand, Move, FlipHorizontal2, FlipVertical2, Undo2, Redo2, LucideIcon } from 'lucide-react';
+import { extractPalette as extractImagePalette } from '../services/palette';
+import {
+  Point, PixelBounds, linePoints, rectPoints, ellipsePoints, brushPoints, mirrorPoints, hexToRgba,
+  floodFill, wandMask, rectMask, maskBounds, extractMasked, clearMasked, footprintMask
+} from '../services/pixelTools';
+
+// A translucent image drawn under the canvas (e.g. neighbouring animation frames)
+export interface OnionSkin {
+  imageUrl: string;
+  opacity: number;
+  tint: 'previous' | 'next';
+}
+
+interface PixelCanvasProps {
+  imageUrl: string;
+  onSave: (imageUrl: string) => void;
+  saveLabel: string;
+  palette?: string[]; // Offered instead of the image's own colours when the project has one
+  onionSkins?: OnionSkin[];
+  initialZoom?: number; // Picked from the image size when not given
+}
+
+type Tool = 'brush' | 'eraser' | 'bucket' | 'picker' | 'line' | 'rect' | 'ellipse' | 'select' | 'wand' | 'move';
+
+const SHAPE_TOOLS: Tool[] = ['line', 'rect', 'ellipse'];
+const BRUSH_SIZES = [1, 2, 3, 4, 6, 8];
+
+// Selected pixels lifted off the canvas while they are being moved (or just pasted)
+interface FloatingPixels {
+  image: ImageData;
+  x: number;
+  y: number;
+}
+
+// Previous frames show reddish, next frames greenish, as in most animation tools
+const ONION_TINTS: Record<OnionSkin['tint'], string> = {
+  previous: 'sepia(1) saturate(4) hue-rotate(-50deg)',
+  next: 'sepia(1) saturate(4) hue-rotate(60deg)'
+};
+
+const toCanvas = (image: ImageData) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  return canvas;
+};
+
+const PixelCanvas: React.FC<PixelCanvasProps> = ({ imageUrl, onSave, saveLabel, palette: projectPalette, onionSkins = [], initialZoom }) => {
+  const [tool, setTool] = useState<Tool>('brush');
+  const [color, setColor] = useState('#ffffff');
+  const [palette, setPalette] = useState<string[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const [zoom, setZoom] = useState(1);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [brushSize, setBrushSize] = useState(1);
+  const [mirrorX, setMirrorX] = useState(false);
+  const [mirrorY, setMirrorY] = useState(false);
+
+  // Selection (mask over the canvas) and pixels being moved or pasted
+  const [selection, setSelection] = useState<Uint8Array | null>(null);
+  const [floating, setFloating] = useState<FloatingPixels | null>(null);
+  const clipboardRef = useRef<FloatingPixels | null>(null);
+
+  // Undo/redo: a snapshot of the canvas before every change, no limit
+  const undoRef = useRef<ImageData[]>([]);
+  const redoRef = useRef<ImageData[]>([]);
+  const [, setHistoryVersion] = useState(0);
+
+  // The current drag: where it started, the last pixel seen, where a moved selection started
+  const dragRef = useRef<{ start: Point; last: Point; floatStart?: Point } | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.src = imageUrl;
+    img.onload = () => {
+      const canvas = canvasRef.current;
+      if (canvas) {
+        canvas.width = img.width;
+        canvas.height = img.height;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+           ctx.clearRect(0, 0, img.width, img.height);
+           ctx.drawImage(img, 0, 0);
+           extractPalette(ctx, img.width, img.height);
+        }
+      }
+      if (overlayRef.current) {
+        overlayRef.current.width = img.width;
+        overlayRef.current.height = img.height;
+      }
+      undoRef.current = [];
+      redoRef.current = [];
+      setSelection(null);
+      setFloating(null);
+      setSize({ width: img.width, height: img.height });
+      // Determine good zoom level based on image size
+      setZoom(initialZoom ?? (img.width <= 64 ? 8 : img.width < 256 ? 4 : 2));
+    };
+  }, [imageUrl]);
+
+  const extractPalette = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+      // Median cut picks the colours that matter, not just the first ones found
+      setPalette(extractImagePalette(ctx.getImageData(0, 0, width, height), 20));
+  };
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  const snapshot = () => getContext()!.getImageData(0, 0, size.width, size.height);
+
+  // --- HISTORY ---
+  const pushHistory = () => {
+      if (!getContext()) return;
+      undoRef.current.push(snapshot());
+      redoRef.current = [];
+      setHistoryVersion(v => v + 1);
+  };
+
+  const stepHistory = (from: React.MutableRefObject<ImageData[]>, to: React.MutableRefObject<ImageData[]>) => {
+      const ctx = getContext();
+      if (!ctx || from.current.length === 0) return;
+      commitFloating();
+      to.current.push(snapshot());
+      ctx.putImageData(from.current.pop()!, 0, 0);
+      setSelection(null);
+      setHistoryVersion(v => v + 1);
+  };
+
+  const undo = () => stepHistory(undoRef, redoRef);
+  const redo = () => stepHistory(redoRef, undoRef);
+
+  // --- DRAWING ---
+  const getPointerPos = (e: React.MouseEvent): Point => {
+      if (!canvasRef.current) return { x: 0, y: 0 };
+      const rect = canvasRef.current.getBoundingClientRect();
+      const scaleX = canvasRef.current.width / rect.width;
+      const scaleY = canvasRef.current.height / rect.height;
+      return {
+          x: Math.floor((e.clientX - rect.left) * scaleX),
+          y: Math.floor((e.clientY - rect.top) * scaleY)
+      };
+  };
+
+  // Every tool that paints goes through here, so brush size and mirroring apply to all of them
+  const withBrush = (points: Point[]) =>
+      mirrorPoints(points.flatMap(p => brushPoints(p.x, p.y, brushSize)), size.width, size.height, mirrorX, mirrorY);
+
+  const stamp = (points: Point[], erase: boolean) => {
+      const ctx = getContext();
+      if (!ctx) return;
+      ctx.fillStyle = color;
+      withBrush(points).forEach(({ x, y }) => {
+          if (erase) ctx.clearRect(x, y, 1, 1);
+          else ctx.fillRect(x, y, 1, 1);
+      });
+  };
+
+  const shapePoints = (a: Point, b: Point): Point[] =>
+      tool === 'line' ? linePoints(a.x, a.y, b.x, b.y)
+      : tool === 'rect' ? rectPoints(a.x, a.y, b.x, b.y)
+      : ellipsePoints(a.x, a.y, b.x, b.y);
+
+  const dragBounds = (a: Point, b: Point): PixelBounds => ({
+      x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x) + 1, height: Math.abs(b.y - a.y) + 1
+  });
+
+  // --- SELECTION ---
+  const isInFloating = (p: Point) => !!floating &&
+      p.x >= floating.x && p.y >= floating.y && p.x < floating.x + floating.image.width && p.y < floating.y + floating.image.height;
+
+  const commitFloating = () => {
+      const ctx = getContext();
+      if (!ctx || !floating) return;
+      ctx.drawImage(toCanvas(floating.image), floating.x, floating.y);
+      setSelection(footprintMask(floating.image, floating.x, floating.y, size.width, size.height));
+      setFloating(null);
+  };
+
+  const liftSelection = () => {
+      const ctx = getContext();
+      const bounds = selection && maskBounds(selection, size.width);
+      if (!ctx || !selection || !bounds) return null;
+      pushHistory();
+      const image = snapshot();
+      const lifted = { image: extractMasked(image, selection, bounds), x: bounds.x, y: bounds.y };
+      clearMasked(image, selection);
+      ctx.putImageData(image, 0, 0);
+      setFloating(lifted);
+      return lifted;
+  };
+
+  const copySelection = () => {
+      if (floating) {
+          clipboardRef.current = { ...floating };
+      } else if (selection) {
+          const bounds = maskBounds(selection, size.width);
+          if (bounds) clipboardRef.current = { image: extractMasked(snapshot(), selection, bounds), x: bounds.x, y: bounds.y };
+      }
+  };
+
+  const deleteSelection = () => {
+      const ctx = getContext();
+      if (!ctx) return;
+      if (floating) {
+          setFloating(null); // Its pixels were already lifted off the canvas
+      } else if (selection) {
+          pushHistory();
+          const image = snapshot();
+          clearMasked(image, selection);
+          ctx.putImageData(image, 0, 0);
+      }
+      setSelection(null);
+  };
+
+  const paste = () => {
+      if (!clipboardRef.current) return;
+      commitFloating();
+      pushHistory();
+      setFloating({ ...clipboardRef.current });
+      setSelection(null);
+      setTool('move');
+  };
+
+  const selectTool = (next: Tool) => {
+      if (next !== 'move') commitFloating();
+      setTool(next);
+  };
+
+  // --- OVERLAY: selection, moved pixels and shape previews ---
+  const drawOverlay = (preview?: { points?: Point[]; bounds?: PixelBounds }) => {
+      const ctx = overlayRef.current?.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, size.width, size.height);
+
+      if (floating) ctx.drawImage(toCanvas(floating.image), floating.x, floating.y);
+
+      const mask = floating ? footprintMask(floating.image, floating.x, floating.y, size.width, size.height) : selection;
+      if (mask) {
+          ctx.fillStyle = 'rgba(51, 255, 0, 0.3)';
+          mask.forEach((m, p) => { if (m) ctx.fillRect(p % size.width, Math.floor(p / size.width), 1, 1); });
+      }
+
+      if (preview?.points) {
+          ctx.fillStyle = color;
+          withBrush(preview.points).forEach(({ x, y }) => ctx.fillRect(x, y, 1, 1));
+      }
+      if (preview?.bounds) {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+          ctx.fillRect(preview.bounds.x, preview.bounds.y, preview.bounds.width, preview.bounds.height);
+      }
+  };
+
+  useEffect(() => { drawOverlay(); }, [selection, floating, size]);
+
+  // --- MOUSE ---
+  const handleMouseDown = (e: React.MouseEvent) => {
+      const ctx = getContext();
+      if (!ctx) return;
+      const p = getPointerPos(e);
+      dragRef.current = { start: p, last: p };
+
+      switch (tool) {
+          case 'picker': {
+              const data = ctx.getImageData(p.x, p.y, 1, 1).data;
+              const hex = `#${((1 << 24) + (data[0] << 16) + (data[1] << 8) + data[2]).toString(16).slice(1)}`;
+              setColor(hex);
+              setTool('brush'); // Switch back to brush after picking
+              dragRef.current = null;
+              return;
+          }
+          case 'bucket': {
+              pushHistory();
+              const image = snapshot();
+              mirrorPoints([p], size.width, size.height, mirrorX, mirrorY).forEach(seed => floodFill(image, seed.x, seed.y, hexToRgba(color)));
+              ctx.putImageData(image, 0, 0);
+              dragRef.current = null;
+              return;
+          }
+          case 'brush':
+          case 'eraser':
+              pushHistory();
+              stamp([p], tool === 'eraser');
+              return;
+          case 'wand':
+              commitFloating();
+              setSelection(wandMask(snapshot(), p.x, p.y));
+              dragRef.current = null;
+              return;
+          case 'select':
+              commitFloating();
+              return;
+          case 'move': {
+              if (isInFloating(p)) {
+                  dragRef.current.floatStart = { x: floating!.x, y: floating!.y };
+              } else if (selection?.[p.y * size.width + p.x]) {
+                  const lifted = liftSelection();
+                  if (lifted) dragRef.current.floatStart = { x: lifted.x, y: lifted.y };
+              } else {
+                  commitFloating();
+                  setSelection(null);
+                  dragRef.current = null;
+              }
+              return;
+          }
+      }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const p = getPointerPos(e);
+      if (p.x === drag.last.x && p.y === drag.last.y) return;
+
+      if (tool === 'brush' || tool === 'eraser') {
+          // Interpolated, so fast strokes don't leave gaps
+          stamp(linePoints(drag.last.x, drag.last.y, p.x, p.y), tool === 'eraser');
+      } else if (SHAPE_TOOLS.includes(tool)) {
+          drawOverlay({ points: shapePoints(drag.start, p) });
+      } else if (tool === 'select') {
+          drawOverlay({ bounds: dragBounds(drag.start, p) });
+      } else if (tool === 'move' && drag.floatStart) {
+          const { floatStart, start } = drag;
+          setFloating(f => f && { ...f, x: floatStart.x + p.x - start.x, y: floatStart.y + p.y - start.y });
+      }
+      drag.last = p;
+  };
+
+  const handleMouseUp = () => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (!drag) return;
+
+      if (SHAPE_TOOLS.includes(tool)) {
+          pushHistory();
+          stamp(shapePoints(drag.start, drag.last), false);
+          drawOverlay();
+      } else if (tool === 'select') {
+          const moved = drag.last.x !== drag.start.x || drag.last.y !== drag.start.y;
+          setSelection(moved ? rectMask(size.width, size.height, dragBounds(drag.start, drag.last)) : null);
+          drawOverlay();
+      }
+  };
+
+  // --- KEYBOARD ---
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+          const mod = e.ctrlKey || e.metaKey;
+          const key = e.key.toLowerCase();
+
+          if (mod && key === 'z') e.shiftKey ? redo() : undo();
+          else if (mod && key === 'y') redo();
+          else if (mod && key === 'c') copySelection();
+          else if (mod && key === 'x') { copySelection(); deleteSelection(); }
+          else if (mod && key === 'v') paste();
+          else if (mod && key === 'a') { commitFloating(); setSelection(rectMask(size.width, size.height, { x: 0, y: 0, ...size })); }
+          else if (key === 'delete' || key === 'backspace') { if (!selection && !floating) return; deleteSelection(); }
+          else if (key === 'enter' || key === 'escape') { commitFloating(); if (key === 'escape') setSelection(null); }
+          else return;
+          e.preventDefault();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSave = () => {
+      commitFloating();
+      if (canvasRef.current) onSave(canvasRef.current.toDataURL('image/png'));
+  };
+
+  return (
+    <div className="h-full flex">
+        {/* Toolbar */}
+        <div className="w-24 bg-retro-gray/30 border-r border-white/10 flex flex-col items-center py-3 gap-2 z-10 overflow-y-auto custom-scrollbar">
+            <div className="grid grid-cols-2 gap-1">
+                <ToolBtn icon={Paintbrush} active={tool === 'brush'} onClick={() => selectTool('brush')} label="Brush" />
+                <ToolBtn icon={Eraser} active={tool === 'eraser'} onClick={() => selectTool('eraser')} label="Eraser" />
+                <ToolBtn icon={PaintBucket} active={tool === 'bucket'} onClick={() => selectTool('bucket')} label="Fill" />
+                <ToolBtn icon={Pipette} active={tool === 'picker'} onClick={() => selectTool('picker')} label="Pick" />
+                <ToolBtn icon={Slash} active={tool === 'line'} onClick={() => selectTool('line')} label="Line" />
+                <ToolBtn icon={Square} active={tool === 'rect'} onClick={() => selectTool('rect')} label="Rectangle" />
+                <ToolBtn icon={Circle} active={tool === 'ellipse'} onClick={() => selectTool('ellipse')} label="Ellipse" />
+                <ToolBtn icon={SquareDashed} active={tool === 'select'} onClick={() => selectTool('select')} label="Select (Ctrl+A all)" />
+                <ToolBtn icon={Wand} active={tool === 'wand'} onClick={() => selectTool('wand')} label="Magic Wand" />
+                <ToolBtn icon={Move} active={tool === 'move'} onClick={() => selectTool('move')} label="Move Selection (Ctrl+C/X/V, Del)" />
+            </div>
+
+            <div className="h-px w-16 bg-white/10 my-1" />
+
+            <div className="grid grid-cols-2 gap-1">
+                <ToolBtn icon={FlipHorizontal2} active={mirrorX} onClick={() => setMirrorX(!mirrorX)} label="Mirror Horizontally" />
+                <ToolBtn icon={FlipVertical2} active={mirrorY} onClick={() => setMirrorY(!mirrorY)} label="Mirror Vertically" />
+                <ToolBtn icon={Undo2} active={false} disabled={undoRef.current.length === 0} onClick={undo} label="Undo (Ctrl+Z)" />
+                <ToolBtn icon={Redo2} active={false} disabled={redoRef.current.length === 0} onClick={redo} label="Redo (Ctrl+Shift+Z)" />
+            </div>
+
+            <select
+                value={brushSize}
+                onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                className="bg-black/50 border border-white/20 text-gray-300 text-[10px] font-mono px-1 py-1 rounded outline-none"
+                title="Brush Size"
+            >
+                {BRUSH_SIZES.map(n => <option key={n} value={n}>{n}PX</option>)}
+            </select>
+
+            <div className="h-px w-16 bg-white/10 my-1" />
+
+            {/* Current Color */}
+            <div className="w-8 h-8 rounded border border-white/30" style={{ backgroundColor: tool === 'eraser' ? 'transparent' : color }} />
+            <input type="color" value={color} onChange={(e) => setColor(e.target.value)} className="w-8 h-0 opacity-0 absolute" id="color-input" />
+            <label htmlFor="color-input" className="text-[10px] text-gray-400 cursor-pointer hover:text-white">CHANGE</label>
+        </div>
+
+        {/* Canvas Area */}
+        <div className="flex-1 bg-[url('https://www.transparenttextures.com/patterns/dark-matter.png')] bg-black/80 flex items-center justify-center overflow-auto relative">
+            <div
+                className="relative shrink-0 bg-[url('https://www.transparenttextures.com/patterns/checkerboard-cross-dark.png')] shadow-2xl border border-white/10"
+                style={{ width: size.width ? size.width * zoom : 'auto', height: size.height ? size.height * zoom : 'auto' }}
+            >
+                {/* Onion skins sit between the checkerboard and the (transparent) canvas */}
+                {onionSkins.map((skin, i) => (
+                    <img
+                        key={i}
+                        src={skin.imageUrl}
+                        className="absolute inset-0 w-full h-full pointer-events-none [image-rendering:pixelated]"
+                        style={{ opacity: skin.opacity, filter: ONION_TINTS[skin.tint] }}
+                    />
+                ))}
+                <canvas
+                    ref={canvasRef}
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseUp}
+                    className={`relative block w-full h-full [image-rendering:pixelated] ${tool === 'move' ? 'cursor-move' : 'cursor-crosshair'}`}
+                />
+                <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none [image-rendering:pixelated]" />
+            </div>
+
+            {/* Zoom Controls */}
+            <div className="absolute bottom-4 right-4 bg-black/80 rounded border border-white/10 p-2 flex gap-2">
+                <button onClick={() => setZoom(Math.max(1, zoom - 1))} className="text-white px-2 hover:text-retro-green">-</button>
+                <span className="font-mono text-xs text-gray-400 pt-1">{zoom}x</span>
+                <button onClick={() => setZoom(Math.min(16, zoom + 1))} className="text-white px-2 hover:text-retro-green">+</button>
+            </div>
+        </div>
+
+        {/* Palette Sidebar */}
+        <div className="w-48 bg-retro-gray/30 border-l border-white/10 p-4 flex flex-col">
+            <h4 className="font-mono text-xs text-gray-400 mb-3 font-bold">{projectPalette?.length ? 'PROJECT PALETTE' : 'DETECTED PALETTE'}</h4>
+            <div className="grid grid-cols-4 gap-2 mb-6 overflow-y-auto custom-scrollbar">
+                {(projectPalette?.length ? projectPalette : palette).map((c, i) => (
+                    <button
+                        key={i}
+                        onClick={() => setColor(c)}
+                        className="w-8 h-8 rounded border border-white/10 hover:scale-110 transition-transform"
+                        style={{ backgroundColor: c }}
+                        title={c}
+                    />
+                ))}
+            </div>
+
+            <div className="mt-auto">
+                <button
+                    onClick={handleSave}
+                    className="w-full bg-retro-green text-black py-3 rounded font-bold font-mono text-xs hover:bg-white flex items-center justify-center gap-2"
+                >
+                    <Save size={14} /> {saveLabel}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+const ToolBtn: React.FC<{ icon: LucideIcon, active: boolean, onClick: () => void, label: string, disabled?: boolean }> = ({ icon: Icon, active, onClick, label, disabled }) => (
+    <button
+        onClick={onClick}
+        disabled={disabled}
+        className={`w-9 h-9 rounded flex items-center justify-center transition-colors disabled:opacity-30 ${active ? 'bg-retro-green text-black' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+        title={label}
+    >
+        <Icon size={18} />
+    </button>
+);
+
+export default PixelCanvas;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { X, Film, Download, Loader2 } from 'lucide-react';
+import { GameAsset } from '../types';
+import { PreviewOptions, PREVIEW_FORMATS, PREVIEW_SCALES, renderAssetPreview, renderContactSheet, getPreviewFilename, getAssetPreviewName } from '../services/animationPreview';
+
+interface PreviewExportModalProps {
+  name: string;           // Asset or group name
+  assets: GameAsset[];
+  contactSheet: boolean;  // All of `assets` side by side, or just the first one
+  isOpen: boolean;
+  options: PreviewOptions;
+  onOptionsChange: (options: PreviewOptions) => void; // Shared with the previews of the project ZIP
+  onClose: () => void;
+  onDownload: (blob: Blob, filename: string) => void;
+}
+
+const DEFAULT_BACKGROUND = '#000000';
+
+const PreviewExportModal: React.FC<PreviewExportModalProps> = ({ name, assets, contactSheet, isOpen, options, onOptionsChange, onClose, onDownload }) => {
+  const [preview, setPreview] = useState<{ blob: Blob; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const baseName = contactSheet ? `${name.replace(/\s+/g, '_')}_Contact_Sheet` : getAssetPreviewName(assets[0]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setPreview(null);
+    setError(null);
+    // Debounced: the colour picker fires while dragging
+    const timer = setTimeout(() => {
+      (contactSheet ? renderContactSheet(assets, options) : renderAssetPreview(assets[0], options))
+        .then(blob => {
+          if (cancelled) return;
+          url = URL.createObjectURL(blob);
+          setPreview({ blob, url });
+        })
+        .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [isOpen, assets, contactSheet, options]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-green w-full max-w-3xl h-[75vh] rounded-lg shadow-[0_0_30px_rgba(51,255,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-green text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><Film size={16}/> {contactSheet ? 'CONTACT SHEET' : 'PREVIEW'}.exe // {name}</span>
+            <button onClick={onClose} className="hover:text-white p-1"><X size={18} /></button>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 border-b border-white/10 flex flex-wrap items-center gap-6 font-mono text-xs text-gray-300">
+            <div className="flex items-center gap-1">
+                {PREVIEW_FORMATS.map(format => (
+                    <button
+                        key={format.id}
+                        onClick={() => onOptionsChange({ ...options, format: format.id })}
+                        className={`px-2 py-1 rounded border ${options.format === format.id ? 'bg-retro-green text-black border-retro-green' : 'border-white/20 hover:bg-white/10'}`}
+                    >
+                        {format.label}
+                    </button>
+                ))}
+            </div>
+            <label className="flex items-center gap-2">
+                SCALE
+                <select
+                    value={options.scale}
+                    onChange={(e) => onOptionsChange({ ...options, scale: parseInt(e.target.value, 10) })}
+                    className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+                >
+                    {PREVIEW_SCALES.map(n => <option key={n} value={n}>{n}x</option>)}
+                </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={options.background === null}
+                    onChange={(e) => onOptionsChange({ ...options, background: e.target.checked ? null : DEFAULT_BACKGROUND })}
+                    className="accent-retro-green"
+                />
+                TRANSPARENT
+            </label>
+            {options.background !== null && (
+                <label className="flex items-center gap-2">
+                    BACKGROUND
+                    <input
+                        type="color"
+                        value={options.background}
+                        onChange={(e) => onOptionsChange({ ...options, background: e.target.value })}
+                        className="w-8 h-6 bg-transparent border border-white/20 rounded cursor-pointer"
+                    />
+                </label>
+            )}
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 min-h-0 p-4 flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/checkerboard-cross-dark.png')] bg-black/60 overflow-auto custom-scrollbar">
+            {preview
+                ? <img src={preview.url} className="max-w-full max-h-full object-contain [image-rendering:pixelated]" />
+                : error
+                    ? <span className="text-red-400 font-mono text-xs">{error}</span>
+                    : <Loader2 className="animate-spin text-retro-amber" />}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-white/10 flex items-center gap-4 font-mono text-xs text-gray-400">
+            {preview && <span>{getPreviewFilename(baseName, options.format)}, {Math.max(1, Math.round(preview.blob.size / 1024))} KB</span>}
+            {options.format === 'gif' && options.background === null && (
+                <span className="text-gray-600 text-[10px]">GIF transparency is on/off: soft edges become hard.</span>
+            )}
+            <button
+                onClick={() => preview && onDownload(preview.blob, getPreviewFilename(baseName, options.format))}
+                disabled={!preview}
+                className="ml-auto bg-retro-green text-black px-4 py-2 rounded font-bold hover:bg-white disabled:opacity-50 flex items-center gap-2"
+            >
+                <Download size={14} /> DOWNLOAD
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewExportModal;
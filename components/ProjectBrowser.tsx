@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { X, FolderOpen, Copy, Trash2, Plus, Loader2 } from 'lucide-react';
+import { SavedProject } from '../types';
+import { listProjects, deleteProject, duplicateProject } from '../services/projectStore';
+
+interface ProjectBrowserProps {
+  isOpen: boolean;
+  currentProjectId: string | null;
+  onClose: () => void;
+  onOpen: (project: SavedProject) => void;
+  onNew: () => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString();
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ isOpen, currentProjectId, onClose, onOpen, onNew }) => {
+  const [projects, setProjects] = useState<SavedProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read local storage.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    refresh();
+  };
+
+  const handleDelete = async (project: SavedProject) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    refresh();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-green w-full max-w-3xl max-h-[80vh] rounded-lg shadow-[0_0_30px_rgba(51,255,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-green text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><FolderOpen size={16}/> PROJECTS.db</span>
+            <div className="flex gap-2">
+                <button
+                    onClick={onNew}
+                    className="flex items-center gap-1 bg-retro-black text-retro-green px-3 py-1 rounded text-xs hover:bg-white hover:text-black transition-colors"
+                >
+                    <Plus size={14} /> NEW PROJECT
+                </button>
+                <button onClick={onClose} className="hover:text-white p-1"><X size={18} /></button>
+            </div>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto p-4 custom-scrollbar space-y-2">
+            {isLoading && (
+                <div className="flex items-center justify-center gap-2 text-retro-green font-mono text-sm py-8">
+                    <Loader2 className="animate-spin" size={16} /> READING LOCAL STORAGE...
+                </div>
+            )}
+
+            {!isLoading && error && (
+                <p className="text-red-400 font-mono text-xs">ERROR: {error}</p>
+            )}
+
+            {!isLoading && !error && projects.length === 0 && (
+                <p className="text-gray-500 font-mono text-sm text-center py-8">NO SAVED PROJECTS YET.</p>
+            )}
+
+            {!isLoading && projects.map(project => {
+                const done = project.plan.assets.filter(a => a.status === 'done').length;
+                const isCurrent = project.id === currentProjectId;
+                return (
+                    <div
+                        key={project.id}
+                        className={`flex items-center gap-4 p-3 rounded border bg-white/5 ${isCurrent ? 'border-retro-green' : 'border-white/10 hover:border-white/30'}`}
+                    >
+                        <div className="w-12 h-12 bg-black/50 rounded border border-white/10 flex items-center justify-center overflow-hidden shrink-0">
+                            {project.plan.masterStyleImage
+                                ? <img src={project.plan.masterStyleImage} className="w-full h-full object-contain [image-rendering:pixelated]" />
+                                : <span className="text-white/10 font-pixel">?</span>}
+                        </div>
+
+                        <div className="flex-1 min-w-0 font-mono">
+                            <p className="text-white text-sm truncate">{project.name} {isCurrent && <span className="text-retro-green text-[10px]">(OPEN)</span>}</p>
+                            <p className="text-gray-500 text-[10px]">
+                                {project.phase} // {done}/{project.plan.assets.length} ASSETS // UPDATED {formatDate(project.updatedAt)}
+                            </p>
+                        </div>
+
+                        <div className="flex gap-1 shrink-0">
+                            <button
+                                onClick={() => onOpen(project)}
+                                className="flex items-center gap-1 text-[10px] bg-retro-green text-black px-2 py-1 rounded font-bold hover:bg-white transition-colors"
+                            >
+                                <FolderOpen size={10} /> OPEN
+                            </button>
+                            <button
+                                onClick={() => handleDuplicate(project.id)}
+                                className="p-1 bg-retro-gray border border-white/20 text-white rounded hover:bg-white/20"
+                                title="Duplicate Project"
+                            >
+                                <Copy size={12} />
+                            </button>
+                            <button
+                                onClick={() => handleDelete(project)}
+                                disabled={isCurrent}
+                                className="p-1 bg-red-500 text-white rounded hover:bg-red-400 disabled:opacity-30"
+                                title={isCurrent ? 'Close the project before deleting it' : 'Delete Project'}
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
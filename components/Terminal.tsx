@@ -1,13 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Terminal as TerminalIcon, Send } from 'lucide-react';
+import { TerminalMessage } from '../types';
+import { QueueProgress, formatDuration } from '../services/generationQueue';
 
 interface TerminalProps {
   onSubmit: (input: string) => void;
   isLoading: boolean;
-  history: { role: 'user' | 'system', text: string }[];
+  history: TerminalMessage[];
+  progress?: QueueProgress | null;
 }
 
-const Terminal: React.FC<TerminalProps> = ({ onSubmit, isLoading, history }) => {
+const Terminal: React.FC<TerminalProps> = ({ onSubmit, isLoading, history, progress }) => {
   const [input, setInput] = useState('');
   const bottomRef = useRef<HTMLDivElement>(null);
 
@@ -60,6 +63,25 @@ const Terminal: React.FC<TerminalProps> = ({ onSubmit, isLoading, history }) =>
         <div ref={bottomRef} />
       </div>
 
+      {/* Generation Progress */}
+      {progress && (
+        <div className="border-t border-retro-green/30 bg-black/70 px-3 py-2 text-xs text-retro-green">
+          <div className="flex justify-between mb-1">
+            <span>
+              {progress.state === 'paused' ? 'PAUSED' : 'GENERATING'} {progress.done}/{progress.total}
+              {progress.failed > 0 && <span className="text-red-400"> ({progress.failed} FAILED)</span>}
+            </span>
+            <span>{progress.etaMs !== null && progress.state === 'running' ? `ETA ${formatDuration(progress.etaMs)}` : '--'}</span>
+          </div>
+          <div className="h-1.5 bg-retro-dim rounded overflow-hidden">
+            <div
+              className={`h-full transition-all ${progress.state === 'paused' ? 'bg-retro-amber' : 'bg-retro-green'}`}
+              style={{ width: `${progress.total > 0 ? ((progress.done + progress.failed) / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Input Area */}
       <form onSubmit={handleSubmit} className="border-t border-retro-green/30 bg-black/50 p-3 flex gap-2">
         <span className="text-retro-green font-bold py-2">{'>'}</span>
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { X, Shuffle, Loader2, Crown } from 'lucide-react';
+import { GameAsset } from '../types';
+
+interface VariantsModalProps {
+  asset: GameAsset;
+  isOpen: boolean;
+  isConcept: boolean;
+  onClose: () => void;
+  onGenerate: (asset: GameAsset, count: number) => Promise<string[]>;
+  onPromote: (assetId: string, winner: string, candidates: string[]) => void;
+}
+
+const VariantsModal: React.FC<VariantsModalProps> = ({ asset, isOpen, isConcept, onClose, onGenerate, onPromote }) => {
+  const [count, setCount] = useState(4);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Start fresh for every asset
+  useEffect(() => {
+    if (isOpen) {
+      setCandidates([]);
+      setSelected(asset.imageUrl || null);
+    }
+  }, [isOpen, asset.id]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const results = await onGenerate(asset, count);
+      // Keep earlier rounds so they can still be compared
+      setCandidates(prev => [...prev, ...results]);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handlePromote = () => {
+    if (!selected) return;
+    onPromote(asset.id, selected, candidates);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const options = asset.imageUrl ? [asset.imageUrl, ...candidates] : candidates;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-retro-black border-2 border-retro-green w-full max-w-5xl h-[85vh] rounded-lg shadow-[0_0_30px_rgba(51,255,0,0.3)] animate-in fade-in zoom-in duration-200 flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="bg-retro-green text-retro-black p-3 flex justify-between items-center font-bold font-mono">
+            <span className="flex items-center gap-2"><Shuffle size={16}/> VARIANTS.exe // {asset.filename} {isConcept && '(MASTER CONCEPT)'}</span>
+            <button onClick={onClose} disabled={isGenerating} className="hover:text-white p-1"><X size={18} /></button>
+        </div>
+
+        {/* Controls */}
+        <div className="p-3 border-b border-white/10 flex items-center gap-3 font-mono text-xs">
+            <span className="text-gray-400">CANDIDATES:</span>
+            <select
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value, 10))}
+                disabled={isGenerating}
+                className="bg-black/50 border border-white/20 text-gray-300 px-2 py-1 rounded outline-none"
+            >
+                {[2, 3, 4, 6].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <button
+                onClick={handleGenerate}
+                disabled={isGenerating}
+                className="flex items-center gap-1 bg-retro-green text-black font-bold px-3 py-1 rounded hover:bg-white disabled:opacity-50"
+            >
+                {isGenerating ? <Loader2 size={12} className="animate-spin" /> : <Shuffle size={12} />}
+                {isGenerating ? 'GENERATING...' : candidates.length > 0 ? 'MORE CANDIDATES' : 'GENERATE CANDIDATES'}
+            </button>
+            <span className="text-gray-500 ml-auto">Rejected candidates are kept in the asset's history.</span>
+        </div>
+
+        {/* Side-by-side comparison */}
+        <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+            {options.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-gray-600 font-mono text-sm">NO IMAGES YET. GENERATE SOME CANDIDATES.</div>
+            ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                    {options.map((url, idx) => {
+                        const isCurrent = url === asset.imageUrl;
+                        return (
+                            <button
+                                key={idx}
+                                onClick={() => setSelected(url)}
+                                className={`relative aspect-square bg-black/40 rounded border-2 p-2 flex items-center justify-center transition-all ${selected === url ? 'border-retro-green scale-[1.02]' : 'border-white/10 hover:border-white/30'}`}
+                            >
+                                <img src={url} className="max-w-full max-h-full object-contain [image-rendering:pixelated]" />
+                                <span className={`absolute top-1 left-1 text-[10px] font-mono px-1 rounded ${isCurrent ? 'bg-retro-amber text-black' : 'bg-black/70 text-gray-300'}`}>
+                                    {isCurrent ? 'CURRENT' : `#${asset.imageUrl ? idx : idx + 1}`}
+                                </span>
+                            </button>
+                        );
+                    })}
+                    {isGenerating && Array.from({ length: count }).map((_, i) => (
+                        <div key={`loading-${i}`} className="aspect-square bg-black/40 rounded border-2 border-dashed border-white/10 flex items-center justify-center">
+                            <Loader2 className="animate-spin text-retro-amber" />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-3 border-t border-white/10 flex justify-end gap-2">
+            <button
+                onClick={handlePromote}
+                disabled={!selected || isGenerating || (selected === asset.imageUrl && candidates.length === 0)}
+                className="flex items-center gap-1 text-xs bg-retro-amber text-black font-bold px-3 py-2 rounded hover:bg-yellow-400 transition-colors font-mono disabled:opacity-40"
+            >
+                <Crown size={14} /> {selected === asset.imageUrl ? 'KEEP CURRENT' : 'PROMOTE SELECTED'}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantsModal;
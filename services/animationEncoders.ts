@@ -0,0 +1,253 @@
+import { RGB, extractPalette, hexToRgb, toPaletteIndices } from "./palette";
+
+/**
+ * ANIMATION ENCODERS
+ * Encodes a sequence of frames as an animated GIF, APNG or WebP, entirely in
+ * the browser:
+ * - GIF: one global palette (exact up to 255 colours, above that extracted
+ *   and matched as the project palette is, see palette.ts) and LZW;
+ *   transparency is 1-bit, so alpha below 128 becomes transparent.
+ * - APNG: lossless RGBA, zlib-compressed with the browser's CompressionStream.
+ * - WebP: each frame is encoded by the canvas (lossless where the browser
+ *   supports it) and wrapped in an animated WebP container.
+ * Frames are written whole, so every frame replaces the previous one. `plays`
+ * is how often the animation runs; 0 loops forever.
+ */
+
+export interface AnimationFrame {
+  image: ImageData;
+  duration: number; // ms
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const ascii = (s: string) => Uint8Array.from([...s].map(c => c.charCodeAt(0)));
+
+const le = (value: number, bytes: number) => Uint8Array.from({ length: bytes }, (_, i) => (value >>> (i * 8)) & 0xff);
+
+const be = (value: number, bytes: number) => Uint8Array.from({ length: bytes }, (_, i) => (value >>> ((bytes - 1 - i) * 8)) & 0xff);
+
+// --- GIF ---
+
+const GIF_ALPHA_THRESHOLD = 128; // The same as the palette's (toPaletteIndices)
+const GIF_MAX_CODES = 4096;
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const out: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0, bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) { out.push(buffer & 0xff); buffer >>= 8; bits -= 8; }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) { prefix = code; continue; }
+
+    emit(prefix);
+    if (nextCode === GIF_MAX_CODES) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+};
+
+// Image data is written in sub-blocks of at most 255 bytes
+const subBlocks = (data: Uint8Array) => {
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    parts.push(Uint8Array.of(block.length), block);
+  }
+  parts.push(Uint8Array.of(0));
+  return concat(parts);
+};
+
+export const encodeGif = (frames: AnimationFrame[], plays = 0): Blob => {
+  const { width, height } = frames[0].image;
+
+  const colors = new Set<number>();
+  let hasTransparency = false;
+  frames.forEach(({ image }) => {
+    for (let p = 0; p < image.data.length; p += 4) {
+      if (image.data[p + 3] < GIF_ALPHA_THRESHOLD) { hasTransparency = true; continue; }
+      colors.add((image.data[p] << 16) | (image.data[p + 1] << 8) | image.data[p + 2]);
+    }
+  });
+
+  // Index 0 is transparent when any pixel is
+  const offset = hasTransparency ? 1 : 0;
+  const maxColors = 256 - offset;
+  let palette: RGB[];
+  if (colors.size <= maxColors) {
+    palette = [...colors].map(c => [(c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff] as RGB);
+  } else {
+    const all = new ImageData(width, height * frames.length);
+    frames.forEach(({ image }, i) => all.data.set(image.data, i * image.data.length));
+    palette = extractPalette(all, maxColors).map(hexToRgb);
+  }
+  const sizeBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length + offset))));
+
+  const colorTable = new Uint8Array(3 * (1 << sizeBits));
+  palette.forEach((rgb, i) => colorTable.set(rgb, (i + offset) * 3));
+
+  const parts: Uint8Array[] = [
+    ascii('GIF89a'),
+    le(width, 2), le(height, 2),
+    Uint8Array.of(0x80 | 0x70 | (sizeBits - 1), 0, 0),
+    colorTable
+  ];
+  if (plays !== 1) {
+    parts.push(Uint8Array.of(0x21, 0xff, 0x0b), ascii('NETSCAPE2.0'), Uint8Array.of(0x03, 0x01), le(Math.max(0, plays - 1), 2), Uint8Array.of(0));
+  }
+
+  frames.forEach(({ image, duration }) => {
+    const indices = toPaletteIndices(image, palette, offset);
+    // Browsers play delays under 20 ms at 100 ms, so 2 centiseconds is the floor
+    const delay = Math.max(2, Math.round(duration / 10));
+    const minCodeSize = Math.max(2, sizeBits);
+    parts.push(
+      Uint8Array.of(0x21, 0xf9, 0x04, (2 << 2) | (hasTransparency ? 1 : 0)), le(delay, 2), Uint8Array.of(0, 0),
+      Uint8Array.of(0x2c), le(0, 2), le(0, 2), le(width, 2), le(height, 2), Uint8Array.of(0),
+      Uint8Array.of(minCodeSize), subBlocks(lzwEncode(indices, minCodeSize))
+    );
+  });
+
+  parts.push(Uint8Array.of(0x3b));
+  return new Blob([concat(parts) as BlobPart], { type: 'image/gif' });
+};
+
+// --- APNG ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([ascii(type), data]);
+  return concat([be(data.length, 4), body, be(crc32(body), 4)]);
+};
+
+const zlibCompress = async (bytes: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+// Unfiltered scanlines: a 0 filter byte, then the row's RGBA
+const scanlines = (image: ImageData) => {
+  const stride = image.width * 4;
+  const out = new Uint8Array((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) out.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  return out;
+};
+
+export const encodeApng = async (frames: AnimationFrame[], plays = 0): Promise<Blob> => {
+  const { width, height } = frames[0].image;
+  const parts: Uint8Array[] = [
+    Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+    pngChunk('IHDR', concat([be(width, 4), be(height, 4), Uint8Array.of(8, 6, 0, 0, 0)])),
+    pngChunk('acTL', concat([be(frames.length, 4), be(plays, 4)]))
+  ];
+
+  let sequence = 0;
+  for (const [i, { image, duration }] of frames.entries()) {
+    // Delay as a fraction: duration / 1000 s; dispose none, blend source
+    parts.push(pngChunk('fcTL', concat([
+      be(sequence++, 4), be(width, 4), be(height, 4), be(0, 4), be(0, 4),
+      be(Math.round(duration), 2), be(1000, 2), Uint8Array.of(0, 0)
+    ])));
+    const data = await zlibCompress(scanlines(image));
+    parts.push(i === 0 ? pngChunk('IDAT', data) : pngChunk('fdAT', concat([be(sequence++, 4), data])));
+  }
+
+  parts.push(pngChunk('IEND', new Uint8Array(0)));
+  return new Blob([concat(parts) as BlobPart], { type: 'image/apng' });
+};
+
+// --- WEBP ---
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readChunks = (bytes: Uint8Array, offset: number): RiffChunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const riffChunk = (type: string, data: Uint8Array) =>
+  concat([ascii(type), le(data.length, 4), data, new Uint8Array(data.length & 1)]);
+
+// The canvas' still WebP, reduced to the chunks an animation frame holds (ALPH and VP8, or VP8L)
+const encodeWebpFrame = async (image: ImageData): Promise<Uint8Array> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 1));
+  // Browsers without a WebP encoder hand back a PNG instead
+  if (!blob || blob.type !== 'image/webp') throw new Error("This browser cannot encode WebP.");
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const chunks = readChunks(bytes, 12).filter(c => c.type === 'ALPH' || c.type === 'VP8 ' || c.type === 'VP8L');
+  return concat(chunks.map(c => riffChunk(c.type, c.data)));
+};
+
+export const encodeWebp = async (frames: AnimationFrame[], plays = 0): Promise<Blob> => {
+  const { width, height } = frames[0].image;
+  const anmf: Uint8Array[] = [];
+  for (const { image, duration } of frames) {
+    // Offset 0, full size; no blending, no disposal
+    anmf.push(riffChunk('ANMF', concat([
+      le(0, 3), le(0, 3), le(width - 1, 3), le(height - 1, 3), le(Math.round(duration), 3), Uint8Array.of(0x02),
+      await encodeWebpFrame(image)
+    ])));
+  }
+
+  const body = concat([
+    ascii('WEBP'),
+    riffChunk('VP8X', concat([Uint8Array.of(0x10 | 0x02, 0, 0, 0), le(width - 1, 3), le(height - 1, 3)])),
+    riffChunk('ANIM', concat([le(0, 4), le(plays, 2)])),
+    ...anmf
+  ]);
+  return new Blob([concat([ascii('RIFF'), le(body.length, 4), body]) as BlobPart], { type: 'image/webp' });
+};
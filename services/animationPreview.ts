@@ -0,0 +1,159 @@
+import JSZip from 'jszip';
+import { GameAsset, ProjectManifest } from "../types";
+import { readImageData } from "./imageData";
+import { cropImage } from "./frameSlicer";
+import { getAnimation, getFrameAtTime, getPlaybackRange, getSequence, getTotalDuration } from "./animationTiming";
+import { AnimationFrame, encodeApng, encodeGif, encodeWebp } from "./animationEncoders";
+import { hexToRgb } from "./palette";
+
+/**
+ * ANIMATED PREVIEWS
+ * Renders an animated asset, or a whole group as a contact sheet, to a GIF,
+ * APNG or WebP to share outside the app. Frames keep their own durations and
+ * loop mode (ping-pong is written out as the frames it plays, 'once' plays
+ * once); the contact sheet plays every asset side by side on one timeline.
+ */
+
+export type PreviewFormat = 'gif' | 'apng' | 'webp';
+
+export interface PreviewOptions {
+  format: PreviewFormat;
+  scale: number;             // Whole-pixel upscale
+  background: string | null; // Hex colour, or null to keep transparency
+}
+
+export const PREVIEW_FORMATS: { id: PreviewFormat; label: string; extension: string }[] = [
+  { id: 'gif', label: 'GIF', extension: 'gif' },
+  { id: 'apng', label: 'APNG', extension: 'png' },
+  { id: 'webp', label: 'WEBP', extension: 'webp' }
+];
+
+export const PREVIEW_SCALES = [1, 2, 3, 4, 6, 8];
+
+export const DEFAULT_PREVIEW_OPTIONS: PreviewOptions = {
+  format: 'gif',
+  scale: 4,
+  background: null
+};
+
+const CONTACT_SHEET_GAP = 2; // Between cells, before scaling
+const MAX_CONTACT_SHEET_DURATION = 10000; // ms; bounds the frame count of long, uneven cycles
+
+const ENCODERS: Record<PreviewFormat, (frames: AnimationFrame[], plays: number) => Blob | Promise<Blob>> = {
+  gif: encodeGif,
+  apng: encodeApng,
+  webp: encodeWebp
+};
+
+export const isAnimated = (asset: GameAsset) => !!asset.imageUrl && (asset.metadata?.frames || 1) > 1;
+
+export const getPreviewFilename = (baseName: string, format: PreviewFormat) =>
+  `${baseName}.${PREVIEW_FORMATS.find(f => f.id === format)!.extension}`;
+
+export const getAssetPreviewName = (asset: GameAsset) => asset.filename.replace(/\.[^.]+$/, '');
+
+const readFrames = async (asset: GameAsset): Promise<ImageData[]> => {
+  const strip = await readImageData(asset.imageUrl!);
+  const count = Math.max(1, asset.metadata?.frames || 1);
+  const width = Math.floor(strip.width / count);
+  return Array.from({ length: count }, (_, i) => cropImage(strip, { x: i * width, y: 0, width, height: strip.height }));
+};
+
+// Nearest-neighbour upscale, composited onto the background colour when there is one
+const finishFrame = (image: ImageData, { scale, background }: PreviewOptions): ImageData => {
+  const out = new ImageData(image.width * scale, image.height * scale);
+  const bg = background ? hexToRgb(background) : null;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const src = (y * image.width + x) * 4;
+      let r = image.data[src], g = image.data[src + 1], b = image.data[src + 2], a = image.data[src + 3];
+      if (bg) {
+        const alpha = a / 255;
+        r = Math.round(r * alpha + bg[0] * (1 - alpha));
+        g = Math.round(g * alpha + bg[1] * (1 - alpha));
+        b = Math.round(b * alpha + bg[2] * (1 - alpha));
+        a = 255;
+      }
+      for (let dy = 0; dy < scale; dy++) {
+        let to = ((y * scale + dy) * out.width + x * scale) * 4;
+        for (let dx = 0; dx < scale; dx++, to += 4) {
+          out.data[to] = r;
+          out.data[to + 1] = g;
+          out.data[to + 2] = b;
+          out.data[to + 3] = a;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+export const renderAssetPreview = async (asset: GameAsset, options: PreviewOptions): Promise<Blob> => {
+  const images = await readFrames(asset);
+  const animation = getAnimation(asset);
+  const range = getPlaybackRange(animation);
+  const frames = getSequence(range).map(f => ({ image: finishFrame(images[f], options), duration: animation.frameDurations[f] }));
+  return ENCODERS[options.format](frames, range.loop === 'once' ? 1 : 0);
+};
+
+/**
+ * Every asset of `assets` in a grid of equal cells, standing on the bottom
+ * centre of its cell. The sheet runs until all cycles line up again (or as
+ * long as the longest cycle, when that would take too long); a new frame
+ * starts whenever any asset changes frame.
+ */
+export const renderContactSheet = async (assets: GameAsset[], options: PreviewOptions): Promise<Blob> => {
+  const strips = await Promise.all(assets.filter(a => a.imageUrl).map(async asset => {
+    const animation = getAnimation(asset);
+    return { images: await readFrames(asset), animation, range: getPlaybackRange(animation) };
+  }));
+  if (strips.length === 0) throw new Error("There are no generated assets to preview.");
+
+  const cellWidth = Math.max(...strips.map(s => s.images[0].width));
+  const cellHeight = Math.max(...strips.map(s => s.images[0].height));
+  const columns = Math.ceil(Math.sqrt(strips.length));
+  const rows = Math.ceil(strips.length / columns);
+  const width = columns * cellWidth + (columns - 1) * CONTACT_SHEET_GAP;
+  const height = rows * cellHeight + (rows - 1) * CONTACT_SHEET_GAP;
+
+  const cycles = strips.map(s => Math.max(1, Math.round(getTotalDuration(s.animation, s.range))));
+  const gcd = (a: number, b: number): number => b ? gcd(b, a % b) : a;
+  const common = cycles.reduce((lcm, cycle) => lcm / gcd(lcm, cycle) * cycle);
+  const length = common <= MAX_CONTACT_SHEET_DURATION ? common : Math.min(MAX_CONTACT_SHEET_DURATION, Math.max(...cycles));
+  const times = new Set([0]);
+  strips.forEach(({ animation, range }) => {
+    const sequence = getSequence(range);
+    let t = 0;
+    while (t < length) {
+      for (const f of sequence) {
+        t += Math.max(1, animation.frameDurations[f]);
+        if (t < length) times.add(t);
+      }
+      if (range.loop === 'once') break;
+    }
+  });
+  const starts = [...times].sort((a, b) => a - b);
+
+  const frames = starts.map((start, i) => {
+    const sheet = new ImageData(width, height);
+    strips.forEach(({ images, animation, range }, s) => {
+      const image = images[getFrameAtTime(animation, start, range).frame];
+      const left = (s % columns) * (cellWidth + CONTACT_SHEET_GAP) + Math.floor((cellWidth - image.width) / 2);
+      const top = Math.floor(s / columns) * (cellHeight + CONTACT_SHEET_GAP) + cellHeight - image.height;
+      for (let y = 0; y < image.height; y++) {
+        sheet.data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), ((top + y) * width + left) * 4);
+      }
+    });
+    return { image: finishFrame(sheet, options), duration: (starts[i + 1] ?? length) - start };
+  });
+  return ENCODERS[options.format](frames, 0);
+};
+
+// Writes a preview of every animated asset to Previews/ in the archive
+export const addPreviewsToZip = async (zip: JSZip, plan: ProjectManifest, options: PreviewOptions) => {
+  const folder = zip.folder('Previews');
+  if (!folder) throw new Error("Could not create previews folder.");
+  for (const asset of plan.assets.filter(isAnimated)) {
+    folder.file(getPreviewFilename(getAssetPreviewName(asset), options.format), await renderAssetPreview(asset, options));
+  }
+};
@@ -0,0 +1,81 @@
+import { AnimationTag, AnimationTiming, GameAsset, LoopMode } from "../types";
+
+/**
+ * ANIMATION TIMING
+ * Per-frame durations, loop mode and named tags of a strip, stored in
+ * `metadata.animation`. `getFrameAtTime` is the single playback rule used by
+ * the animation editor's preview and the playground, so both play a strip
+ * exactly as an engine importing the exported sheet data would.
+ */
+
+export const LOOP_MODES: LoopMode[] = ['loop', 'once', 'pingpong'];
+
+export const LOOP_MODE_LABELS: Record<LoopMode, string> = {
+  loop: 'LOOP',
+  once: 'ONCE',
+  pingpong: 'PING-PONG'
+};
+
+export const DEFAULT_FRAME_DURATION = 125; // 8 FPS
+
+export interface PlaybackRange {
+  from: number;
+  to: number;
+  loop: LoopMode;
+}
+
+/**
+ * Timing for `frames` frames: saved durations where there are some, the
+ * default for the rest, and tags clamped to the strip.
+ */
+export const fitAnimation = (animation: AnimationTiming | undefined, frames: number): AnimationTiming => {
+  const count = Math.max(1, frames);
+  return {
+    frameDurations: Array.from({ length: count }, (_, i) => animation?.frameDurations[i] ?? DEFAULT_FRAME_DURATION),
+    loop: animation?.loop ?? 'loop',
+    tags: (animation?.tags || [])
+      .filter(t => t.from < count)
+      .map(t => ({ ...t, to: Math.min(t.to, count - 1) }))
+  };
+};
+
+export const getAnimation = (asset: GameAsset): AnimationTiming =>
+  fitAnimation(asset.metadata?.animation, asset.metadata?.frames || 1);
+
+export const findTag = (animation: AnimationTiming, name: string): AnimationTag | undefined =>
+  animation.tags.find(t => t.name.toLowerCase() === name.toLowerCase());
+
+/**
+ * The frames to play: the whole strip, or a tag (with its own loop mode if it has one).
+ */
+export const getPlaybackRange = (animation: AnimationTiming, tag?: AnimationTag): PlaybackRange => tag
+  ? { from: tag.from, to: tag.to, loop: tag.loop ?? animation.loop }
+  : { from: 0, to: animation.frameDurations.length - 1, loop: animation.loop };
+
+// One cycle of frames. Ping-pong turns around without repeating the end frames.
+export const getSequence = ({ from, to, loop }: PlaybackRange): number[] => {
+  const forward = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  return loop === 'pingpong' ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+};
+
+/**
+ * The frame showing `elapsed` ms after the range started playing. A 'once'
+ * range holds its last frame and reports `finished`.
+ */
+export const getFrameAtTime = (animation: AnimationTiming, elapsed: number, range = getPlaybackRange(animation)) => {
+  const sequence = getSequence(range);
+  const durationOf = (frame: number) => animation.frameDurations[frame] ?? DEFAULT_FRAME_DURATION;
+  const cycle = sequence.reduce((sum, frame) => sum + durationOf(frame), 0);
+
+  if (range.loop === 'once' && elapsed >= cycle) return { frame: sequence[sequence.length - 1], finished: true };
+
+  let t = cycle > 0 ? Math.max(0, elapsed) % cycle : 0;
+  for (const frame of sequence) {
+    if (t < durationOf(frame)) return { frame, finished: false };
+    t -= durationOf(frame);
+  }
+  return { frame: sequence[sequence.length - 1], finished: false };
+};
+
+export const getTotalDuration = (animation: AnimationTiming, range = getPlaybackRange(animation)) =>
+  getSequence(range).reduce((sum, frame) => sum + (animation.frameDurations[frame] ?? DEFAULT_FRAME_DURATION), 0);
@@ -0,0 +1,378 @@
+import JSZip from 'jszip';
+import { AnimationTag, AnimationTiming, GameAsset, LoopMode, ProjectManifest } from "../types";
+import { getAnimation } from "./animationTiming";
+import { readImageData, imageDataToUrl } from "./imageData";
+import { hexToRgb, toPaletteIndices } from "./palette";
+
+/**
+ * ASEPRITE FILES
+ * Reads and writes the .aseprite / .ase binary format
+ * (https://github.com/aseprite/aseprite/blob/main/docs/ase-file-specs.md),
+ * so strips can round-trip through Aseprite:
+ * - Export: one layer, one cel per frame, frame durations and tags. With a
+ *   project palette the file is indexed (index 0 is transparent).
+ * - Import: every visible layer is flattened per frame and the frames are
+ *   laid side by side into a strip; durations and tags become the asset's
+ *   timing, so nothing has to be re-sliced.
+ * Cel pixels are zlib-compressed with the browser's (De)CompressionStream.
+ */
+
+const HEADER_MAGIC = 0xA5E0;
+const FRAME_MAGIC = 0xF1FA;
+const HEADER_SIZE = 128;
+const FRAME_HEADER_SIZE = 16;
+
+const CHUNK_OLD_PALETTE = 0x0004;
+const CHUNK_LAYER = 0x2004;
+const CHUNK_CEL = 0x2005;
+const CHUNK_TAGS = 0x2018;
+const CHUNK_PALETTE = 0x2019;
+
+const CEL_RAW = 0;
+const CEL_LINKED = 1;
+const CEL_COMPRESSED = 2;
+
+const LAYER_VISIBLE = 1;
+const LAYER_EDITABLE = 2;
+const LAYER_TYPE_GROUP = 1;
+
+// Tag directions, and how the loop modes map onto them
+const DIRECTION_FORWARD = 0;
+const DIRECTION_PINGPONG = 2;
+const DIRECTION_PINGPONG_REVERSE = 3;
+
+export interface AsepriteTag {
+  name: string;
+  from: number;
+  to: number;
+  loop: LoopMode;
+}
+
+export interface AsepriteDocument {
+  width: number;   // One frame
+  height: number;
+  frames: ImageData[];
+  durations: number[];
+  tags: AsepriteTag[];
+}
+
+const pipeBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+// --- WRITING ---
+
+// Little-endian byte writer; every field of the format is LE
+const createWriter = () => {
+  const out: number[] = [];
+  const writer = {
+    byte: (v: number) => { out.push(v & 0xff); return writer; },
+    word: (v: number) => { out.push(v & 0xff, (v >> 8) & 0xff); return writer; },
+    dword: (v: number) => { out.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff); return writer; },
+    zeros: (n: number) => { for (let i = 0; i < n; i++) out.push(0); return writer; },
+    bytes: (data: ArrayLike<number>) => { for (let i = 0; i < data.length; i++) out.push(data[i]); return writer; },
+    string: (s: string) => { const data = new TextEncoder().encode(s); writer.word(data.length); return writer.bytes(data); },
+    toBytes: () => Uint8Array.from(out)
+  };
+  return writer;
+};
+
+const chunk = (type: number, body: Uint8Array) =>
+  createWriter().dword(body.length + 6).word(type).bytes(body).toBytes();
+
+const toDirection = (loop: LoopMode) => loop === 'pingpong' ? DIRECTION_PINGPONG : DIRECTION_FORWARD;
+
+/**
+ * The tags to write. Aseprite has no loop mode for the whole file, so a
+ * non-looping strip gets a tag over all frames, named after the asset.
+ */
+const getExportTags = (asset: GameAsset, animation: AnimationTiming): AsepriteTag[] => {
+  const tags = animation.tags.map(t => ({ name: t.name, from: t.from, to: t.to, loop: t.loop ?? animation.loop }));
+  return animation.loop === 'loop'
+    ? tags
+    : [{ name: asset.name, from: 0, to: animation.frameDurations.length - 1, loop: animation.loop }, ...tags];
+};
+
+export const exportAseprite = async (asset: GameAsset, palette?: string[]): Promise<Blob> => {
+  const strip = await readImageData(asset.imageUrl!);
+  const frames = Math.max(1, asset.metadata?.frames || 1);
+  const width = Math.floor(strip.width / frames), height = strip.height;
+  const animation = getAnimation(asset);
+  // Indexed files hold up to 256 entries, one of which is the transparent index
+  const colors = palette && palette.length > 0 && palette.length < 256 ? palette.map(hexToRgb) : null;
+
+  const frameBlocks: Uint8Array[] = [];
+  for (let f = 0; f < frames; f++) {
+    const chunks: Uint8Array[] = [];
+
+    if (f === 0) {
+      if (colors) {
+        const body = createWriter().dword(colors.length + 1).dword(0).dword(colors.length).zeros(8);
+        body.word(0).byte(0).byte(0).byte(0).byte(0);
+        colors.forEach(([r, g, b]) => body.word(0).byte(r).byte(g).byte(b).byte(255));
+        chunks.push(chunk(CHUNK_PALETTE, body.toBytes()));
+      }
+      chunks.push(chunk(CHUNK_LAYER, createWriter()
+        .word(LAYER_VISIBLE | LAYER_EDITABLE).word(0).word(0).word(0).word(0).word(0)
+        .byte(255).zeros(3).string(asset.name).toBytes()));
+
+      const tags = getExportTags(asset, animation);
+      if (tags.length > 0) {
+        const body = createWriter().word(tags.length).zeros(8);
+        tags.forEach(t => body
+          .word(t.from).word(t.to).byte(toDirection(t.loop)).word(t.loop === 'once' ? 1 : 0)
+          .zeros(6).zeros(3).byte(0).string(t.name));
+        chunks.push(chunk(CHUNK_TAGS, body.toBytes()));
+      }
+    }
+
+    const frame = new ImageData(width, height);
+    for (let y = 0; y < height; y++) {
+      const start = (y * strip.width + f * width) * 4;
+      frame.data.set(strip.data.subarray(start, start + width * 4), y * width * 4);
+    }
+    const pixels = await pipeBytes(colors ? toPaletteIndices(frame, colors, 1) : new Uint8Array(frame.data.buffer), new CompressionStream('deflate'));
+    chunks.push(chunk(CHUNK_CEL, createWriter()
+      .word(0).word(0).word(0).byte(255).word(CEL_COMPRESSED).word(0).zeros(5)
+      .word(width).word(height).bytes(pixels).toBytes()));
+
+    const size = chunks.reduce((sum, c) => sum + c.length, FRAME_HEADER_SIZE);
+    const header = createWriter()
+      .dword(size).word(FRAME_MAGIC).word(Math.min(chunks.length, 0xffff))
+      .word(animation.frameDurations[f]).zeros(2).dword(chunks.length).toBytes();
+    frameBlocks.push(header, ...chunks);
+  }
+
+  const fileSize = frameBlocks.reduce((sum, b) => sum + b.length, HEADER_SIZE);
+  const header = createWriter()
+    .dword(fileSize).word(HEADER_MAGIC).word(frames).word(width).word(height)
+    .word(colors ? 8 : 32).dword(1).word(animation.frameDurations[0]).dword(0).dword(0)
+    .byte(0).zeros(3).word(colors ? colors.length + 1 : 0).byte(1).byte(1)
+    .word(0).word(0).word(16).word(16).zeros(84);
+
+  return new Blob([header.toBytes(), ...frameBlocks] as BlobPart[], { type: 'application/octet-stream' });
+};
+
+// --- READING ---
+
+interface Layer {
+  visible: boolean; // Including its parent groups
+  opacity: number;
+  isGroup: boolean;
+}
+
+interface Cel {
+  x: number;
+  y: number;
+  opacity: number;
+  zIndex: number;
+  width: number;
+  height: number;
+  pixels: Uint8Array; // In the file's colour depth
+}
+
+/**
+ * Parses a .aseprite file and flattens each frame. Throws on files that are
+ * not Aseprite documents.
+ */
+export const parseAseprite = async (buffer: ArrayBuffer): Promise<AsepriteDocument> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  if (buffer.byteLength < HEADER_SIZE || view.getUint16(4, true) !== HEADER_MAGIC) {
+    throw new Error("Not an Aseprite file.");
+  }
+  const frameCount = view.getUint16(6, true);
+  const width = view.getUint16(8, true);
+  const height = view.getUint16(10, true);
+  const depth = view.getUint16(12, true);
+  const layerOpacityValid = (view.getUint32(14, true) & 1) !== 0;
+  const transparentIndex = view.getUint8(28);
+  if (depth !== 32 && depth !== 16 && depth !== 8) throw new Error(`Unsupported colour depth: ${depth} bits.`);
+
+  const decoder = new TextDecoder();
+  const readString = (at: number) => {
+    const length = view.getUint16(at, true);
+    return { value: decoder.decode(bytes.subarray(at + 2, at + 2 + length)), end: at + 2 + length };
+  };
+
+  const layers: Layer[] = [];
+  const groupVisibility: boolean[] = []; // Per child level, while reading the layer list
+  const palette: number[][] = [];
+  let hasNewPalette = false;
+  const tags: AsepriteTag[] = [];
+  const durations: number[] = [];
+  const cels: Map<number, Cel>[] = [];
+
+  let offset = HEADER_SIZE;
+  for (let f = 0; f < frameCount; f++) {
+    const frameSize = view.getUint32(offset, true);
+    if (view.getUint16(offset + 4, true) !== FRAME_MAGIC) throw new Error(`Frame ${f + 1} is corrupt.`);
+    const oldChunks = view.getUint16(offset + 6, true);
+    const newChunks = view.getUint32(offset + 12, true);
+    durations.push(view.getUint16(offset + 8, true) || 100);
+    const frameCels = new Map<number, Cel>();
+    cels.push(frameCels);
+
+    let at = offset + FRAME_HEADER_SIZE;
+    const chunkCount = newChunks || oldChunks;
+    for (let c = 0; c < chunkCount; c++) {
+      const chunkSize = view.getUint32(at, true);
+      const type = view.getUint16(at + 4, true);
+      const data = at + 6;
+
+      if (type === CHUNK_LAYER) {
+        const flags = view.getUint16(data, true);
+        const layerType = view.getUint16(data + 2, true);
+        const level = view.getUint16(data + 4, true);
+        const parentVisible = level === 0 || groupVisibility[level - 1] !== false;
+        const visible = parentVisible && (flags & LAYER_VISIBLE) !== 0;
+        groupVisibility[level] = visible;
+        layers.push({
+          visible,
+          opacity: layerOpacityValid ? view.getUint8(data + 12) / 255 : 1,
+          isGroup: layerType === LAYER_TYPE_GROUP
+        });
+      } else if (type === CHUNK_CEL) {
+        const layer = view.getUint16(data, true);
+        const celType = view.getUint16(data + 7, true);
+        const base = {
+          x: view.getInt16(data + 2, true),
+          y: view.getInt16(data + 4, true),
+          opacity: view.getUint8(data + 6) / 255,
+          zIndex: view.getInt16(data + 9, true)
+        };
+        if (celType === CEL_LINKED) {
+          const linked = cels[view.getUint16(data + 16, true)]?.get(layer);
+          if (linked) frameCels.set(layer, { ...linked, ...base });
+        } else if (celType === CEL_RAW || celType === CEL_COMPRESSED) {
+          const celWidth = view.getUint16(data + 16, true);
+          const celHeight = view.getUint16(data + 18, true);
+          const raw = bytes.subarray(data + 20, at + chunkSize);
+          const pixels = celType === CEL_RAW ? raw : await pipeBytes(raw, new DecompressionStream('deflate'));
+          frameCels.set(layer, { ...base, width: celWidth, height: celHeight, pixels });
+        }
+        // Tilemap cels are not supported and are left out
+      } else if (type === CHUNK_PALETTE) {
+        hasNewPalette = true;
+        const first = view.getUint32(data + 4, true);
+        const last = view.getUint32(data + 8, true);
+        let entry = data + 20;
+        for (let i = first; i <= last; i++) {
+          const hasName = view.getUint16(entry, true) & 1;
+          palette[i] = [bytes[entry + 2], bytes[entry + 3], bytes[entry + 4], bytes[entry + 5]];
+          entry += 6;
+          if (hasName) entry = readString(entry).end;
+        }
+      } else if (type === CHUNK_OLD_PALETTE && !hasNewPalette) {
+        const packets = view.getUint16(data, true);
+        let entry = data + 2, index = 0;
+        for (let p = 0; p < packets; p++) {
+          index += bytes[entry];
+          const count = bytes[entry + 1] || 256;
+          entry += 2;
+          for (let i = 0; i < count; i++, entry += 3) palette[index++] = [bytes[entry], bytes[entry + 1], bytes[entry + 2], 255];
+        }
+      } else if (type === CHUNK_TAGS) {
+        const count = view.getUint16(data, true);
+        let entry = data + 10;
+        for (let t = 0; t < count; t++) {
+          const from = view.getUint16(entry, true);
+          const to = view.getUint16(entry + 2, true);
+          const direction = bytes[entry + 4];
+          const repeat = view.getUint16(entry + 5, true);
+          const name = readString(entry + 17);
+          const pingpong = direction === DIRECTION_PINGPONG || direction === DIRECTION_PINGPONG_REVERSE;
+          tags.push({ name: name.value, from, to, loop: pingpong ? 'pingpong' : repeat === 1 ? 'once' : 'loop' });
+          entry = name.end;
+        }
+      }
+      at += chunkSize;
+    }
+    offset += frameSize;
+  }
+
+  const readPixel = (pixels: Uint8Array, p: number): number[] => {
+    if (depth === 32) return [pixels[p * 4], pixels[p * 4 + 1], pixels[p * 4 + 2], pixels[p * 4 + 3]];
+    if (depth === 16) return [pixels[p * 2], pixels[p * 2], pixels[p * 2], pixels[p * 2 + 1]];
+    const index = pixels[p];
+    return index === transparentIndex ? [0, 0, 0, 0] : palette[index] ?? [0, 0, 0, 0];
+  };
+
+  // Normal blending, bottom layer first (z-index moves a cel up or down the stack)
+  const frames = cels.map(frameCels => {
+    const image = new ImageData(width, height);
+    const order = [...frameCels.entries()]
+      .filter(([layer]) => layers[layer]?.visible && !layers[layer].isGroup)
+      .sort(([a, celA], [b, celB]) => (a + celA.zIndex) - (b + celB.zIndex) || celA.zIndex - celB.zIndex);
+
+    order.forEach(([layer, cel]) => {
+      const opacity = cel.opacity * layers[layer].opacity;
+      for (let cy = 0; cy < cel.height; cy++) {
+        const y = cel.y + cy;
+        if (y < 0 || y >= height) continue;
+        for (let cx = 0; cx < cel.width; cx++) {
+          const x = cel.x + cx;
+          if (x < 0 || x >= width) continue;
+          const [r, g, b, a] = readPixel(cel.pixels, cy * cel.width + cx);
+          const srcA = (a / 255) * opacity;
+          if (srcA <= 0) continue;
+          const i = (y * width + x) * 4;
+          const dstA = image.data[i + 3] / 255;
+          const outA = srcA + dstA * (1 - srcA);
+          image.data[i] = Math.round((r * srcA + image.data[i] * dstA * (1 - srcA)) / outA);
+          image.data[i + 1] = Math.round((g * srcA + image.data[i + 1] * dstA * (1 - srcA)) / outA);
+          image.data[i + 2] = Math.round((b * srcA + image.data[i + 2] * dstA * (1 - srcA)) / outA);
+          image.data[i + 3] = Math.round(outA * 255);
+        }
+      }
+    });
+    return image;
+  });
+
+  return { width, height, frames, durations, tags };
+};
+
+/**
+ * The strip and timing an imported document gives `asset`. A tag over all
+ * frames named after the asset (written by exportAseprite for non-looping
+ * strips) becomes the strip's loop mode again.
+ */
+export const asepriteToStrip = (doc: AsepriteDocument, asset: GameAsset) => {
+  const strip = new ImageData(doc.width * doc.frames.length, doc.height);
+  doc.frames.forEach((frame, f) => {
+    for (let y = 0; y < doc.height; y++) {
+      strip.data.set(frame.data.subarray(y * doc.width * 4, (y + 1) * doc.width * 4), (y * strip.width + f * doc.width) * 4);
+    }
+  });
+
+  const last = doc.frames.length - 1;
+  const whole = doc.tags.find(t => t.from === 0 && t.to === last && t.name === asset.name);
+  const loop = whole?.loop ?? 'loop';
+  const tags: AnimationTag[] = doc.tags
+    .filter(t => t !== whole)
+    .map(t => ({ name: t.name, from: Math.min(t.from, last), to: Math.min(t.to, last), ...(t.loop !== loop ? { loop: t.loop } : {}) }));
+
+  return {
+    imageUrl: imageDataToUrl(strip),
+    frames: doc.frames.length,
+    width: strip.width,
+    height: strip.height,
+    animation: { frameDurations: doc.durations, loop, tags } as AnimationTiming
+  };
+};
+
+export const getAsepriteFilename = (asset: GameAsset) => asset.filename.replace(/\.[^.]+$/, '') + '.aseprite';
+
+/**
+ * Every animated asset of the project as an .aseprite file, by category folder.
+ */
+export const buildAsepriteZip = async (plan: ProjectManifest): Promise<JSZip> => {
+  const zip = new JSZip();
+  const root = zip.folder(`${plan.theme.replace(/\s+/g, '_')}_Aseprite`);
+  if (!root) throw new Error("Could not create project folder.");
+
+  for (const asset of plan.assets) {
+    if (!asset.imageUrl || (asset.metadata?.frames || 1) < 2) continue;
+    root.folder(asset.category)?.file(getAsepriteFilename(asset), await exportAseprite(asset, plan.palette?.colors));
+  }
+  return zip;
+};
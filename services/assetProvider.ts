@@ -0,0 +1,145 @@
+import { ProjectManifest, GameAsset } from "../types";
+import { CURRENT_SCHEMA_VERSION, dropUnsetSize, parseManifest } from "./manifestSchema";
+
+/**
+ * Images a generation should be conditioned on.
+ */
+export interface ImageReferences {
+  group?: string; // Design reference: the group's master concept (same entity, different pose)
+  style?: string; // Style reference: project palette and rendering only
+}
+
+/**
+ * A backend capable of driving the whole pipeline: planning the manifest,
+ * generating asset images and editing them. The Gemini adapter is one
+ * implementation; the offline mock is another.
+ * Image methods must reject with a GenerationError (see generationErrors.ts)
+ * instead of returning placeholders.
+ */
+export interface AssetProvider {
+  id: string;
+  label: string;
+  generateProjectPlan: (userPrompt: string) => Promise<ProjectManifest>;
+  // `variant` distinguishes several candidates requested for the same asset; each should differ
+  generateAssetImage: (asset: GameAsset, palette: string, references?: ImageReferences, variant?: number) => Promise<string>;
+  // `maskUrl` (white = editable, same size as the image) limits the edit to a region; see inpainting.ts
+  editAssetImage: (currentImageUrl: string, userInstruction: string, originalDescription: string, maskUrl?: string) => Promise<string>;
+}
+
+const registry = new Map<string, AssetProvider>();
+const STORAGE_KEY = 'cerebro.provider';
+
+export const registerProvider = (provider: AssetProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const listProviders = (): AssetProvider[] => Array.from(registry.values());
+
+/**
+ * Resolves the provider to use, in order of precedence:
+ * 1. The choice saved from the UI (localStorage)
+ * 2. ASSET_PROVIDER from the environment (e.g. "mock" in CI)
+ * 3. Gemini when an API key is configured, otherwise the offline mock
+ */
+const resolveDefaultProviderId = (): string => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (saved && registry.has(saved)) return saved;
+  } catch {
+    // Storage may be unavailable (private mode, sandboxed iframe)
+  }
+  const fromEnv = process.env.ASSET_PROVIDER;
+  if (fromEnv && registry.has(fromEnv)) return fromEnv;
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+let activeProviderId: string | null = null;
+
+export const getProvider = (): AssetProvider => {
+  if (!activeProviderId || !registry.has(activeProviderId)) {
+    activeProviderId = resolveDefaultProviderId();
+  }
+  const provider = registry.get(activeProviderId);
+  if (!provider) {
+    throw new Error(`No asset provider registered for "${activeProviderId}".`);
+  }
+  return provider;
+};
+
+export const setProvider = (id: string) => {
+  if (!registry.has(id)) {
+    throw new Error(`Unknown asset provider "${id}".`);
+  }
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Non-fatal: the choice just won't survive a reload
+  }
+};
+
+/**
+ * Shared post-processing for raw plans coming out of any provider:
+ * fills in the pending status, extracts frame counts from
+ * filenames like "_strip8" when the metadata is incomplete,
+ * drops sizes left at 0, then validates the result against
+ * the manifest schema.
+ */
+export const normalizePlan = (data: any): ProjectManifest => {
+  if (!data || !Array.isArray(data.assets)) {
+    return parseManifest(data, 'Generated plan');
+  }
+
+  const assetsWithStatus = data.assets.map((a: any) => {
+    let frames = a?.metadata?.frames || 1;
+
+    // Try to extract frames from filename like "_strip8"
+    const stripMatch = typeof a?.filename === 'string' ? a.filename.match(/strip(\d+)/i) : null;
+    if (stripMatch && stripMatch[1]) {
+        frames = parseInt(stripMatch[1], 10);
+    }
+
+    return {
+        ...a,
+        status: 'pending',
+        metadata: dropUnsetSize({
+            ...a?.metadata,
+            frames: frames
+        })
+    };
+  });
+
+  return parseManifest({
+    ...data,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    assets: assetsWithStatus
+  }, 'Generated plan');
+};
+
+/**
+ * Splits a data URL into the pieces the multimodal APIs expect.
+ */
+export const parseDataUrl = (dataUrl: string): { mimeType: string, data: string } => ({
+  mimeType: dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';')),
+  data: dataUrl.split(',')[1]
+});
+
+/**
+ * Requests `count` candidates for the same asset in parallel. Individual
+ * failures don't sink the batch; they're returned alongside the successes.
+ */
+export const generateCandidates = async (
+  provider: AssetProvider,
+  asset: GameAsset,
+  palette: string,
+  references: ImageReferences,
+  count: number
+): Promise<{ candidates: string[], failures: unknown[] }> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, i) => provider.generateAssetImage(asset, palette, references, i))
+  );
+  return {
+    candidates: results.filter((r): r is PromiseFulfilledResult<string> => r.status === 'fulfilled').map(r => r.value),
+    failures: results.filter((r): r is PromiseRejectedResult => r.status === 'rejected').map(r => r.reason)
+  };
+};
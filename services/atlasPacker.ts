@@ -0,0 +1,285 @@
+import { GameAsset } from "../types";
+import { readImageData, imageDataToUrl } from "./imageData";
+import { getAnimation } from "./animationTiming";
+import { fitFrameData, getPivot } from "./frameData";
+import { getFrameName } from "./sheetData";
+import { getCategoryFolder } from "./projectArchive";
+import { cropImage } from "./frameSlicer";
+
+/**
+ * TEXTURE ATLAS
+ * Packs the individual frames of many assets into one texture with the
+ * MaxRects algorithm (bottom-left rule), and describes it in TexturePacker's
+ * JSON hash or array layout, which Phaser and PixiJS load directly. Frames
+ * can be trimmed to their opaque pixels (the JSON keeps the original size and
+ * offset), padded apart and extruded, so filtering and sub-pixel cameras
+ * never sample a neighbour. Frames are keyed as in the sheet data; when
+ * assets in different category folders share a filename, their keys get
+ * the folder in front ("Characters/slime_0") so neither overwrites the other.
+ */
+
+export type AtlasFormat = 'hash' | 'array';
+
+export interface AtlasOptions {
+  padding: number;   // Transparent pixels between frames
+  extrude: number;   // Edge pixels repeated around each frame
+  trim: boolean;     // Pack only each frame's opaque bounds
+  powerOfTwo: boolean;
+  maxSize: number;   // Largest texture side
+  format: AtlasFormat;
+}
+
+export const DEFAULT_ATLAS_OPTIONS: AtlasOptions = {
+  padding: 2,
+  extrude: 0,
+  trim: true,
+  powerOfTwo: false,
+  maxSize: 4096,
+  format: 'hash'
+};
+
+export const ATLAS_MAX_SIZES = [512, 1024, 2048, 4096, 8192];
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One frame cut out of a strip, before packing
+interface AtlasSprite {
+  name: string;
+  image: ImageData;
+  trimmed: boolean;
+  offset: { x: number; y: number };         // Where the (trimmed) image sits in the frame
+  sourceSize: { w: number; h: number };
+  pivot: { x: number; y: number };          // Normalized to the source size
+  duration: number;
+}
+
+export interface Atlas {
+  imageUrl: string;
+  width: number;
+  height: number;
+  frameCount: number;
+  occupancy: number; // Share of the texture covered by frames (0-1)
+  data: object;      // The TexturePacker JSON
+}
+
+// --- MAXRECTS ---
+
+const contains = (a: Rect, b: Rect) =>
+  b.x >= a.x && b.y >= a.y && b.x + b.width <= a.x + a.width && b.y + b.height <= a.y + a.height;
+
+const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// The parts of `free` not covered by `used` (up to four overlapping maximal rectangles)
+const splitFree = (free: Rect, used: Rect): Rect[] => {
+  if (!intersects(free, used)) return [free];
+  const parts: Rect[] = [];
+  if (used.x > free.x) parts.push({ ...free, width: used.x - free.x });
+  if (used.x + used.width < free.x + free.width) {
+    parts.push({ ...free, x: used.x + used.width, width: free.x + free.width - used.x - used.width });
+  }
+  if (used.y > free.y) parts.push({ ...free, height: used.y - free.y });
+  if (used.y + used.height < free.y + free.height) {
+    parts.push({ ...free, y: used.y + used.height, height: free.y + free.height - used.y - used.height });
+  }
+  return parts;
+};
+
+/**
+ * Places every size in a bin of the given size, largest first. Returns the
+ * positions in input order, or null when something does not fit.
+ */
+export const packMaxRects = (sizes: { width: number; height: number }[], binWidth: number, binHeight: number): Rect[] | null => {
+  let free: Rect[] = [{ x: 0, y: 0, width: binWidth, height: binHeight }];
+  const placed: Rect[] = new Array(sizes.length);
+  const order = sizes.map((_, i) => i).sort((a, b) =>
+    Math.max(sizes[b].width, sizes[b].height) - Math.max(sizes[a].width, sizes[a].height) ||
+    sizes[b].width * sizes[b].height - sizes[a].width * sizes[a].height);
+
+  for (const i of order) {
+    const { width, height } = sizes[i];
+    let best: Rect | null = null;
+    for (const f of free) {
+      if (width > f.width || height > f.height) continue;
+      if (!best || f.y < best.y || (f.y === best.y && f.x < best.x)) best = { x: f.x, y: f.y, width, height };
+    }
+    if (!best) return null;
+    placed[i] = best;
+
+    const used = best;
+    free = free.flatMap(f => splitFree(f, used));
+    free = free.filter((f, a) => !free.some((g, b) => a !== b && contains(g, f) && (!contains(f, g) || b < a)));
+  }
+  return placed;
+};
+
+const nextPowerOfTwo = (n: number) => 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+
+/**
+ * The smallest texture holding all the sizes: a few widths are tried with an
+ * unbounded height and the packing with the least area wins.
+ */
+const packSmallest = (sizes: { width: number; height: number }[], options: AtlasOptions) => {
+  const widest = Math.max(...sizes.map(s => s.width));
+  const tallest = Math.max(...sizes.map(s => s.height));
+  // Padding after the last column/row is not needed, so the bin may overhang by it
+  const slack = options.padding;
+  if (widest - slack > options.maxSize || tallest - slack > options.maxSize) return null;
+
+  const area = sizes.reduce((sum, s) => sum + s.width * s.height, 0);
+  const widths = new Set<number>();
+  if (options.powerOfTwo) {
+    for (let w = nextPowerOfTwo(widest - slack); w <= options.maxSize; w *= 2) widths.add(w);
+  } else {
+    [1, 1.15, 1.3, 1.6, 2].forEach(k => widths.add(Math.min(options.maxSize, Math.max(widest - slack, Math.ceil(Math.sqrt(area) * k)))));
+    widths.add(options.maxSize);
+  }
+
+  let best: { width: number; height: number; rects: Rect[] } | null = null;
+  widths.forEach(w => {
+    const rects = packMaxRects(sizes, w + slack, options.maxSize + slack);
+    if (!rects) return;
+    const usedWidth = Math.max(...rects.map(r => r.x + r.width)) - slack;
+    const usedHeight = Math.max(...rects.map(r => r.y + r.height)) - slack;
+    const width = options.powerOfTwo ? nextPowerOfTwo(usedWidth) : usedWidth;
+    const height = options.powerOfTwo ? nextPowerOfTwo(usedHeight) : usedHeight;
+    if (height > options.maxSize) return;
+    if (!best || width * height < best.width * best.height ||
+        (width * height === best.width * best.height && Math.abs(width - height) < Math.abs(best.width - best.height))) {
+      best = { width, height, rects };
+    }
+  });
+  return best as { width: number; height: number; rects: Rect[] } | null;
+};
+
+// --- FRAMES ---
+
+const opaqueBounds = (image: ImageData): Rect | null => {
+  let left = image.width, top = image.height, right = -1, bottom = -1;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[(y * image.width + x) * 4 + 3] === 0) continue;
+      left = Math.min(left, x); right = Math.max(right, x);
+      top = Math.min(top, y); bottom = Math.max(bottom, y);
+    }
+  }
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+// "" or "<folder>/" per asset, see the header
+const getKeyPrefixes = (assets: GameAsset[]) => {
+  const folders = new Map<string, Set<string>>();
+  assets.forEach(a => folders.set(a.filename, (folders.get(a.filename) || new Set<string>()).add(getCategoryFolder(a))));
+  return new Map(assets.map(a => [a, folders.get(a.filename)!.size > 1 ? `${getCategoryFolder(a)}/` : '']));
+};
+
+const getSprites = async (asset: GameAsset, prefix: string, trim: boolean): Promise<AtlasSprite[]> => {
+  const strip = await readImageData(asset.imageUrl!);
+  const frames = Math.max(1, asset.metadata?.frames || 1);
+  const frameWidth = Math.floor(strip.width / frames);
+  const animation = getAnimation(asset);
+  const frameData = fitFrameData(asset.metadata?.frameData, frames);
+
+  return frameData.map((data, i) => {
+    const full = cropImage(strip, { x: i * frameWidth, y: 0, width: frameWidth, height: strip.height });
+    // Empty frames still need an entry, so they keep a single transparent pixel
+    const bounds = trim ? opaqueBounds(full) ?? { x: 0, y: 0, width: 1, height: 1 } : null;
+    const trimmed = !!bounds && (bounds.width !== frameWidth || bounds.height !== strip.height);
+    const pivot = getPivot(data, frameWidth, strip.height);
+    return {
+      name: prefix + getFrameName(asset, i),
+      image: trimmed ? cropImage(full, bounds!) : full,
+      trimmed,
+      offset: trimmed ? { x: bounds!.x, y: bounds!.y } : { x: 0, y: 0 },
+      sourceSize: { w: frameWidth, h: strip.height },
+      pivot: { x: +(pivot.x / frameWidth).toFixed(4), y: +(pivot.y / strip.height).toFixed(4) },
+      duration: animation.frameDurations[i]
+    };
+  });
+};
+
+// Copies `image` to (x, y) of the atlas, repeating its edge pixels `extrude` times around it
+export const blit = (atlas: ImageData, image: ImageData, x: number, y: number, extrude: number) => {
+  for (let dy = -extrude; dy < image.height + extrude; dy++) {
+    const sy = Math.min(image.height - 1, Math.max(0, dy));
+    for (let dx = -extrude; dx < image.width + extrude; dx++) {
+      const sx = Math.min(image.width - 1, Math.max(0, dx));
+      const src = (sy * image.width + sx) * 4;
+      atlas.data.set(image.data.subarray(src, src + 4), ((y + dy) * atlas.width + x + dx) * 4);
+    }
+  }
+};
+
+// Pixi reads `animations` (frame names per clip); the whole strip plus one per tag
+const getAnimations = (assets: GameAsset[], prefixes: Map<GameAsset, string>) => {
+  const animations: Record<string, string[]> = {};
+  assets.forEach(asset => {
+    const frames = asset.metadata?.frames || 1;
+    if (frames < 2) return;
+    const base = prefixes.get(asset) + asset.filename.replace(/\.[^.]+$/, '');
+    const names = Array.from({ length: frames }, (_, i) => prefixes.get(asset) + getFrameName(asset, i));
+    animations[base] = names;
+    getAnimation(asset).tags.forEach(tag => { animations[`${base}_${tag.name}`] = names.slice(tag.from, tag.to + 1); });
+  });
+  return animations;
+};
+
+/**
+ * Packs every frame of the (generated) assets into one texture named
+ * `imageName`. Throws when a frame does not fit `options.maxSize`.
+ */
+export const buildAtlas = async (assets: GameAsset[], imageName: string, options: AtlasOptions): Promise<Atlas> => {
+  const withImages = assets.filter(a => a.imageUrl);
+  const prefixes = getKeyPrefixes(withImages);
+  const sprites = (await Promise.all(withImages.map(a => getSprites(a, prefixes.get(a)!, options.trim)))).flat();
+  if (sprites.length === 0) throw new Error("There are no generated frames to pack.");
+
+  const margin = options.extrude * 2 + options.padding;
+  const packed = packSmallest(sprites.map(s => ({ width: s.image.width + margin, height: s.image.height + margin })), options);
+  if (!packed) throw new Error(`The frames do not fit in a ${options.maxSize}x${options.maxSize} texture.`);
+
+  const atlas = new ImageData(packed.width, packed.height);
+  const frames = sprites.map((sprite, i) => {
+    const x = packed.rects[i].x + options.extrude;
+    const y = packed.rects[i].y + options.extrude;
+    blit(atlas, sprite.image, x, y, options.extrude);
+    return {
+      filename: sprite.name,
+      frame: { x, y, w: sprite.image.width, h: sprite.image.height },
+      rotated: false,
+      trimmed: sprite.trimmed,
+      spriteSourceSize: { x: sprite.offset.x, y: sprite.offset.y, w: sprite.image.width, h: sprite.image.height },
+      sourceSize: sprite.sourceSize,
+      pivot: sprite.pivot,
+      duration: sprite.duration
+    };
+  });
+
+  const covered = sprites.reduce((sum, s) => sum + s.image.width * s.image.height, 0);
+  return {
+    imageUrl: imageDataToUrl(atlas),
+    width: packed.width,
+    height: packed.height,
+    frameCount: sprites.length,
+    occupancy: covered / (packed.width * packed.height),
+    data: {
+      frames: options.format === 'hash'
+        ? Object.fromEntries(frames.map(({ filename, ...frame }) => [filename, frame]))
+        : frames,
+      animations: getAnimations(withImages, prefixes),
+      meta: {
+        app: 'O Cérebro do Sistema',
+        version: '1.0',
+        image: imageName,
+        format: 'RGBA8888',
+        size: { w: packed.width, h: packed.height },
+        scale: '1'
+      }
+    }
+  };
+};
@@ -0,0 +1,65 @@
+import JSZip from 'jszip';
+import { ProjectManifest } from "../types";
+import { buildProjectZip } from "./projectArchive";
+import { buildGodotZip } from "./godotExport";
+import { buildUnityZip } from "./unityExport";
+import { buildAsepriteZip } from "./aseprite";
+import { buildTiledZip } from "./tiledExport";
+
+/**
+ * EXPORT TARGETS
+ * The layouts a project can be downloaded in. Each target builds a ZIP from
+ * the ProjectManifest; the generic archive is the only one that can be
+ * opened again (see projectArchive.ts).
+ */
+
+export interface ExportTarget {
+  id: string;
+  label: string;
+  description: string;
+  filenameSuffix: string; // "<Theme>_<suffix>.zip"
+  writesMissingReport?: boolean; // Lists the assets that were never generated (Missing_Assets.md)
+  build: (plan: ProjectManifest) => Promise<JSZip>;
+}
+
+export const EXPORT_TARGETS: ExportTarget[] = [
+  {
+    id: 'archive',
+    label: 'PNG + JSON',
+    description: 'Images, sheet data and the manifest. Can be opened again.',
+    filenameSuffix: 'Assets',
+    writesMissingReport: true,
+    build: buildProjectZip
+  },
+  {
+    id: 'godot',
+    label: 'GODOT 4',
+    description: 'Project folder with SpriteFrames, TileSets and pixel-perfect import settings.',
+    filenameSuffix: 'Godot',
+    build: buildGodotZip
+  },
+  {
+    id: 'unity',
+    label: 'UNITY',
+    description: 'Sliced sprites (.meta), animation clips and an Animator Controller per group.',
+    filenameSuffix: 'Unity',
+    build: buildUnityZip
+  },
+  {
+    id: 'aseprite',
+    label: 'ASEPRITE',
+    description: 'Every animated strip as an .aseprite file with frames, tags and durations.',
+    filenameSuffix: 'Aseprite',
+    build: buildAsepriteZip
+  },
+  {
+    id: 'tiled',
+    label: 'TILED',
+    description: 'Environment tiles as a tileset (.tsx) with collision properties, and a sample map (.tmx).',
+    filenameSuffix: 'Tiled',
+    build: buildTiledZip
+  }
+];
+
+export const getExportTarget = (id: string): ExportTarget =>
+  EXPORT_TARGETS.find(t => t.id === id) ?? EXPORT_TARGETS[0];
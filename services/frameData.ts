@@ -0,0 +1,81 @@
+import { FrameBox, FrameBoxKind, FrameData } from "../types";
+
+/**
+ * FRAME DATA
+ * Per-frame anchor points and collision boxes of an animation strip, stored
+ * in `metadata.frameData` (one entry per frame, in frame pixels). Boxes are
+ * matched across frames by name, which is what copying and interpolation key on.
+ */
+
+export const FRAME_BOX_KINDS: FrameBoxKind[] = ['hitbox', 'hurtbox', 'custom'];
+
+// Overlay colours, shared by the editor and the playground's debug view
+export const FRAME_BOX_COLORS: Record<FrameBoxKind, string> = {
+  hitbox: '#ff3b3b',
+  hurtbox: '#33ff00',
+  custom: '#3bb0ff'
+};
+
+export const emptyFrameData = (): FrameData => ({ boxes: [] });
+
+/**
+ * Pads or trims the list to `frames` entries. Frame data saved for a strip
+ * that was regenerated with another frame count still lines up from frame 1.
+ */
+export const fitFrameData = (frameData: FrameData[] | undefined, frames: number): FrameData[] =>
+  Array.from({ length: Math.max(1, frames) }, (_, i) => frameData?.[i] ?? emptyFrameData());
+
+export const getPivot = (data: FrameData | undefined, frameWidth: number, frameHeight: number) =>
+  data?.pivot ?? { x: Math.round(frameWidth / 2), y: frameHeight };
+
+export const findBox = (data: FrameData | undefined, kind: FrameBoxKind): FrameBox | undefined =>
+  data?.boxes.find(b => b.kind === kind);
+
+export const copyToAllFrames = (frameData: FrameData[], from: number): FrameData[] =>
+  frameData.map(() => ({
+    pivot: frameData[from].pivot ? { ...frameData[from].pivot! } : undefined,
+    boxes: frameData[from].boxes.map(b => ({ ...b }))
+  }));
+
+const lerp = (a: number, b: number, t: number) => Math.round(a + (b - a) * t);
+
+/**
+ * Fills the frames strictly between `from` and `to` by linear interpolation
+ * of the two keyframes. Only boxes present (by name) in both keyframes are
+ * interpolated; the in-between frames' own boxes of other names are kept.
+ */
+export const interpolateFrames = (frameData: FrameData[], from: number, to: number): FrameData[] => {
+  const [start, end] = from < to ? [from, to] : [to, from];
+  const a = frameData[start], b = frameData[end];
+  if (!a || !b || end - start < 2) return frameData;
+
+  const shared = a.boxes.filter(box => b.boxes.some(other => other.name === box.name));
+  return frameData.map((frame, i) => {
+    if (i <= start || i >= end) return frame;
+    const t = (i - start) / (end - start);
+    const boxes = shared.map(box => {
+      const other = b.boxes.find(o => o.name === box.name)!;
+      return {
+        ...box,
+        x: lerp(box.x, other.x, t),
+        y: lerp(box.y, other.y, t),
+        width: Math.max(1, lerp(box.width, other.width, t)),
+        height: Math.max(1, lerp(box.height, other.height, t))
+      };
+    });
+    return {
+      pivot: a.pivot && b.pivot ? { x: lerp(a.pivot.x, b.pivot.x, t), y: lerp(a.pivot.y, b.pivot.y, t) } : frame.pivot,
+      boxes: [...frame.boxes.filter(box => !shared.some(s => s.name === box.name)), ...boxes]
+    };
+  });
+};
+
+/**
+ * A name not used by any box of the frame yet: "hitbox", "hitbox_2", ...
+ */
+export const nextBoxName = (data: FrameData, kind: FrameBoxKind) => {
+  const base = kind === 'custom' ? 'box' : kind;
+  let name = base, n = 1;
+  while (data.boxes.some(b => b.name === name)) name = `${base}_${++n}`;
+  return name;
+};
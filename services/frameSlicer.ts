@@ -0,0 +1,217 @@
+/**
+ * FRAME SLICER
+ * Generated strips rarely have uniform spacing, or the frame count the
+ * filename promised. Frames are found as groups of connected sprite pixels
+ * separated by empty columns, then normalized into a uniform strip: every
+ * frame in a cell of the same size, centered, at the height it had in the
+ * sheet (so jumps and falls keep their vertical motion).
+ */
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SliceResult {
+  strip: ImageData;
+  frames: number;
+  cellWidth: number;
+  cellHeight: number;
+}
+
+const OPAQUE = 32; // Alpha above which a pixel belongs to the sprite
+const MINOR_COMPONENT = 0.05; // Components smaller than this share of the largest are details (sparks, dust), not frames
+const SPLIT_FACTOR = 1.6; // A frame this many times wider than the median is several frames touching
+
+export const uniformSlices = (width: number, height: number, count: number): FrameRect[] => {
+  const frameWidth = Math.floor(width / Math.max(1, count));
+  return Array.from({ length: Math.max(1, count) }, (_, i) => ({ x: i * frameWidth, y: 0, width: frameWidth, height }));
+};
+
+interface Component {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  pixels: number;
+}
+
+// 8-connected components of sprite pixels
+const findComponents = (image: ImageData): Component[] => {
+  const { data, width, height } = image;
+  const labels = new Int32Array(width * height).fill(-1);
+  const components: Component[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < width * height; start++) {
+    if (labels[start] !== -1 || data[start * 4 + 3] <= OPAQUE) continue;
+    const component: Component = { minX: width, maxX: 0, minY: height, maxY: 0, pixels: 0 };
+    labels[start] = components.length;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      component.pixels++;
+      component.minX = Math.min(component.minX, x);
+      component.maxX = Math.max(component.maxX, x);
+      component.minY = Math.min(component.minY, y);
+      component.maxY = Math.max(component.maxY, y);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const q = ny * width + nx;
+          if (labels[q] === -1 && data[q * 4 + 3] > OPAQUE) {
+            labels[q] = components.length;
+            stack.push(q);
+          }
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+};
+
+const toRect = (c: Component): FrameRect => ({ x: c.minX, y: c.minY, width: c.maxX - c.minX + 1, height: c.maxY - c.minY + 1 });
+
+const union = (a: FrameRect, b: FrameRect): FrameRect => {
+  const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+/**
+ * Finds the frames of a horizontal strip. Needs a transparent background.
+ * With `expected`, frames separated by the smallest gaps are merged (or wide
+ * ones split) to get closer to that count. Returns [] if the image is empty.
+ */
+export const detectFrames = (image: ImageData, expected?: number): FrameRect[] => {
+  const components = findComponents(image);
+  if (components.length === 0) return [];
+
+  // Small details join the closest big component instead of becoming frames
+  const largest = Math.max(...components.map(c => c.pixels));
+  const major = components.filter(c => c.pixels >= largest * MINOR_COMPONENT).map(toRect);
+  components.filter(c => c.pixels < largest * MINOR_COMPONENT).forEach(c => {
+    const rect = toRect(c);
+    const center = rect.x + rect.width / 2;
+    let closest = 0;
+    major.forEach((m, i) => {
+      if (Math.abs(m.x + m.width / 2 - center) < Math.abs(major[closest].x + major[closest].width / 2 - center)) closest = i;
+    });
+    major[closest] = union(major[closest], rect);
+  });
+
+  // Anything overlapping horizontally is the same frame (e.g. a detached weapon above a hand)
+  major.sort((a, b) => a.x - b.x);
+  let frames: FrameRect[] = [];
+  major.forEach(rect => {
+    const last = frames[frames.length - 1];
+    if (last && rect.x <= last.x + last.width) frames[frames.length - 1] = union(last, rect);
+    else frames.push(rect);
+  });
+
+  // Frames that touch come out as one wide frame: split them by the typical frame width
+  const widths = frames.map(f => f.width).sort((a, b) => a - b);
+  const median = widths[Math.floor(widths.length / 2)];
+  frames = frames.flatMap(f => {
+    const parts = f.width >= median * SPLIT_FACTOR ? Math.round(f.width / median) : 1;
+    return parts > 1 ? uniformSlices(f.width, f.height, parts).map(s => ({ ...s, x: f.x + s.x, y: f.y })) : [f];
+  });
+
+  if (expected && expected > 0) {
+    while (frames.length > expected) {
+      let smallest = 0;
+      for (let i = 1; i < frames.length - 1; i++) {
+        const gap = frames[i + 1].x - (frames[i].x + frames[i].width);
+        if (gap < frames[smallest + 1].x - (frames[smallest].x + frames[smallest].width)) smallest = i;
+      }
+      frames.splice(smallest, 2, union(frames[smallest], frames[smallest + 1]));
+    }
+  }
+  return frames;
+};
+
+/**
+ * True when slicing into `count` equal cells does not cut through any frame,
+ * i.e. the strip is already uniform and should be left as it is.
+ */
+export const isUniformStrip = (image: ImageData, count: number): boolean => {
+  const frames = detectFrames(image);
+  if (frames.length !== count) return false;
+  const cellWidth = image.width / count;
+  return frames.every((f, i) => f.x >= i * cellWidth && f.x + f.width <= (i + 1) * cellWidth);
+};
+
+/**
+ * Copies each rect into a cell of the common size: centered horizontally,
+ * keeping its vertical offset in the sheet, `padding` pixels of margin
+ * around. The cells span from the highest rect top to the lowest bottom.
+ */
+export const normalizeFrames = (image: ImageData, rects: FrameRect[], padding = 1): SliceResult => {
+  const top = rects.length > 0 ? Math.min(...rects.map(r => r.y)) : 0;
+  const bottom = rects.length > 0 ? Math.max(...rects.map(r => r.y + r.height)) : 0;
+  const cellWidth = Math.max(1, ...rects.map(r => r.width)) + padding * 2;
+  const cellHeight = Math.max(1, bottom - top) + padding * 2;
+  const strip = new ImageData(cellWidth * Math.max(1, rects.length), cellHeight);
+
+  rects.forEach((rect, i) => {
+    const offsetX = i * cellWidth + Math.floor((cellWidth - rect.width) / 2);
+    const offsetY = padding + rect.y - top;
+    for (let y = 0; y < rect.height; y++) {
+      for (let x = 0; x < rect.width; x++) {
+        const sx = rect.x + x, sy = rect.y + y;
+        if (sx < 0 || sy < 0 || sx >= image.width || sy >= image.height) continue;
+        const from = (sy * image.width + sx) * 4;
+        const to = ((offsetY + y) * strip.width + offsetX + x) * 4;
+        strip.data[to] = image.data[from];
+        strip.data[to + 1] = image.data[from + 1];
+        strip.data[to + 2] = image.data[from + 2];
+        strip.data[to + 3] = image.data[from + 3];
+      }
+    }
+  });
+
+  return { strip, frames: Math.max(1, rects.length), cellWidth, cellHeight };
+};
+
+/**
+ * Detects and normalizes the frames of a strip, unless it already is uniform
+ * with the expected count. Returns null when there is nothing to change.
+ */
+export const sliceStrip = (image: ImageData, expected: number): SliceResult | null => {
+  if (isUniformStrip(image, expected)) return null;
+  const rects = detectFrames(image, expected);
+  return rects.length > 0 ? normalizeFrames(image, rects) : null;
+};
+
+/**
+ * The rects to start editing a strip from: its uniform cells when it already
+ * is uniform, the detected frames otherwise.
+ */
+export const initialSlices = (image: ImageData, expected: number): { rects: FrameRect[]; detected: boolean } => {
+  if (isUniformStrip(image, expected)) return { rects: uniformSlices(image.width, image.height, expected), detected: false };
+  const rects = detectFrames(image, expected);
+  return rects.length > 0
+    ? { rects, detected: true }
+    : { rects: uniformSlices(image.width, image.height, expected), detected: false };
+};
+
+// Copied a row at a time; parts of `rect` outside the image stay transparent
+export const cropImage = (image: ImageData, rect: FrameRect): ImageData => {
+  const out = new ImageData(Math.max(1, rect.width), Math.max(1, rect.height));
+  const x0 = Math.max(0, rect.x), x1 = Math.min(image.width, rect.x + rect.width);
+  if (x1 <= x0) return out;
+  for (let y = 0; y < rect.height; y++) {
+    const sy = rect.y + y;
+    if (sy < 0 || sy >= image.height) continue;
+    const start = (sy * image.width + x0) * 4;
+    out.data.set(image.data.subarray(start, start + (x1 - x0) * 4), (y * rect.width + x0 - rect.x) * 4);
+  }
+  return out;
+};
@@ -1,11 +1,34 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
 import { ProjectManifest, GameAsset } from "../types";
+import { AssetProvider, ImageReferences, normalizePlan, parseDataUrl } from "./assetProvider";
+import { GenerationError, classifyGenerationError, errorFromFinishReason } from "./generationErrors";
 
 // Initialize Gemini Client
 // IMPORTANT: The API key is injected via process.env.API_KEY
 const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+/**
+ * Pulls the first inline image out of a response, or throws a typed
+ * GenerationError explaining why there isn't one.
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+  const blocked = response.promptFeedback?.blockReason;
+  if (blocked) {
+    throw new GenerationError('safety', `The prompt was blocked (${blocked}).`);
+  }
+
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts ?? []) {
+    if (part.inlineData && part.inlineData.data) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+  }
+
+  throw errorFromFinishReason(candidate?.finishReason)
+    ?? new GenerationError('no_image', "The model responded without image data.");
+};
+
 /**
  * PHASE 1: THE INTERVIEW & PLANNING
  * Generates the JSON manifest and the Educational Game Design Doc.
@@ -85,67 +108,43 @@ export const generateProjectPlan = async (userPrompt: string): Promise<ProjectMa
     throw new Error("Failed to generate project plan.");
   }
 
-  const data = JSON.parse(response.text);
-  
-  // Post-process to extract frame counts if Gemini didn't fill metadata perfectly
-  const assetsWithStatus = data.assets.map((a: any) => {
-    let frames = a.metadata?.frames || 1;
-    
-    // Try to extract frames from filename like "_strip8"
-    const stripMatch = a.filename.match(/strip(\d+)/i);
-    if (stripMatch && stripMatch[1]) {
-        frames = parseInt(stripMatch[1], 10);
-    }
-
-    return {
-        ...a,
-        status: 'pending',
-        metadata: {
-            ...a.metadata,
-            frames: frames
-        }
-    };
-  });
-
-  return {
-    ...data,
-    assets: assetsWithStatus
-  };
+  return normalizePlan(JSON.parse(response.text));
 };
 
 /**
  * PHASE 2: THE FACTORY
  * Generates the actual pixel art images using Nano Banana models.
- * NOW SUPPORTS REFERENCE IMAGES FOR CONSISTENCY.
+ * SUPPORTS REFERENCE IMAGES FOR CONSISTENCY: the group's master concept
+ * (design) and the project style reference (palette).
  */
-export const generateAssetImage = async (asset: GameAsset, palette: string, referenceImageUrl?: string): Promise<string> => {
+export const generateAssetImage = async (asset: GameAsset, palette: string, references: ImageReferences = {}, variant?: number): Promise<string> => {
   const ai = getClient();
   
+  const styleImageLabel = references.group ? 'second' : 'attached';
+
   // Enforce style consistency via prompt injection
   const fullPrompt = `
     Generate a pixel art image.
     Style: SNES 16-bit, retro game asset.
     Palette: ${palette}.
     Subject: ${asset.description}.
-    ${referenceImageUrl ? "IMPORTANT: Use the attached image as the visual reference. Keep the exact same character design, colors, and proportions. Only change the pose/action." : ""}
+    ${references.group ? "IMPORTANT: The first attached image is the master concept for this entity. Keep the exact same design, colors, and proportions. Only change the pose/action." : ""}
+    ${references.style ? `The ${styleImageLabel} image is the project style reference. Match its palette, outlines and shading, but NOT its subject or design.` : ""}
     Constraint: White background (hex #FFFFFF) or Transparent. 
     Format: ${asset.metadata?.frames && asset.metadata.frames > 1 ? `Sprite sheet strip with ${asset.metadata.frames} frames arranged horizontally.` : 'Single sprite.'}
     Ensure crisp pixels, no anti-aliasing (nearest neighbor style).
+    ${variant !== undefined ? `Variation #${variant + 1}: this is one of several candidates. Explore a distinct interpretation while respecting every constraint above.` : ""}
   `;
 
   const contents: any = {};
   const parts: any[] = [];
 
-  // If we have a reference image (e.g., the Master Concept), attach it
-  if (referenceImageUrl) {
-      const base64Data = referenceImageUrl.split(',')[1];
-      const mimeType = referenceImageUrl.substring(referenceImageUrl.indexOf(':') + 1, referenceImageUrl.indexOf(';'));
-      parts.push({
-          inlineData: {
-              mimeType: mimeType,
-              data: base64Data
-          }
-      });
+  // Attach references in the order the prompt describes them
+  if (references.group) {
+      parts.push({ inlineData: parseDataUrl(references.group) });
+  }
+  if (references.style) {
+      parts.push({ inlineData: parseDataUrl(references.style) });
   }
 
   parts.push({ text: fullPrompt });
@@ -157,38 +156,32 @@ export const generateAssetImage = async (asset: GameAsset, palette: string, refe
       contents: contents,
     });
 
-    // Extract image from response
-    if (response.candidates && response.candidates[0].content && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-      }
-    }
-
-    throw new Error("No image data found in response");
+    return extractImage(response);
   } catch (error) {
     console.error("Asset generation error:", error);
-    // Return a placeholder if generation fails to keep the flow going
-    return `https://picsum.photos/64/64?grayscale&blur=2`; 
+    throw classifyGenerationError(error);
   }
 };
 
 /**
  * PHASE 3: THE REFINERY (EDITING)
  * Edits an existing asset based on a user prompt using Gemini 2.5 Flash Image.
+ * With a mask, the model is asked to change only the white region; the
+ * caller still composites the result, since the model may not comply.
  */
-export const editAssetImage = async (currentImageUrl: string, userInstruction: string, originalDescription: string): Promise<string> => {
+export const editAssetImage = async (currentImageUrl: string, userInstruction: string, originalDescription: string, maskUrl?: string): Promise<string> => {
     const ai = getClient();
 
-    // Clean base64 string
-    const base64Data = currentImageUrl.split(',')[1];
-    const mimeType = currentImageUrl.substring(currentImageUrl.indexOf(':') + 1, currentImageUrl.indexOf(';'));
+    const maskInstruction = maskUrl ? `
+      The second image is a mask of the same size. Change ONLY the pixels under its white area;
+      every pixel under the black area must stay exactly as it is. Keep the same canvas size and framing.
+    ` : '';
 
     const fullPrompt = `
       Edit this pixel art image.
       Original Context: ${originalDescription}
       User Instruction: ${userInstruction}
+      ${maskInstruction}
       Style Constraints: Maintain SNES 16-bit pixel art style, crisp pixels, no anti-aliasing.
       Keep the background white/transparent if possible.
     `;
@@ -198,27 +191,24 @@ export const editAssetImage = async (currentImageUrl: string, userInstruction: s
             model: 'gemini-2.5-flash-image',
             contents: {
                 parts: [
-                    {
-                        inlineData: {
-                            mimeType: mimeType,
-                            data: base64Data
-                        }
-                    },
+                    { inlineData: parseDataUrl(currentImageUrl) },
+                    ...(maskUrl ? [{ inlineData: parseDataUrl(maskUrl) }] : []),
                     { text: fullPrompt }
                 ]
             }
         });
 
-        if (response.candidates && response.candidates[0].content && response.candidates[0].content.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                }
-            }
-        }
-        throw new Error("No image data found in response");
+        return extractImage(response);
     } catch (error) {
         console.error("Asset edit error:", error);
-        throw error;
+        throw classifyGenerationError(error);
     }
 }
+
+export const geminiProvider: AssetProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  generateProjectPlan,
+  generateAssetImage,
+  editAssetImage
+};
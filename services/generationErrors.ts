@@ -0,0 +1,75 @@
+import { AssetError, GenerationErrorKind } from "../types";
+
+/**
+ * GENERATION FAILURES
+ * Every provider failure is normalized into a GenerationError so the UI can
+ * explain what went wrong and the queue can decide whether retrying makes sense.
+ */
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+
+  constructor(kind: GenerationErrorKind, message: string) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+  }
+
+  // A blocked prompt will be blocked again; everything else may be transient
+  get retryable(): boolean {
+    return this.kind !== 'safety';
+  }
+
+  toAssetError(): AssetError {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+export const ERROR_KIND_LABELS: Record<GenerationErrorKind, string> = {
+  quota: 'QUOTA EXCEEDED',
+  safety: 'SAFETY BLOCK',
+  no_image: 'NO IMAGE RETURNED',
+  network: 'NETWORK ERROR',
+  unknown: 'GENERATION FAILED'
+};
+
+const SAFETY_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Maps a model finish/block reason to a failure, or null if the reason is benign.
+ */
+export const errorFromFinishReason = (reason: string | undefined): GenerationError | null => {
+  if (!reason || reason === 'STOP' || reason === 'FINISH_REASON_UNSPECIFIED') return null;
+  if (SAFETY_REASONS.includes(reason)) {
+    return new GenerationError('safety', `The request was blocked by the safety filter (${reason}).`);
+  }
+  return new GenerationError('no_image', `The model stopped without an image (${reason}).`);
+};
+
+/**
+ * Best-effort classification of anything thrown by an SDK, fetch or the browser.
+ */
+export const classifyGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('quota', 'API quota or rate limit exceeded. Wait a moment and retry.');
+  }
+  if (/SAFETY|PROHIBITED|blocked/i.test(message)) {
+    return new GenerationError('safety', message);
+  }
+  if (
+    (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+    (error instanceof TypeError && /fetch|network/i.test(message)) ||
+    /network|ECONNRESET|ETIMEDOUT|timed out|Failed to fetch/i.test(message) ||
+    (status !== undefined && status >= 500)
+  ) {
+    return new GenerationError('network', `Could not reach the generation service: ${message}`);
+  }
+  return new GenerationError('unknown', message || 'Unknown error');
+};
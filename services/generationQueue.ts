@@ -0,0 +1,170 @@
+/**
+ * GENERATION QUEUE
+ * Runs asset jobs with bounded concurrency, retries failed jobs with
+ * exponential backoff, and can be paused, resumed or cancelled mid-run.
+ * The queue only schedules; the caller's `run` does the work and owns state.
+ */
+
+export type QueueState = 'idle' | 'running' | 'paused' | 'cancelled' | 'finished';
+
+export interface QueueProgress {
+  state: QueueState;
+  total: number;
+  done: number;
+  failed: number;
+  running: number;
+  etaMs: number | null; // null until at least one job has finished
+}
+
+export interface JobContext {
+  attempt: number; // 1-based
+  signal: AbortSignal; // aborted when the queue is cancelled
+}
+
+export interface GenerationQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  run: (jobId: string, context: JobContext) => Promise<void>;
+  shouldRetry?: (error: unknown) => boolean;
+  onProgress?: (progress: QueueProgress) => void;
+  onJobRetry?: (jobId: string, attempt: number, delayMs: number, error: unknown) => void;
+  onJobFailed?: (jobId: string, error: unknown) => void;
+}
+
+export interface GenerationQueue {
+  start: () => Promise<QueueProgress>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void; // `start` resolves once the jobs already running have returned
+  getProgress: () => QueueProgress;
+}
+
+export const DEFAULT_QUEUE_OPTIONS = {
+  concurrency: 2,
+  maxRetries: 2,
+  baseDelayMs: 1000
+};
+
+export const createGenerationQueue = (jobIds: string[], options: GenerationQueueOptions): GenerationQueue => {
+  const pending = [...jobIds];
+  const controller = new AbortController();
+  const durations: number[] = [];
+
+  let state: QueueState = 'idle';
+  let running = 0;
+  let done = 0;
+  let failed = 0;
+  let settle: ((progress: QueueProgress) => void) | null = null;
+
+  const getProgress = (): QueueProgress => {
+    const remaining = jobIds.length - done - failed;
+    const avg = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : null;
+    return {
+      state,
+      total: jobIds.length,
+      done,
+      failed,
+      running,
+      etaMs: avg === null ? null : Math.round((avg * remaining) / Math.max(1, options.concurrency))
+    };
+  };
+
+  const notify = () => options.onProgress?.(getProgress());
+
+  // Resolves after `ms`, or early when the queue is cancelled
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    controller.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+  const runJob = async (jobId: string) => {
+    const startedAt = performance.now();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await options.run(jobId, { attempt, signal: controller.signal });
+        if (!controller.signal.aborted) {
+          done++;
+          durations.push(performance.now() - startedAt);
+        }
+        return;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        const retryable = options.shouldRetry ? options.shouldRetry(error) : true;
+        if (!retryable || attempt > options.maxRetries) {
+          failed++;
+          options.onJobFailed?.(jobId, error);
+          return;
+        }
+        // Exponential backoff with jitter: 1x, 2x, 4x ... the base delay
+        const delayMs = options.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+        options.onJobRetry?.(jobId, attempt, delayMs, error);
+        await sleep(delayMs);
+        if (controller.signal.aborted) return;
+      }
+    }
+  };
+
+  const pump = () => {
+    if (state === 'finished') return;
+    if (state === 'cancelled') {
+      // Jobs see the aborted signal, but their requests are not interrupted
+      if (running === 0) settle?.(getProgress());
+      return;
+    }
+
+    while (state === 'running' && running < options.concurrency && pending.length > 0) {
+      const jobId = pending.shift()!;
+      running++;
+      runJob(jobId).finally(() => {
+        running--;
+        notify();
+        pump();
+      });
+    }
+
+    if (running === 0 && pending.length === 0) {
+      state = 'finished';
+      notify();
+      settle?.(getProgress());
+    }
+  };
+
+  return {
+    start: () => {
+      if (state !== 'idle') throw new Error("Queue already started.");
+      state = 'running';
+      const result = new Promise<QueueProgress>(resolve => { settle = resolve; });
+      notify();
+      pump();
+      return result;
+    },
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      notify();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      notify();
+      pump();
+    },
+    cancel: () => {
+      if (state === 'cancelled' || state === 'finished') return;
+      state = 'cancelled';
+      controller.abort();
+      pending.length = 0;
+      notify();
+      pump();
+    },
+    getProgress
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m${seconds.toString().padStart(2, '0')}s` : `${seconds}s`;
+};
@@ -0,0 +1,212 @@
+import JSZip from 'jszip';
+import { ProjectManifest, GameAsset } from "../types";
+import { getAnimation, getPlaybackRange, getSequence, PlaybackRange } from "./animationTiming";
+import { buildSheetData, getFrameSize, getSheetFilename, hasSheetData } from "./sheetData";
+
+/**
+ * GODOT 4 EXPORT
+ * Writes the project as a Godot 4 project folder, ready to open in the editor:
+ *   <Theme>_Godot/project.godot                       (nearest filtering, pixel snapping)
+ *   <Theme>_Godot/characters/<group>/<filename>       (+ .import, + .json sheet data)
+ *   <Theme>_Godot/characters/<group>/<group>.tres     SpriteFrames, one animation per asset and tag
+ *   <Theme>_Godot/environment/<group>/<filename>
+ *   <Theme>_Godot/environment/<group>/<group>_tileset.tres   TileSet, one atlas source per asset
+ *   <Theme>_Godot/ui/<filename>
+ * The .import files carry lossless, mipmap-free settings; Godot fills in the
+ * imported file paths on first open.
+ */
+
+type FrameSize = { width: number; height: number };
+
+interface ExportedAsset {
+  asset: GameAsset;
+  path: string; // res:// path of the image
+  size: FrameSize; // One frame, measured from the image (AtlasTexture regions and tile sizes must match the PNG)
+}
+
+// Lowercase snake_case, the Godot naming convention for files and animations
+export const toGodotName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'unnamed';
+
+const getFolder = (asset: GameAsset) => {
+  const category = asset.category === 'Characters' ? 'characters' : asset.category === 'Environment' ? 'environment' : 'ui';
+  return category === 'ui' ? category : `${category}/${toGodotName(asset.group || asset.category)}`;
+};
+
+const formatFloat = (n: number) => Number.isInteger(n) ? n.toFixed(1) : String(+n.toFixed(4));
+
+const header = (type: string, loadSteps: number) => `[gd_resource type="${type}" load_steps=${loadSteps} format=3]`;
+
+const extResource = (path: string, id: string) => `[ext_resource type="Texture2D" path="${path}" id="${id}"]`;
+
+// The default 2D texture import with compression and mipmaps off, so pixels stay exact
+const buildImportFile = (path: string) => `[remap]
+
+importer="texture"
+type="CompressedTexture2D"
+
+[deps]
+
+source_file="${path}"
+
+[params]
+
+compress/mode=0
+compress/high_quality=false
+compress/lossy_quality=0.7
+compress/hdr_compression=1
+compress/normal_map=0
+compress/channel_pack=0
+mipmaps/generate=false
+mipmaps/limit=-1
+roughness/mode=0
+roughness/src_normal=""
+process/fix_alpha_border=true
+process/premult_alpha=false
+process/normal_map_invert_y=false
+process/hdr_as_srgb=false
+process/hdr_clamp_exposure=false
+process/size_limit=0
+detect_3d/compress_to=0
+`;
+
+const buildProjectFile = (plan: ProjectManifest) => `; Engine configuration file.
+; Generated from the project manifest of "${plan.theme}".
+
+config_version=5
+
+[application]
+
+config/name=${JSON.stringify(plan.theme)}
+config/features=PackedStringArray("4.2")
+
+[rendering]
+
+textures/canvas_textures/default_texture_filter=0
+2d/snap/snap_2d_transforms_to_pixel=true
+`;
+
+/**
+ * Godot plays a frame for `duration / speed` seconds, so the shortest frame
+ * sets the speed and every duration is a multiple of it. Ping-pong has no
+ * Godot equivalent and is written out as the frames it plays.
+ */
+const buildAnimation = (name: string, range: PlaybackRange, durations: number[], textureIds: string[]) => {
+  const sequence = getSequence(range);
+  const base = Math.min(...sequence.map(f => durations[f]));
+  const frames = sequence.map(f => `{
+"duration": ${formatFloat(durations[f] / base)},
+"texture": SubResource("${textureIds[f]}")
+}`);
+  return `{
+"frames": [${frames.join(', ')}],
+"loop": ${range.loop !== 'once'},
+"name": &"${name}",
+"speed": ${formatFloat(1000 / base)}
+}`;
+};
+
+/**
+ * A SpriteFrames resource for one character group: each strip becomes an
+ * animation named after the asset, and each of its tags one more
+ * ("<asset>_<tag>").
+ */
+export const buildSpriteFrames = (entries: ExportedAsset[]): string => {
+  const resources: string[] = [];
+  const subResources: string[] = [];
+  const animations: string[] = [];
+  const usedNames = new Set<string>();
+
+  entries.forEach(({ asset, path, size }, i) => {
+    const textureId = `${i + 1}_texture`;
+    resources.push(extResource(path, textureId));
+
+    const animation = getAnimation(asset);
+    const textureIds = animation.frameDurations.map((_, f) => {
+      const id = `AtlasTexture_${i + 1}_${f}`;
+      subResources.push(`[sub_resource type="AtlasTexture" id="${id}"]
+atlas = ExtResource("${textureId}")
+region = Rect2(${f * size.width}, 0, ${size.width}, ${size.height})`);
+      return id;
+    });
+
+    const base = toGodotName(asset.name);
+    const ranges: [string, PlaybackRange][] = [
+      [base, getPlaybackRange(animation)],
+      ...animation.tags.map(tag => [`${base}_${toGodotName(tag.name)}`, getPlaybackRange(animation, tag)] as [string, PlaybackRange])
+    ];
+    ranges.forEach(([name, range]) => {
+      let unique = name, n = 1;
+      while (usedNames.has(unique)) unique = `${name}_${++n}`;
+      usedNames.add(unique);
+      animations.push(buildAnimation(unique, range, animation.frameDurations, textureIds));
+    });
+  });
+
+  return [
+    header('SpriteFrames', resources.length + subResources.length + 1),
+    ...resources,
+    ...subResources,
+    `[resource]\nanimations = [${animations.join(', ')}]`
+  ].join('\n\n') + '\n';
+};
+
+/**
+ * A TileSet for one environment group. Every frame of a strip is a tile of
+ * its atlas source; the tile size is the most common frame size.
+ */
+export const buildTileSet = (entries: ExportedAsset[]): string => {
+  const counts = new Map<string, number>();
+  entries.forEach(({ size }) => counts.set(`${size.width}x${size.height}`, (counts.get(`${size.width}x${size.height}`) || 0) + 1));
+  const [tileWidth, tileHeight] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0].split('x');
+
+  const resources = entries.map(({ path }, i) => extResource(path, `${i + 1}_texture`));
+  const sources = entries.map(({ asset, size }, i) => {
+    const tiles = Array.from({ length: asset.metadata?.frames || 1 }, (_, f) => `${f}:0/0 = 0`);
+    return `[sub_resource type="TileSetAtlasSource" id="TileSetAtlasSource_${i}"]
+resource_name = ${JSON.stringify(toGodotName(asset.name))}
+texture = ExtResource("${i + 1}_texture")
+texture_region_size = Vector2i(${size.width}, ${size.height})
+${tiles.join('\n')}`;
+  });
+
+  return [
+    header('TileSet', resources.length + sources.length + 1),
+    ...resources,
+    ...sources,
+    `[resource]\ntile_size = Vector2i(${tileWidth}, ${tileHeight})\n` + entries.map((_, i) => `sources/${i} = SubResource("TileSetAtlasSource_${i}")`).join('\n')
+  ].join('\n\n') + '\n';
+};
+
+export const buildGodotZip = async (plan: ProjectManifest): Promise<JSZip> => {
+  const zip = new JSZip();
+  const root = zip.folder(`${plan.theme.replace(/\s+/g, '_')}_Godot`);
+  if (!root) throw new Error("Could not create project folder.");
+
+  root.file('project.godot', buildProjectFile(plan));
+
+  // Assets per resource folder, in manifest order
+  const folders = new Map<string, ExportedAsset[]>();
+  for (const asset of plan.assets) {
+    if (!asset.imageUrl) continue;
+    const folder = getFolder(asset);
+    const path = `res://${folder}/${asset.filename}`;
+    const size = await getFrameSize(asset);
+    const blob = await (await fetch(asset.imageUrl)).blob();
+
+    root.file(`${folder}/${asset.filename}`, blob);
+    root.file(`${folder}/${asset.filename}.import`, buildImportFile(path));
+    if (hasSheetData(asset)) {
+      root.file(`${folder}/${getSheetFilename(asset)}`, JSON.stringify(buildSheetData(asset, size.width, size.height), null, 2));
+    }
+    folders.set(folder, [...(folders.get(folder) || []), { asset, path, size }]);
+  }
+
+  folders.forEach((entries, folder) => {
+    const name = folder.split('/').pop()!;
+    if (folder.startsWith('characters/')) root.file(`${folder}/${name}.tres`, buildSpriteFrames(entries));
+    if (folder.startsWith('environment/')) root.file(`${folder}/${name}_tileset.tres`, buildTileSet(entries));
+  });
+
+  return zip;
+};
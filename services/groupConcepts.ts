@@ -0,0 +1,84 @@
+import { ProjectManifest, GameAsset, GroupConcept } from "../types";
+import { ImageReferences } from "./assetProvider";
+
+/**
+ * GROUP CONCEPTS
+ * Each entity group (the Player, every enemy, every tileset) gets its own
+ * master concept that the rest of the group is generated from. A separate
+ * project-wide style reference (masterStyleImage) keeps the palette coherent
+ * across groups.
+ */
+
+export const getGroupKey = (asset: GameAsset) => asset.group || asset.category;
+
+// UI elements share the project style but have no design of their own to keep
+const hasOwnConcept = (asset: GameAsset) => asset.category !== 'UI';
+
+/**
+ * Picks the asset that defines a group's look: its idle/stand pose if there
+ * is one, otherwise the first asset of the group.
+ */
+export const pickConceptAsset = (assets: GameAsset[]): GameAsset | undefined =>
+  assets.find(a => a.name.toLowerCase().includes('idle') || a.name.toLowerCase().includes('stand')) || assets[0];
+
+/**
+ * Returns the concept asset for every group that needs one, in manifest order.
+ * The Player group (or the first character group) comes first: its concept
+ * becomes the project-wide style reference.
+ */
+export const getConceptAssets = (plan: ProjectManifest): GameAsset[] => {
+  const groups = new Map<string, GameAsset[]>();
+  plan.assets.filter(hasOwnConcept).forEach(asset => {
+    const key = getGroupKey(asset);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(asset);
+  });
+
+  const concepts = Array.from(groups.values())
+    .map(pickConceptAsset)
+    .filter((a): a is GameAsset => a !== undefined);
+
+  const styleIndex = Math.max(0, concepts.findIndex(a => a.category === 'Characters' && /player|hero/i.test(getGroupKey(a))));
+  if (styleIndex > 0) {
+    concepts.unshift(concepts.splice(styleIndex, 1)[0]);
+  }
+  return concepts;
+};
+
+export const getGroupConcept = (plan: ProjectManifest, groupKey: string): GroupConcept | undefined =>
+  plan.groupConcepts?.[groupKey];
+
+export const isConceptAsset = (plan: ProjectManifest, asset: GameAsset) =>
+  getGroupConcept(plan, getGroupKey(asset))?.assetId === asset.id;
+
+export const getApprovalCounts = (plan: ProjectManifest) => {
+  const concepts = Object.values(plan.groupConcepts ?? {});
+  return { approved: concepts.filter(c => c.approved).length, total: concepts.length };
+};
+
+export const allConceptsApproved = (plan: ProjectManifest) => {
+  const { approved, total } = getApprovalCounts(plan);
+  return total > 0 && approved === total;
+};
+
+/**
+ * The references an asset should be generated with: its group's master concept
+ * (unless it IS the concept) plus the project style reference.
+ */
+export const getReferences = (plan: ProjectManifest, asset: GameAsset): ImageReferences => {
+  const concept = getGroupConcept(plan, getGroupKey(asset));
+  const conceptAsset = concept ? plan.assets.find(a => a.id === concept.assetId) : undefined;
+  const group = conceptAsset && conceptAsset.id !== asset.id ? conceptAsset.imageUrl : undefined;
+  const style = plan.masterStyleImage && plan.masterStyleImage !== asset.imageUrl ? plan.masterStyleImage : undefined;
+  return { group, style: style !== group ? style : undefined };
+};
+
+/**
+ * A concept whose image changed must be approved again.
+ */
+export const withConceptUnapproved = (plan: ProjectManifest, assetId: string): ProjectManifest['groupConcepts'] => {
+  if (!plan.groupConcepts) return plan.groupConcepts;
+  const entry = Object.entries(plan.groupConcepts).find(([, c]) => c.assetId === assetId);
+  if (!entry || !entry[1].approved) return plan.groupConcepts;
+  return { ...plan.groupConcepts, [entry[0]]: { ...entry[1], approved: false } };
+};
@@ -0,0 +1,30 @@
+/**
+ * IMAGE DATA
+ * Canvas helpers to go between data URLs and raw pixels.
+ */
+
+export const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not decode image."));
+  img.src = url;
+});
+
+export const readImageData = async (url: string): Promise<ImageData> => {
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+export const imageDataToUrl = (image: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
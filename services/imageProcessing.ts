@@ -0,0 +1,344 @@
+import { GameAsset, ProcessingSettings, ProjectPalette } from "../types";
+import { readImageData, imageDataToUrl } from "./imageData";
+import { quantizeImage } from "./palette";
+import { sliceStrip } from "./frameSlicer";
+
+/**
+ * POST-PROCESSING
+ * Every provider image goes through this stage before it is stored:
+ *
+ * 1. Pixel grid: models render "16-bit" art at e.g. 1024px, where each
+ *    logical pixel is a fuzzy 8x8 block. The grid is detected and the image
+ *    is resampled to its true resolution by majority vote per cell.
+ * 2. Background: models ignore "transparent background" and return sprites
+ *    on white (or near-white, anti-aliased) backgrounds. The background is
+ *    keyed out with a flood fill from the image border, so white pixels
+ *    INSIDE the sprite (eyes, highlights) survive.
+ * 3. Frames: animation strips are rarely evenly spaced. Once the background
+ *    is transparent, the frames are detected and normalized to uniform cells
+ *    (see services/frameSlicer.ts), which may correct the frame count.
+ * 4. Palette: when the project enforces a palette, every colour is remapped
+ *    to it (see services/palette.ts).
+ */
+
+export const DEFAULT_PROCESSING: ProcessingSettings = {
+  removeBackground: true,
+  tolerance: 32,
+  pixelGrid: true,
+  sliceFrames: true
+};
+
+export const getProcessingSettings = (asset: GameAsset): ProcessingSettings => ({
+  ...DEFAULT_PROCESSING,
+  ...asset.processing
+});
+
+type RGB = [number, number, number];
+
+const WHITE: RGB = [255, 255, 255];
+
+// Largest per-channel difference, so the tolerance reads as "0-255 per channel"
+const distance = (data: Uint8ClampedArray, i: number, key: RGB) =>
+  Math.max(Math.abs(data[i] - key[0]), Math.abs(data[i + 1] - key[1]), Math.abs(data[i + 2] - key[2]));
+
+const borderIndices = (width: number, height: number): number[] => {
+  const indices: number[] = [];
+  for (let x = 0; x < width; x++) indices.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) indices.push(y * width, y * width + width - 1);
+  return indices;
+};
+
+/**
+ * The most common opaque border colour (in 16-level buckets), if it covers at
+ * least a third of the border. Falls back to white.
+ */
+export const detectBackgroundColor = (image: ImageData): RGB => {
+  const { data, width, height } = image;
+  const buckets = new Map<number, { count: number; sum: RGB }>();
+  const border = borderIndices(width, height);
+
+  for (const p of border) {
+    const i = p * 4;
+    if (data[i + 3] < 128) continue;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += data[i];
+    bucket.sum[1] += data[i + 1];
+    bucket.sum[2] += data[i + 2];
+    buckets.set(key, bucket);
+  }
+
+  let best: { count: number; sum: RGB } | undefined;
+  buckets.forEach(b => { if (!best || b.count > best.count) best = b; });
+  if (!best || best.count < border.length / 3) return WHITE;
+  return best.sum.map(c => Math.round(c / best!.count)) as RGB;
+};
+
+/**
+ * Clears every pixel connected to the image border whose colour is within
+ * `tolerance` of the background. Pixels just outside the tolerance that touch
+ * the cleared area are the anti-aliased fringe: they get partial alpha and
+ * the background tint is taken out of their colour. Returns a new ImageData
+ * and the number of pixels that changed.
+ */
+export const keyOutBackground = (image: ImageData, tolerance: number, key: RGB = detectBackgroundColor(image)) => {
+  const { width, height } = image;
+  const data = new Uint8ClampedArray(image.data);
+  const soft = Math.min(255, tolerance * 2 + 16);
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  let changed = 0;
+
+  const visit = (p: number) => {
+    if (visited[p]) return;
+    visited[p] = 1;
+    stack.push(p);
+  };
+  borderIndices(width, height).forEach(visit);
+
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const i = p * 4;
+    const alpha = data[i + 3];
+    const d = distance(data, i, key);
+
+    if (alpha === 0 || d <= tolerance) {
+      if (alpha !== 0) {
+        data[i + 3] = 0;
+        changed++;
+      }
+      // Only true background spreads the fill; fringe pixels stop it
+      const x = p % width;
+      if (x > 0) visit(p - 1);
+      if (x < width - 1) visit(p + 1);
+      if (p >= width) visit(p - width);
+      if (p < width * (height - 1)) visit(p + width);
+    } else if (d <= soft) {
+      const coverage = (d - tolerance) / (soft - tolerance);
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = key[c] + (data[i + c] - key[c]) / coverage;
+      }
+      data[i + 3] = Math.round(alpha * coverage);
+      changed++;
+    }
+  }
+
+  return { image: new ImageData(data, width, height), changed };
+};
+
+export interface PixelGrid {
+  cellSize: number; // Source pixels per logical pixel (may be fractional)
+  originX: number; // Where the first cell starts (may be negative for a clipped cell)
+  originY: number;
+  columns: number; // True resolution
+  rows: number;
+  confidence: number; // How strongly edges line up with the grid (1 = not at all)
+}
+
+const MIN_CELL = 2;
+const MAX_CELL = 64;
+const CELL_STEP = 0.25;
+const PHASE_BINS = 8;
+const MIN_CONFIDENCE = 2.5;
+const MIN_PURITY = 0.75; // Share of a cell's pixels that must agree with its majority colour
+const MIN_LOGICAL_SIZE = 8;
+
+// Edge strength between each column (or row) and the previous one
+const edgeProfile = (image: ImageData, axis: 'x' | 'y'): Float64Array => {
+  const { data, width, height } = image;
+  const length = axis === 'x' ? width : height;
+  const profile = new Float64Array(length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = axis === 'x' ? x : y;
+      if (pos === 0) continue;
+      const i = (y * width + x) * 4;
+      const j = axis === 'x' ? i - 4 : i - width * 4;
+      profile[pos] += Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1]) +
+        Math.abs(data[i + 2] - data[j + 2]) + Math.abs(data[i + 3] - data[j + 3]);
+    }
+  }
+  return profile;
+};
+
+/**
+ * Folds the profile by the candidate period: on a real grid all edge energy
+ * lands in one phase bin. Returns how much stronger that bin is than average.
+ */
+const scorePeriod = (profile: Float64Array, period: number) => {
+  const sums = new Float64Array(PHASE_BINS);
+  const counts = new Float64Array(PHASE_BINS);
+  let total = 0;
+  for (let pos = 1; pos < profile.length; pos++) {
+    const bin = Math.floor(((pos % period) / period) * PHASE_BINS) % PHASE_BINS;
+    sums[bin] += profile[pos];
+    counts[bin]++;
+    total += profile[pos];
+  }
+  const mean = total / Math.max(1, profile.length - 1);
+  let bestBin = 0;
+  for (let b = 1; b < PHASE_BINS; b++) {
+    if (counts[b] > 0 && sums[b] / counts[b] > sums[bestBin] / Math.max(1, counts[bestBin])) bestBin = b;
+  }
+  const ratio = mean > 0 && counts[bestBin] > 0 ? sums[bestBin] / counts[bestBin] / mean : 0;
+  return { ratio, phase: ((bestBin + 0.5) / PHASE_BINS) * period };
+};
+
+const gridAxis = (length: number, period: number, phase: number) => {
+  // Include a clipped first/last cell when at least half of it is visible
+  const origin = phase % period >= period / 2 ? (phase % period) - period : phase % period;
+  return { origin, count: Math.floor((length - origin) / period + 0.5) };
+};
+
+/**
+ * Finds the logical pixel grid of an upscaled render, or null if the image
+ * already is at its true resolution. Several periods fit a grid (every
+ * multiple of the cell size does); the smallest that scores close to the
+ * best is the cell size.
+ */
+export const detectPixelGrid = (image: ImageData): PixelGrid | null => {
+  const profileX = edgeProfile(image, 'x');
+  const profileY = edgeProfile(image, 'y');
+  const maxCell = Math.min(MAX_CELL, Math.min(image.width, image.height) / MIN_LOGICAL_SIZE);
+
+  const candidates: { period: number; ratio: number; phaseX: number; phaseY: number }[] = [];
+  for (let period = MIN_CELL; period <= maxCell; period += CELL_STEP) {
+    const x = scorePeriod(profileX, period);
+    const y = scorePeriod(profileY, period);
+    // Both axes must show the grid; one periodic axis is more likely a pattern (bricks, stripes)
+    candidates.push({ period, ratio: Math.min(x.ratio, y.ratio), phaseX: x.phase, phaseY: y.phase });
+  }
+  if (candidates.length === 0) return null;
+
+  const best = Math.max(...candidates.map(c => c.ratio));
+  const pick = candidates.find(c => c.ratio >= best * 0.85)!;
+  if (pick.ratio < MIN_CONFIDENCE) return null;
+
+  const x = gridAxis(image.width, pick.period, pick.phaseX);
+  const y = gridAxis(image.height, pick.period, pick.phaseY);
+  return {
+    cellSize: pick.period,
+    originX: x.origin,
+    originY: y.origin,
+    columns: x.count,
+    rows: y.count,
+    confidence: pick.ratio
+  };
+};
+
+/**
+ * Resamples to one pixel per grid cell. Each cell takes the colour most of
+ * its interior agrees on (cell borders are where the render is fuzzy), which
+ * keeps outlines crisp where plain nearest-neighbour would pick blur.
+ * `purity` is the average share of pixels that agreed.
+ */
+export const downscaleToGrid = (image: ImageData, grid: PixelGrid) => {
+  const { data, width, height } = image;
+  const out = new ImageData(grid.columns, grid.rows);
+  const margin = grid.cellSize * 0.2;
+  let puritySum = 0;
+
+  const span = (origin: number, cell: number, limit: number) => {
+    const start = Math.max(0, Math.ceil(origin + cell * grid.cellSize + margin));
+    const end = Math.min(limit - 1, Math.floor(origin + (cell + 1) * grid.cellSize - margin - 1e-6));
+    if (end >= start) return [start, end];
+    const center = Math.min(limit - 1, Math.max(0, Math.floor(origin + (cell + 0.5) * grid.cellSize)));
+    return [center, center];
+  };
+
+  for (let row = 0; row < grid.rows; row++) {
+    const [y0, y1] = span(grid.originY, row, height);
+    for (let col = 0; col < grid.columns; col++) {
+      const [x0, x1] = span(grid.originX, col, width);
+      const votes = new Map<number, { count: number; r: number; g: number; b: number; a: number }>();
+      let total = 0;
+
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const i = (y * width + x) * 4;
+          // 5 bits per channel, with all mostly-transparent pixels in one bucket
+          const key = data[i + 3] < 128 ? -1 : ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+          const vote = votes.get(key) ?? { count: 0, r: 0, g: 0, b: 0, a: 0 };
+          vote.count++;
+          vote.r += data[i];
+          vote.g += data[i + 1];
+          vote.b += data[i + 2];
+          vote.a += data[i + 3];
+          votes.set(key, vote);
+          total++;
+        }
+      }
+
+      let winner = { count: 0, r: 0, g: 0, b: 0, a: 0 };
+      votes.forEach(v => { if (v.count > winner.count) winner = v; });
+      const o = (row * grid.columns + col) * 4;
+      out.data[o] = winner.r / winner.count;
+      out.data[o + 1] = winner.g / winner.count;
+      out.data[o + 2] = winner.b / winner.count;
+      out.data[o + 3] = winner.a / winner.count;
+      puritySum += winner.count / total;
+    }
+  }
+
+  return { image: out, purity: puritySum / (grid.columns * grid.rows) };
+};
+
+export interface ProcessedImage {
+  imageUrl: string;
+  width: number;
+  height: number;
+  grid: PixelGrid | null; // The grid the image was resampled by, if any
+  frames?: number; // Frame count found when the strip was re-sliced
+}
+
+/**
+ * Runs the post-processing stage on a provider image. `frames` is the frame
+ * count the asset expects (strips only). Returns the input URL unchanged when
+ * there is nothing to do.
+ */
+export const postProcessImage = async (imageUrl: string, settings: ProcessingSettings, palette?: ProjectPalette, frames?: number): Promise<ProcessedImage> => {
+  let image = await readImageData(imageUrl);
+  let changed = false;
+  let grid: PixelGrid | null = null;
+  let slicedFrames: number | undefined;
+
+  if (settings.pixelGrid) {
+    const detected = detectPixelGrid(image);
+    if (detected) {
+      const resampled = downscaleToGrid(image, detected);
+      // Detailed native art can have periodic patterns (bricks, stripes) that look like
+      // a grid; its cells are not flat, which is how it is told apart from an upscale.
+      if (resampled.purity >= MIN_PURITY) {
+        image = resampled.image;
+        grid = detected;
+        changed = true;
+      }
+    }
+  }
+
+  if (settings.removeBackground) {
+    const keyed = keyOutBackground(image, settings.tolerance);
+    if (keyed.changed > 0) {
+      image = keyed.image;
+      changed = true;
+    }
+  }
+
+  // Frames can only be told apart once the background is transparent
+  if (settings.sliceFrames && frames && frames > 1 && image.data.some((v, i) => i % 4 === 3 && v === 0)) {
+    const sliced = sliceStrip(image, frames);
+    if (sliced) {
+      image = sliced.strip;
+      slicedFrames = sliced.frames;
+      changed = true;
+    }
+  }
+
+  if (palette?.enforce && palette.colors.length > 0) {
+    image = quantizeImage(image, palette.colors, palette.dither);
+    changed = true;
+  }
+
+  return { imageUrl: changed ? imageDataToUrl(image) : imageUrl, width: image.width, height: image.height, grid, frames: slicedFrames };
+};
@@ -0,0 +1,67 @@
+import { readImageData, imageDataToUrl } from "./imageData";
+
+/**
+ * INPAINTING
+ * Masked AI edits. The user paints the region the model may change; the
+ * provider receives it as a black-and-white mask image, and whatever the
+ * model returns is composited back onto the current image so that only the
+ * masked pixels change. Models redraw the whole sprite even when asked not
+ * to, so the composite (not the prompt) is what keeps the rest exact.
+ */
+
+// One byte per pixel of the current image, 1 = may be edited
+export interface EditMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export const createEditMask = (width: number, height: number): EditMask =>
+  ({ width, height, data: new Uint8Array(width * height) });
+
+export const countMasked = (mask: EditMask) => mask.data.reduce((sum, m) => sum + m, 0);
+
+/**
+ * The mask as a PNG: white where the model may edit, black where it must not.
+ */
+export const maskToUrl = (mask: EditMask): string => {
+  const image = new ImageData(mask.width, mask.height);
+  mask.data.forEach((m, p) => image.data.set(m ? [255, 255, 255, 255] : [0, 0, 0, 255], p * 4));
+  return imageDataToUrl(image);
+};
+
+// Nearest neighbour, so pixel art stays crisp when the model answers at another size
+const resizeNearest = (image: ImageData, width: number, height: number): ImageData => {
+  if (image.width === width && image.height === height) return image;
+  const out = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor((y + 0.5) * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor((x + 0.5) * image.width / width));
+      const i = (sy * image.width + sx) * 4;
+      out.data.set(image.data.subarray(i, i + 4), (y * width + x) * 4);
+    }
+  }
+  return out;
+};
+
+/**
+ * `original` with the masked pixels taken from `edited` (scaled to the
+ * original's size). Unmasked pixels are copied byte for byte.
+ */
+export const compositeMasked = (original: ImageData, edited: ImageData, mask: EditMask): ImageData => {
+  const source = resizeNearest(edited, original.width, original.height);
+  const out = new ImageData(new Uint8ClampedArray(original.data), original.width, original.height);
+  mask.data.forEach((m, p) => {
+    if (m) out.data.set(source.data.subarray(p * 4, p * 4 + 4), p * 4);
+  });
+  return out;
+};
+
+export const compositeMaskedUrl = async (originalUrl: string, editedUrl: string, mask: EditMask): Promise<string> => {
+  const [original, edited] = await Promise.all([readImageData(originalUrl), readImageData(editedUrl)]);
+  if (original.width !== mask.width || original.height !== mask.height) {
+    throw new Error("The mask does not match the image size.");
+  }
+  return imageDataToUrl(compositeMasked(original, edited, mask));
+};
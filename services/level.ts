@@ -0,0 +1,112 @@
+import { GameAsset } from "../types";
+
+/**
+ * PLAYGROUND LEVEL
+ * The sample level the playground runs, and that the Tiled export writes as
+ * a map, so both show the same layout. It is a grid of cells (row 0 at the
+ * top) anchored to the bottom of the screen, drawn at the tile asset's size:
+ *   #  ground: solid from every side
+ *   =  platform: one-way, only landed on from above
+ *   P  player spawn, E  enemy patrol centre (both on empty cells)
+ */
+
+export type LevelTile = 'ground' | 'platform';
+
+export interface LevelCell {
+  column: number;
+  row: number;
+  tile: LevelTile;
+}
+
+export interface LevelSpawn {
+  column: number;
+  row: number;
+}
+
+export interface Level {
+  columns: number;
+  rows: number;
+  cells: LevelCell[];
+  playerSpawn: LevelSpawn;
+  enemySpawn: LevelSpawn;
+}
+
+export const LEVEL_TILE_PROPERTIES: Record<LevelTile, { solid: boolean; oneWay: boolean }> = {
+  ground: { solid: true, oneWay: false },
+  platform: { solid: true, oneWay: true }
+};
+
+// Per frame at 60 fps; the same in the playground and the exported HTML
+export const PLAYGROUND_PHYSICS = {
+  friction: 0.8,
+  gravity: 0.8,
+  acceleration: 1,
+  jumpForce: -15
+};
+
+// Sprites are drawn at 2x their true resolution, shrunk for renders that were never downscaled
+export const SPRITE_SCALE = 2;
+export const MAX_SPRITE_HEIGHT = 96;
+export const DEFAULT_SIZE = 32;
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 450;
+
+export const getDrawScale = (frameHeight: number) => Math.min(SPRITE_SCALE, MAX_SPRITE_HEIGHT / frameHeight);
+
+const LEVEL_MAP = [
+  '..........................',
+  '..........................',
+  '..........................',
+  '..........................',
+  '.....===........===.......',
+  '..P.....E.................',
+  '##########################',
+  '##########################'
+];
+
+const TILE_CHARS: Record<string, LevelTile> = { '#': 'ground', '=': 'platform' };
+
+export const parseLevel = (map: string[]): Level => {
+  const cells: LevelCell[] = [];
+  let playerSpawn: LevelSpawn = { column: 0, row: 0 };
+  let enemySpawn: LevelSpawn = { column: 0, row: 0 };
+  map.forEach((line, row) => [...line].forEach((char, column) => {
+    if (TILE_CHARS[char]) cells.push({ column, row, tile: TILE_CHARS[char] });
+    if (char === 'P') playerSpawn = { column, row };
+    if (char === 'E') enemySpawn = { column, row };
+  }));
+  return { columns: Math.max(...map.map(l => l.length)), rows: map.length, cells, playerSpawn, enemySpawn };
+};
+
+export const PLAYGROUND_LEVEL = parseLevel(LEVEL_MAP);
+
+/**
+ * The top row of the ground, which the playground treats as a flat floor.
+ */
+export const getGroundRow = (level: Level) =>
+  Math.min(...level.cells.filter(c => c.tile === 'ground').map(c => c.row), level.rows);
+
+/**
+ * Horizontal runs of platform cells, each a single one-way surface.
+ */
+export const getPlatforms = (level: Level): { column: number; row: number; length: number }[] => {
+  const runs: { column: number; row: number; length: number }[] = [];
+  [...level.cells]
+    .filter(c => c.tile === 'platform')
+    .sort((a, b) => a.row - b.row || a.column - b.column)
+    .forEach(cell => {
+      const last = runs[runs.length - 1];
+      if (last && last.row === cell.row && last.column + last.length === cell.column) last.length++;
+      else runs.push({ column: cell.column, row: cell.row, length: 1 });
+    });
+  return runs;
+};
+
+const findEnvironmentAsset = (assets: GameAsset[], keywords: string[]) =>
+  keywords.map(keyword => assets.find(a =>
+    a.category === 'Environment' && (a.name.toLowerCase().includes(keyword) || a.filename.toLowerCase().includes(keyword))
+  )).find(Boolean);
+
+// The tile the level is built from, and the backdrop behind it
+export const findTileAsset = (assets: GameAsset[]) => findEnvironmentAsset(assets, ['tile', 'floor']);
+export const findBackgroundAsset = (assets: GameAsset[]) => findEnvironmentAsset(assets, ['bg', 'background']);
@@ -0,0 +1,394 @@
+import { ProjectManifest, GameAsset, ProjectPalette } from "../types";
+import { createRevisionId, REVISION_SOURCES } from "./revisions";
+import { isHexColor } from "./palette";
+import { FRAME_BOX_KINDS } from "./frameData";
+import { LOOP_MODES } from "./animationTiming";
+import { PLAYGROUND_ROLES } from "./playgroundBindings";
+
+/**
+ * MANIFEST SCHEMA
+ * Runtime validation for ProjectManifest plus versioned migrations, so that
+ * model output is never trusted blindly and manifests saved by older builds
+ * (IndexedDB, ZIP archives) keep loading as the types evolve.
+ *
+ * To change the shape of a saved manifest: bump CURRENT_SCHEMA_VERSION and
+ * add a migration from the previous version below.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export const ASSET_CATEGORIES: GameAsset['category'][] = ['Characters', 'Environment', 'UI'];
+const ASSET_STATUSES: GameAsset['status'][] = ['pending', 'generating', 'done', 'error'];
+const ERROR_KINDS = ['quota', 'safety', 'no_image', 'network', 'unknown'];
+const PALETTE_SOURCES: ProjectPalette['source'][] = ['concept', 'manual'];
+const IMAGE_FILENAME = /^[^\\/:*?"<>|]+\.(png|jpe?g|webp|gif)$/i;
+
+export class ManifestValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[], context = 'Manifest') {
+    super(`${context} is invalid:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'ManifestValidationError';
+    this.issues = issues;
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+// What a manifest is known to hold after each migration; everything else is
+// still unchecked until validateManifest runs on the result
+interface AssetV1 extends RawRecord {
+  status: unknown;
+  metadata: RawRecord;
+}
+
+interface ManifestV2 extends RawRecord {
+  groupConcepts: Record<string, { assetId: unknown; approved: boolean }> | undefined;
+}
+
+interface AssetV3 extends RawRecord {
+  revisions: unknown[] | undefined;
+}
+
+interface ManifestV3 extends RawRecord {
+  styleRevisions: unknown[] | undefined;
+}
+
+type Migration = (raw: RawRecord) => RawRecord;
+
+/**
+ * A metadata width/height of 0 (or null) means the size is unknown; it is
+ * left out rather than rejected, and the image is measured instead.
+ */
+export const dropUnsetSize = (metadata: unknown): unknown => {
+  if (!isRecord(metadata)) return metadata;
+  const { width, height, ...rest } = metadata;
+  return { ...rest, ...(width ? { width } : {}), ...(height ? { height } : {}) };
+};
+
+// Non-object assets are passed through for validation to report
+const mapAssets = (raw: RawRecord, migrate: (asset: RawRecord) => RawRecord): unknown =>
+  Array.isArray(raw.assets) ? raw.assets.map((a: unknown) => isRecord(a) ? migrate(a) : a) : raw.assets;
+
+// Keyed by the version being migrated FROM
+const migrations: Record<number, Migration> = {
+  // v0 -> v1: manifests from before versioning. Status and frame counts were
+  // only set by the planner's post-processing, so fill them in if missing.
+  0: (raw) => ({
+    ...raw,
+    assets: mapAssets(raw, (a): AssetV1 => {
+      const stripMatch = typeof a.filename === 'string' ? a.filename.match(/strip(\d+)/i) : null;
+      const metadata = isRecord(a.metadata) ? a.metadata : {};
+      return {
+        ...a,
+        status: a.status ?? (a.imageUrl ? 'done' : 'pending'),
+        metadata: {
+          ...metadata,
+          frames: metadata.frames ?? (stripMatch ? parseInt(stripMatch[1], 10) : 1)
+        }
+      };
+    })
+  }),
+
+  // v1 -> v2: a single global concept became one concept per group. The old
+  // master image keeps its role as style reference and, if it came from an
+  // asset, that asset becomes its group's (approved) concept.
+  1: (raw): ManifestV2 => {
+    const source = Array.isArray(raw.assets) && raw.masterStyleImage
+      ? raw.assets.find((a: unknown): a is RawRecord => isRecord(a) && a.imageUrl === raw.masterStyleImage)
+      : undefined;
+    return {
+      ...raw,
+      groupConcepts: source
+        ? { [String(source.group || source.category)]: { assetId: source.id, approved: true } }
+        : undefined
+    };
+  },
+
+  // v2 -> v3: revisions became a full history that includes the current image,
+  // and the style reference got a history of its own. Seed both with what the
+  // project shows today so there is always something to revert to.
+  2: (raw): ManifestV3 => {
+    const seed = (revisions: unknown, imageUrl: unknown, frames?: unknown): unknown[] | undefined => {
+      const list: unknown[] = Array.isArray(revisions)
+        ? revisions.map((r: unknown) => isRecord(r) ? { id: createRevisionId(), ...r } : r)
+        : [];
+      const last = list[list.length - 1];
+      if (typeof imageUrl === 'string' && !(isRecord(last) && last.imageUrl === imageUrl)) {
+        list.push({ id: createRevisionId(), imageUrl, source: 'generate', frames, createdAt: Date.now() });
+      }
+      return list.length > 0 ? list : undefined;
+    };
+    return {
+      ...raw,
+      styleRevisions: seed(raw.styleRevisions, raw.masterStyleImage),
+      assets: mapAssets(raw, (a): AssetV3 => ({
+        ...a,
+        revisions: seed(a.revisions, a.imageUrl, isRecord(a.metadata) ? a.metadata.frames : undefined)
+      }))
+    };
+  },
+
+  // v3 -> v4: plans could carry a metadata width/height of 0 for "unknown",
+  // which failed validation; it is now dropped.
+  3: (raw) => ({
+    ...raw,
+    assets: mapAssets(raw, a => a.metadata !== undefined ? { ...a, metadata: dropUnsetSize(a.metadata) } : a)
+  })
+};
+
+export const getSchemaVersion = (raw: unknown): number =>
+  isRecord(raw) && typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+/**
+ * Applies every migration between the manifest's version and the current one.
+ */
+export const migrateManifest = (raw: unknown): unknown => {
+  if (!isRecord(raw)) return raw;
+
+  let version = getSchemaVersion(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new ManifestValidationError([
+      `schemaVersion ${version} was written by a newer build (this build supports up to ${CURRENT_SCHEMA_VERSION})`
+    ]);
+  }
+
+  let migrated = raw;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new ManifestValidationError([`No migration available from schemaVersion ${version}`]);
+    }
+    migrated = { ...migrate(migrated), schemaVersion: version + 1 };
+    version++;
+  }
+  return migrated;
+};
+
+const describe = (value: unknown) =>
+  value === undefined ? 'nothing' : value === null ? 'null' : Array.isArray(value) ? 'an array' : JSON.stringify(value).slice(0, 40);
+
+const validateRevisions = (revisions: unknown, path: string, issues: string[]) => {
+  if (revisions === undefined) return;
+  if (!Array.isArray(revisions)) {
+    issues.push(`${path}: expected an array, got ${describe(revisions)}`);
+    return;
+  }
+  revisions.forEach((r: unknown, i: number) => {
+    if (!isRecord(r) || typeof r.id !== 'string' || typeof r.imageUrl !== 'string' || !isOneOf(REVISION_SOURCES, r.source) || typeof r.createdAt !== 'number' || (r.rawImageUrl !== undefined && typeof r.rawImageUrl !== 'string')) {
+      issues.push(`${path}[${i}]: expected { id, imageUrl, source, createdAt } with source one of ${REVISION_SOURCES.join(', ')}, got ${describe(r)}`);
+    }
+  });
+};
+
+const validateAsset = (a: unknown, path: string, issues: string[]) => {
+  if (!isRecord(a)) {
+    issues.push(`${path}: expected an object, got ${describe(a)}`);
+    return;
+  }
+  const requireString = (key: string) => {
+    const value = a[key];
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push(`${path}.${key}: expected a non-empty string, got ${describe(value)}`);
+    }
+  };
+
+  requireString('id');
+  requireString('name');
+  requireString('description');
+
+  if (typeof a.filename !== 'string' || !IMAGE_FILENAME.test(a.filename)) {
+    issues.push(`${path}.filename: expected an image filename like "spr_player_run_strip8.png", got ${describe(a.filename)}`);
+  }
+  if (!isOneOf(ASSET_CATEGORIES, a.category)) {
+    issues.push(`${path}.category: expected one of ${ASSET_CATEGORIES.map(c => `'${c}'`).join(' | ')}, got ${describe(a.category)}`);
+  }
+  if (!isOneOf(ASSET_STATUSES, a.status)) {
+    issues.push(`${path}.status: expected one of ${ASSET_STATUSES.join(', ')}, got ${describe(a.status)}`);
+  }
+  if (a.group !== undefined && typeof a.group !== 'string') {
+    issues.push(`${path}.group: expected a string, got ${describe(a.group)}`);
+  }
+  if (a.imageUrl !== undefined && typeof a.imageUrl !== 'string') {
+    issues.push(`${path}.imageUrl: expected a string, got ${describe(a.imageUrl)}`);
+  }
+
+  if (a.error !== undefined && (!isRecord(a.error) || !isOneOf(ERROR_KINDS, a.error.kind) || typeof a.error.message !== 'string')) {
+    issues.push(`${path}.error: expected { kind, message } with kind one of ${ERROR_KINDS.join(', ')}, got ${describe(a.error)}`);
+  }
+
+  validateRevisions(a.revisions, `${path}.revisions`, issues);
+
+  const { processing, metadata } = a;
+  if (processing !== undefined && (
+    !isRecord(processing) || typeof processing.removeBackground !== 'boolean' ||
+    typeof processing.tolerance !== 'number' || processing.tolerance < 0 || processing.tolerance > 255 ||
+    (processing.pixelGrid !== undefined && typeof processing.pixelGrid !== 'boolean') ||
+    (processing.sliceFrames !== undefined && typeof processing.sliceFrames !== 'boolean')
+  )) {
+    issues.push(`${path}.processing: expected { removeBackground, tolerance, pixelGrid, sliceFrames } with tolerance 0-255, got ${describe(processing)}`);
+  }
+
+  if (metadata !== undefined) {
+    if (!isRecord(metadata)) {
+      issues.push(`${path}.metadata: expected an object, got ${describe(metadata)}`);
+    } else {
+      for (const key of ['width', 'height', 'frames']) {
+        const value = metadata[key];
+        if (value !== undefined && !isPositive(value)) {
+          issues.push(`${path}.metadata.${key}: expected a positive number, got ${describe(value)}`);
+        }
+      }
+      if (typeof metadata.frames === 'number' && !Number.isInteger(metadata.frames)) {
+        issues.push(`${path}.metadata.frames: expected a whole number, got ${metadata.frames}`);
+      }
+      validateFrameData(metadata.frameData, `${path}.metadata.frameData`, issues);
+      validateAnimation(metadata.animation, `${path}.metadata.animation`, issues);
+    }
+  }
+};
+
+const validateFrameData = (frameData: unknown, path: string, issues: string[]) => {
+  if (frameData === undefined) return;
+  if (!Array.isArray(frameData)) {
+    issues.push(`${path}: expected an array, got ${describe(frameData)}`);
+    return;
+  }
+  frameData.forEach((f: unknown, i: number) => {
+    if (!isRecord(f) || !Array.isArray(f.boxes)) {
+      issues.push(`${path}[${i}]: expected { pivot?, boxes: [] }, got ${describe(f)}`);
+      return;
+    }
+    if (f.pivot !== undefined && (!isRecord(f.pivot) || !isFiniteNumber(f.pivot.x) || !isFiniteNumber(f.pivot.y))) {
+      issues.push(`${path}[${i}].pivot: expected { x, y }, got ${describe(f.pivot)}`);
+    }
+    f.boxes.forEach((b: unknown, j: number) => {
+      if (!isRecord(b) || typeof b.name !== 'string' || !isOneOf(FRAME_BOX_KINDS, b.kind) ||
+          !isFiniteNumber(b.x) || !isFiniteNumber(b.y) || !isPositive(b.width) || !isPositive(b.height)) {
+        issues.push(`${path}[${i}].boxes[${j}]: expected { name, kind: ${FRAME_BOX_KINDS.join(' | ')}, x, y, width, height }, got ${describe(b)}`);
+      }
+    });
+  });
+};
+
+const validateAnimation = (animation: unknown, path: string, issues: string[]) => {
+  if (animation === undefined) return;
+  if (!isRecord(animation) || !Array.isArray(animation.frameDurations) || !Array.isArray(animation.tags) || !isOneOf(LOOP_MODES, animation.loop)) {
+    issues.push(`${path}: expected { frameDurations: [], loop: ${LOOP_MODES.join(' | ')}, tags: [] }, got ${describe(animation)}`);
+    return;
+  }
+  animation.frameDurations.forEach((d: unknown, i: number) => {
+    if (!isPositive(d)) issues.push(`${path}.frameDurations[${i}]: expected a positive number of milliseconds, got ${describe(d)}`);
+  });
+  animation.tags.forEach((t: unknown, i: number) => {
+    if (!isRecord(t) || typeof t.name !== 'string' || !isInteger(t.from) || !isInteger(t.to) || t.from < 0 || t.to < t.from ||
+        (t.loop !== undefined && !isOneOf(LOOP_MODES, t.loop))) {
+      issues.push(`${path}.tags[${i}]: expected { name, from, to, loop? } with 0 <= from <= to, got ${describe(t)}`);
+    }
+  });
+};
+
+/**
+ * Returns a list of human-readable problems; an empty list means the manifest is valid.
+ */
+export const validateManifest = (raw: unknown): string[] => {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    return [`manifest: expected an object, got ${describe(raw)}`];
+  }
+
+  if (raw.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    issues.push(`schemaVersion: expected ${CURRENT_SCHEMA_VERSION}, got ${describe(raw.schemaVersion)}`);
+  }
+  for (const key of ['theme', 'paletteDescription', 'designDocs']) {
+    if (typeof raw[key] !== 'string') {
+      issues.push(`${key}: expected a string, got ${describe(raw[key])}`);
+    }
+  }
+  if (raw.masterStyleImage !== undefined && typeof raw.masterStyleImage !== 'string') {
+    issues.push(`masterStyleImage: expected a string, got ${describe(raw.masterStyleImage)}`);
+  }
+  validateRevisions(raw.styleRevisions, 'styleRevisions', issues);
+
+  if (raw.palette !== undefined) {
+    const p = raw.palette;
+    if (!isRecord(p) || !Array.isArray(p.colors) || !p.colors.every(isHexColor) ||
+        !isInteger(p.limit) || p.limit < 1 ||
+        typeof p.dither !== 'boolean' || typeof p.enforce !== 'boolean' || !isOneOf(PALETTE_SOURCES, p.source)) {
+      issues.push(`palette: expected { colors: ['#rrggbb', ...], limit, dither, enforce, source: 'concept' | 'manual' }, got ${describe(p)}`);
+    }
+  }
+
+  if (!Array.isArray(raw.assets)) {
+    issues.push(`assets: expected an array, got ${describe(raw.assets)}`);
+    return issues;
+  }
+  const assets: unknown[] = raw.assets;
+
+  if (raw.groupConcepts !== undefined) {
+    if (!isRecord(raw.groupConcepts)) {
+      issues.push(`groupConcepts: expected an object, got ${describe(raw.groupConcepts)}`);
+    } else {
+      for (const [group, concept] of Object.entries(raw.groupConcepts)) {
+        if (!isRecord(concept) || typeof concept.approved !== 'boolean' || !assets.some(a => isRecord(a) && a.id === concept.assetId)) {
+          issues.push(`groupConcepts["${group}"]: expected { assetId, approved } pointing at an existing asset, got ${describe(concept)}`);
+        }
+      }
+    }
+  }
+
+  // Picks of deleted assets are tolerated: the playground guesses those roles again
+  if (raw.playgroundBindings !== undefined) {
+    const b = raw.playgroundBindings;
+    if (!isRecord(b) ||
+        !Object.entries(b).every(([role, id]) => PLAYGROUND_ROLES.some(r => r.role === role) && typeof id === 'string')) {
+      issues.push(`playgroundBindings: expected { ${PLAYGROUND_ROLES.map(r => r.role).join(', ')} } asset ids, got ${describe(b)}`);
+    }
+  }
+
+  const seenIds = new Set<string>();
+  const seenFiles = new Set<string>();
+  assets.forEach((a, i) => {
+    const path = `assets[${i}]${isRecord(a) && typeof a.id === 'string' ? ` (${a.id})` : ''}`;
+    validateAsset(a, path, issues);
+    if (!isRecord(a)) return;
+
+    if (typeof a.id === 'string') {
+      if (seenIds.has(a.id)) issues.push(`${path}.id: duplicate id "${a.id}"`);
+      seenIds.add(a.id);
+    }
+    if (typeof a.filename === 'string') {
+      // Files share a folder per category in the ZIP, so duplicates would overwrite each other
+      const fileKey = `${a.category}/${a.filename.toLowerCase()}`;
+      if (seenFiles.has(fileKey)) issues.push(`${path}.filename: duplicate file "${a.filename}" in ${a.category}`);
+      seenFiles.add(fileKey);
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Migrates and validates untrusted input (model output, saved projects, archives).
+ * Throws ManifestValidationError listing every problem found.
+ */
+export const parseManifest = (raw: unknown, context = 'Manifest'): ProjectManifest => {
+  const migrated = migrateManifest(raw);
+  const issues = validateManifest(migrated);
+  if (issues.length > 0) {
+    throw new ManifestValidationError(issues, context);
+  }
+  return migrated as ProjectManifest;
+};
@@ -0,0 +1,94 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GameAsset, ProjectManifest } from "../types";
+import { mockProvider } from "./mockProvider";
+import { parseManifest } from "./manifestSchema";
+import { allConceptsApproved, getConceptAssets, getGroupKey, getReferences } from "./groupConcepts";
+import { createGenerationQueue, DEFAULT_QUEUE_OPTIONS } from "./generationQueue";
+import { classifyGenerationError } from "./generationErrors";
+
+/**
+ * The IDLE -> COMPLETE flow against the offline mock: plan, one concept per
+ * group, approval, then batch generation of everything else. Node has no
+ * canvas, so the mock draws on a recording context whose data URL encodes
+ * every call; equal drawings give equal images.
+ */
+
+const PROMPT = 'ninja in a neon city';
+
+const createRecordingCanvas = () => {
+  const calls: string[] = [];
+  const ctx = new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => key in target ? target[key] : (...args: unknown[]) => { calls.push(`${String(key)}(${args.join(',')})`); },
+    set: (target, key, value) => { calls.push(`${String(key)}=${value}`); target[key] = value; return true; }
+  });
+  return {
+    width: 0,
+    height: 0,
+    getContext: () => ctx,
+    toDataURL: () => `data:image/png;base64,${Buffer.from(calls.join(';')).toString('base64')}`
+  };
+};
+
+const withImage = (plan: ProjectManifest, assetId: string, imageUrl: string): ProjectManifest => ({
+  ...plan,
+  assets: plan.assets.map(a => a.id === assetId ? { ...a, imageUrl, status: 'done' } : a)
+});
+
+beforeAll(() => {
+  (globalThis as { document?: unknown }).document = { createElement: () => createRecordingCanvas() };
+});
+
+describe('mock provider', () => {
+  it('plans the same valid manifest for the same prompt', async () => {
+    const [a, b] = await Promise.all([mockProvider.generateProjectPlan(PROMPT), mockProvider.generateProjectPlan(PROMPT)]);
+    expect(a).toEqual(b);
+    expect(a.assets.length).toBeGreaterThan(0);
+    expect(a.assets.every(asset => asset.status === 'pending')).toBe(true);
+  });
+
+  it('runs plan -> concepts -> generation to a complete project', async () => {
+    let plan = await mockProvider.generateProjectPlan(PROMPT);
+
+    // Concepts: the style-defining one first, then the other groups against it
+    const [styleAsset, ...otherConcepts] = getConceptAssets(plan);
+    plan = { ...plan, groupConcepts: Object.fromEntries(getConceptAssets(plan).map(a => [getGroupKey(a), { assetId: a.id, approved: false }])) };
+    const styleImage = await mockProvider.generateAssetImage(styleAsset, plan.paletteDescription, {});
+    plan = { ...withImage(plan, styleAsset.id, styleImage), masterStyleImage: styleImage };
+    for (const asset of otherConcepts) {
+      plan = withImage(plan, asset.id, await mockProvider.generateAssetImage(asset, plan.paletteDescription, { style: styleImage }));
+    }
+    plan = { ...plan, groupConcepts: Object.fromEntries(Object.entries(plan.groupConcepts!).map(([key, c]) => [key, { ...c, approved: true }])) };
+    expect(allConceptsApproved(plan)).toBe(true);
+
+    // Production: everything else, through the queue
+    const remaining = plan.assets.filter(a => a.status !== 'done').map(a => a.id);
+    const queue = createGenerationQueue(remaining, {
+      ...DEFAULT_QUEUE_OPTIONS,
+      run: async (assetId) => {
+        const asset = plan.assets.find(a => a.id === assetId)!;
+        const imageUrl = await mockProvider.generateAssetImage(asset, plan.paletteDescription, getReferences(plan, asset));
+        plan = withImage(plan, assetId, imageUrl);
+      }
+    });
+    const result = await queue.start();
+
+    expect(result).toMatchObject({ state: 'finished', done: remaining.length, failed: 0 });
+    expect(plan.assets.every(a => a.status === 'done' && a.imageUrl)).toBe(true);
+    expect(() => parseManifest(plan)).not.toThrow();
+  });
+
+  it('draws the same asset the same way, and different assets differently', async () => {
+    const plan = await mockProvider.generateProjectPlan(PROMPT);
+    const [first, second] = plan.assets;
+    const image = await mockProvider.generateAssetImage(first, plan.paletteDescription);
+    expect(await mockProvider.generateAssetImage(first, plan.paletteDescription)).toBe(image);
+    expect(await mockProvider.generateAssetImage(second, plan.paletteDescription)).not.toBe(image);
+  });
+
+  it('fails on request with a classified error', async () => {
+    const plan = await mockProvider.generateProjectPlan(PROMPT);
+    const asset: GameAsset = { ...plan.assets[0], description: `${plan.assets[0].description} #fail:safety` };
+    const error = await mockProvider.generateAssetImage(asset, plan.paletteDescription).catch(e => e);
+    expect(classifyGenerationError(error)).toMatchObject({ kind: 'safety', retryable: false });
+  });
+});
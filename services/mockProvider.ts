@@ -0,0 +1,288 @@
+import { ProjectManifest, GameAsset } from "../types";
+import { AssetProvider, ImageReferences, normalizePlan } from "./assetProvider";
+import { GenerationError } from "./generationErrors";
+import { loadImage } from "./imageData";
+
+/**
+ * OFFLINE MOCK BACKEND
+ * Deterministic stand-in for the Gemini adapter. The same prompt always yields
+ * the same manifest, and the same asset always yields the same placeholder strip,
+ * so the full IDLE -> COMPLETE flow can run in CI or without network access.
+ */
+
+// Simulated network latency so loading states are still visible in the UI
+const MOCK_LATENCY_MS = 250;
+
+// Failure injection for exercising error paths offline:
+// a description or instruction containing "#fail:safety" rejects with that kind
+const FAIL_MARKER = /#fail:(quota|safety|no_image|network|unknown)/;
+
+const throwIfFailureRequested = (text: string) => {
+  const match = text.match(FAIL_MARKER);
+  if (match) {
+    throw new GenerationError(match[1] as GenerationError['kind'], `Mock failure requested (${match[1]}).`);
+  }
+};
+
+const FRAME_SIZE = 32;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a: small, stable string hash used to seed everything below
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const hsl = (h: number, s: number, l: number) => `hsl(${Math.round(h) % 360}, ${s}%, ${l}%)`;
+
+const ENEMY_NAMES = ['Goblin', 'Slime', 'Drone', 'Skeleton', 'Bat', 'Sentry'];
+const TILESETS = ['dungeon', 'forest', 'neon', 'cave', 'castle'];
+
+// --- PLAN ---
+
+const buildMockPlan = (userPrompt: string) => {
+  const random = createRandom(hashString(userPrompt));
+  const words = userPrompt.trim().split(/\s+/).filter(Boolean).slice(0, 4);
+  const theme = words.length > 0
+    ? words.map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ')
+    : 'Untitled Prototype';
+
+  const enemy = pick(random, ENEMY_NAMES);
+  const enemyKey = enemy.toLowerCase();
+  const tileset = pick(random, TILESETS);
+
+  const character = (group: string, action: string, frames: number, desc: string) => {
+    const key = group.toLowerCase();
+    return {
+      id: `${key}_${action}`,
+      category: 'Characters',
+      group,
+      name: `${key}_${action}`,
+      filename: frames > 1 ? `spr_${key}_${action}_strip${frames}.png` : `spr_${key}_${action}.png`,
+      description: `16-bit pixel art, snes style, ${desc}, white background, horizontal strip`,
+      metadata: { width: FRAME_SIZE, height: FRAME_SIZE, frames }
+    };
+  };
+
+  const assets = [
+    character('Player', 'idle', 4, 'hero standing idle, breathing loop'),
+    character('Player', 'run', 8, 'hero running cycle'),
+    character('Player', 'jump', 4, 'hero jumping, air pose'),
+    character('Player', 'crouch', 2, 'hero crouching'),
+    character('Player', 'roll', 6, 'hero dodge roll'),
+    character('Player', 'attack', 4, 'hero attack swing'),
+    character(enemy, 'walk', 4, `${enemyKey} enemy patrolling`),
+    {
+      id: `tile_${tileset}_floor`,
+      category: 'Environment',
+      group: 'Tileset',
+      name: `${tileset}_floor`,
+      filename: `tile_${tileset}_floor.png`,
+      description: `16-bit pixel art, snes style, ${tileset} floor tile, seamless, white background`,
+      metadata: { width: FRAME_SIZE, height: FRAME_SIZE, frames: 1 }
+    },
+    {
+      id: `tile_${tileset}_wall`,
+      category: 'Environment',
+      group: 'Tileset',
+      name: `${tileset}_wall`,
+      filename: `tile_${tileset}_wall.png`,
+      description: `16-bit pixel art, snes style, ${tileset} wall tile, seamless, white background`,
+      metadata: { width: FRAME_SIZE, height: FRAME_SIZE, frames: 1 }
+    },
+    {
+      id: 'ui_health_bar',
+      category: 'UI',
+      group: 'HUD',
+      name: 'health_bar',
+      filename: 'ui_health_bar.png',
+      description: '16-bit pixel art health bar frame, white background',
+      metadata: { width: 64, height: 16, frames: 1 }
+    },
+    {
+      id: 'ui_coin_icon',
+      category: 'UI',
+      group: 'HUD',
+      name: 'coin_icon',
+      filename: 'ui_coin_icon.png',
+      description: '16-bit pixel art coin icon, white background',
+      metadata: { width: 16, height: 16, frames: 1 }
+    }
+  ];
+
+  return {
+    theme,
+    paletteDescription: `Mock palette #${hashString(theme).toString(16).slice(0, 6)}: offline placeholder colors`,
+    designDocs: `# ${theme} (Offline Mock)\n\nThis manifest was produced by the offline mock provider.\n` +
+      `It mirrors the structure of a real plan: a Player with a full moveset, one ${enemy} enemy, ` +
+      `a ${tileset} tileset and two HUD elements.`,
+    assets
+  };
+};
+
+// --- IMAGES ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable.");
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  return { canvas, ctx };
+};
+
+const drawCharacterFrame = (
+  ctx: CanvasRenderingContext2D,
+  ox: number,
+  frame: number,
+  frames: number,
+  action: string,
+  hue: number
+) => {
+  const phase = frames > 1 ? frame / frames : 0;
+  const bob = Math.round(Math.sin(phase * Math.PI * 2) * 1);
+  const lift = action.includes('jump') ? Math.round(Math.sin(phase * Math.PI) * 4) : 0;
+  const crouch = action.includes('crouch') || action.includes('roll') ? 6 : 0;
+  const stride = action.includes('run') || action.includes('walk') ? Math.round(Math.sin(phase * Math.PI * 2) * 3) : 0;
+  const baseY = 30 - lift;
+
+  // Legs
+  ctx.fillStyle = hsl(hue + 180, 30, 25);
+  ctx.fillRect(ox + 12 + stride, baseY - 8, 3, 8);
+  ctx.fillRect(ox + 17 - stride, baseY - 8, 3, 8);
+
+  // Body
+  ctx.fillStyle = hsl(hue, 70, 45);
+  ctx.fillRect(ox + 10, baseY - 18 + crouch + bob, 12, 11 - Math.floor(crouch / 2));
+
+  // Head
+  ctx.fillStyle = hsl(hue + 30, 60, 70);
+  ctx.fillRect(ox + 11, baseY - 26 + crouch + bob, 10, 8);
+
+  // Eye
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(ox + 18, baseY - 23 + crouch + bob, 2, 2);
+
+  // Weapon swing for attack animations
+  if (action.includes('attack') || action.includes('shoot')) {
+    ctx.fillStyle = hsl(hue + 90, 80, 60);
+    const reach = Math.round(phase * 8);
+    ctx.fillRect(ox + 22, baseY - 14 + bob, reach + 2, 2);
+  }
+};
+
+const drawTile = (ctx: CanvasRenderingContext2D, random: () => number, hue: number, size: number) => {
+  ctx.fillStyle = hsl(hue, 35, 35);
+  ctx.fillRect(0, 0, size, size);
+  ctx.fillStyle = hsl(hue, 35, 25);
+  for (let i = 0; i < 24; i++) {
+    ctx.fillRect(Math.floor(random() * size), Math.floor(random() * size), 2, 2);
+  }
+  ctx.fillStyle = hsl(hue, 40, 50);
+  ctx.fillRect(0, 0, size, 3);
+};
+
+const drawUi = (ctx: CanvasRenderingContext2D, width: number, height: number, hue: number) => {
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = hsl(hue, 80, 50);
+  ctx.fillRect(2, 2, width - 4, height - 4);
+  ctx.fillStyle = hsl(hue, 80, 75);
+  ctx.fillRect(2, 2, width - 4, 2);
+};
+
+const renderPlaceholder = (asset: GameAsset, seed: string, variant = 0): string => {
+  const frames = Math.max(1, asset.metadata?.frames || 1);
+  const random = createRandom(hashString(seed));
+  // Keep hue stable per group so every animation of an entity shares its colors
+  // (variants rotate the hue so candidates are told apart at a glance)
+  const hue = (hashString(asset.group || asset.category) + variant * 47) % 360;
+
+  if (asset.category === 'Characters') {
+    const { canvas, ctx } = createCanvas(FRAME_SIZE * frames, FRAME_SIZE);
+    for (let i = 0; i < frames; i++) {
+      drawCharacterFrame(ctx, i * FRAME_SIZE, i, frames, asset.name.toLowerCase(), hue);
+    }
+    return canvas.toDataURL('image/png');
+  }
+
+  const width = asset.metadata?.width || FRAME_SIZE;
+  const height = asset.metadata?.height || FRAME_SIZE;
+  const { canvas, ctx } = createCanvas(width * frames, height);
+  for (let i = 0; i < frames; i++) {
+    ctx.save();
+    ctx.translate(i * width, 0);
+    if (asset.category === 'Environment') {
+      drawTile(ctx, random, hue, Math.min(width, height));
+    } else {
+      drawUi(ctx, width, height, hue);
+    }
+    ctx.restore();
+  }
+  return canvas.toDataURL('image/png');
+};
+
+// Deterministic "edit": rotates the color channels of every non-white pixel
+const applyMockEdit = async (currentImageUrl: string, userInstruction: string): Promise<string> => {
+  const img = await loadImage(currentImageUrl);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  ctx.clearRect(0, 0, img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+
+  const rotation = (hashString(userInstruction) % 2) + 1;
+  const imgData = ctx.getImageData(0, 0, img.width, img.height);
+  const data = imgData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const isBackground = data[i] > 240 && data[i + 1] > 240 && data[i + 2] > 240;
+    if (data[i + 3] === 0 || isBackground) continue;
+    const rgb = [data[i], data[i + 1], data[i + 2]];
+    data[i] = rgb[rotation % 3];
+    data[i + 1] = rgb[(rotation + 1) % 3];
+    data[i + 2] = rgb[(rotation + 2) % 3];
+  }
+  ctx.putImageData(imgData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: AssetProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+
+  generateProjectPlan: async (userPrompt: string): Promise<ProjectManifest> => {
+    await delay(MOCK_LATENCY_MS);
+    return normalizePlan(buildMockPlan(userPrompt));
+  },
+
+  generateAssetImage: async (asset: GameAsset, palette: string, references?: ImageReferences, variant?: number): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    throwIfFailureRequested(asset.description);
+    return renderPlaceholder(asset, `${asset.id}|${asset.description}|${palette}|${variant ?? ''}`, variant);
+  },
+
+  // Ignores the mask on purpose, like a model that redraws everything: the caller's composite must fix it
+  editAssetImage: async (currentImageUrl: string, userInstruction: string, originalDescription: string, maskUrl?: string): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    throwIfFailureRequested(userInstruction);
+    return applyMockEdit(currentImageUrl, userInstruction);
+  }
+};
@@ -0,0 +1,260 @@
+import { ProjectManifest, ProjectPalette } from "../types";
+import { readImageData } from "./imageData";
+
+/**
+ * PROJECT PALETTE
+ * A real list of colours (not just the prose in `paletteDescription`) that
+ * every asset is remapped to. It is extracted from the approved style
+ * reference with median cut, or entered by hand.
+ */
+
+export const PALETTE_LIMITS = [8, 16, 32, 64];
+
+export const DEFAULT_PALETTE: Omit<ProjectPalette, 'colors'> = {
+  limit: 16,
+  dither: false,
+  enforce: true,
+  source: 'concept'
+};
+
+export type RGB = [number, number, number];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const OPAQUE = 128; // Pixels below this alpha are background/fringe and don't count
+const MAX_SAMPLES = 65536;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+export const hexToRgb = (hex: string): RGB =>
+  [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16)];
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
+
+const luminance = ([r, g, b]: RGB) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Pulls every #rrggbb (or #rgb) out of free text, e.g. a pasted Lospec list.
+ */
+export const parsePaletteText = (text: string): string[] => {
+  const colors = (text.match(/#?\b[0-9a-f]{6}\b|#[0-9a-f]{3}\b/gi) || []).map(c => {
+    const hex = c.replace('#', '').toLowerCase();
+    return `#${hex.length === 3 ? hex.split('').map(d => d + d).join('') : hex}`;
+  });
+  return Array.from(new Set(colors));
+};
+
+interface ColorBucket {
+  rgb: RGB;
+  count: number;
+}
+
+/**
+ * Median cut: repeatedly splits the box of colours with the widest channel
+ * range until there are `limit` boxes. The cut along that channel is placed
+ * where it best separates the two halves (Otsu), rather than at the exact
+ * median, so a cluster of similar shades is not torn in two.
+ * Returns the boxes' average colours, darkest first.
+ */
+export const extractPalette = (image: ImageData, limit: number): string[] => {
+  const { data } = image;
+  const pixels = data.length / 4;
+  const stride = Math.max(1, Math.floor(pixels / MAX_SAMPLES));
+
+  // Histogram in 5-bit buckets keeps the boxes small without losing distinct colours
+  const histogram = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let p = 0; p < pixels; p += stride) {
+    const i = p * 4;
+    if (data[i + 3] < OPAQUE) continue;
+    const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    const entry = histogram.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    entry.count++;
+    entry.r += data[i];
+    entry.g += data[i + 1];
+    entry.b += data[i + 2];
+    histogram.set(key, entry);
+  }
+  const colors: ColorBucket[] = Array.from(histogram.values())
+    .map(e => ({ rgb: [e.r / e.count, e.g / e.count, e.b / e.count] as RGB, count: e.count }));
+  if (colors.length === 0) return [];
+
+  const range = (box: ColorBucket[], c: number) => {
+    let min = 255, max = 0;
+    box.forEach(({ rgb }) => { min = Math.min(min, rgb[c]); max = Math.max(max, rgb[c]); });
+    return max - min;
+  };
+  const widestChannel = (box: ColorBucket[]) => [0, 1, 2].reduce((best, c) => range(box, c) > range(box, best) ? c : best, 0);
+
+  const boxes: ColorBucket[][] = [colors];
+  while (boxes.length < limit) {
+    // Split the box that spans the most colour space (weighted by how much of the image it covers)
+    let target = -1, targetScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      const score = range(box, widestChannel(box)) * Math.sqrt(box.reduce((n, c) => n + c.count, 0));
+      if (score > targetScore) { target = i; targetScore = score; }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const channel = widestChannel(box);
+    box.sort((a, b) => a.rgb[channel] - b.rgb[channel]);
+    const total = box.reduce((n, c) => n + c.count, 0);
+    const sum = box.reduce((n, c) => n + c.rgb[channel] * c.count, 0);
+    let split = 1, bestVariance = -1, count0 = 0, sum0 = 0;
+    for (let k = 1; k < box.length; k++) {
+      count0 += box[k - 1].count;
+      sum0 += box[k - 1].rgb[channel] * box[k - 1].count;
+      const count1 = total - count0;
+      const variance = count0 * count1 * (sum0 / count0 - (sum - sum0) / count1) ** 2;
+      if (variance > bestVariance) { bestVariance = variance; split = k; }
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const averages = boxes.map(box => {
+    const total = box.reduce((n, c) => n + c.count, 0);
+    return [0, 1, 2].map(ch => Math.round(box.reduce((s, c) => s + c.rgb[ch] * c.count, 0) / total)) as RGB;
+  });
+  averages.sort((a, b) => luminance(a) - luminance(b));
+  return Array.from(new Set(averages.map(([r, g, b]) => rgbToHex(r, g, b))));
+};
+
+export const extractPaletteFromUrl = async (imageUrl: string, limit: number) =>
+  extractPalette(await readImageData(imageUrl), limit);
+
+/**
+ * The index of the palette colour nearest to (r, g, b), by weighted RGB
+ * distance: closer to perceived difference than plain RGB.
+ */
+export const nearestColorIndex = (palette: RGB[], r: number, g: number, b: number): number => {
+  let best = Infinity, index = 0;
+  palette.forEach((c, i) => {
+    const d = 2 * (r - c[0]) ** 2 + 4 * (g - c[1]) ** 2 + 3 * (b - c[2]) ** 2;
+    if (d < best) { best = d; index = i; }
+  });
+  return index;
+};
+
+/**
+ * Indexed pixels for formats with a colour table (GIF, Aseprite): each opaque
+ * pixel becomes `offset` + the index of its nearest palette colour; pixels
+ * below the alpha threshold stay 0, the transparent index when `offset` is 1.
+ */
+export const toPaletteIndices = (image: ImageData, palette: RGB[], offset: number): Uint8Array => {
+  const out = new Uint8Array(image.width * image.height);
+  const cache = new Map<number, number>();
+  for (let p = 0; p < out.length; p++) {
+    const i = p * 4;
+    if (image.data[i + 3] < OPAQUE) continue;
+    const key = (image.data[i] << 16) | (image.data[i + 1] << 8) | image.data[i + 2];
+    let index = cache.get(key);
+    if (index === undefined) {
+      index = nearestColorIndex(palette, image.data[i], image.data[i + 1], image.data[i + 2]) + offset;
+      cache.set(key, index);
+    }
+    out[p] = index;
+  }
+  return out;
+};
+
+// 4x4 Bayer matrix, normalized to -0.5..0.5
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => (v + 0.5) / 16 - 0.5);
+const DITHER_SPREAD = 48;
+
+/**
+ * Remaps every opaque pixel to the nearest palette colour, optionally with
+ * ordered (Bayer) dithering. Alpha is left untouched.
+ */
+export const quantizeImage = (image: ImageData, colors: string[], dither: boolean): ImageData => {
+  const palette = colors.map(hexToRgb);
+  const out = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  if (palette.length === 0) return out;
+
+  const { data, width } = out;
+  const cache = new Map<number, RGB>();
+  const nearest = (r: number, g: number, b: number): RGB => {
+    const key = (r << 16) | (g << 8) | b;
+    let hit = cache.get(key);
+    if (!hit) {
+      hit = palette[nearestColorIndex(palette, r, g, b)];
+      cache.set(key, hit);
+    }
+    return hit;
+  };
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    let r = data[i], g = data[i + 1], b = data[i + 2];
+    if (dither) {
+      const p = i / 4;
+      const offset = BAYER_4X4[((Math.floor(p / width) % 4) * 4) + (p % width) % 4] * DITHER_SPREAD;
+      r = Math.max(0, Math.min(255, Math.round(r + offset)));
+      g = Math.max(0, Math.min(255, Math.round(g + offset)));
+      b = Math.max(0, Math.min(255, Math.round(b + offset)));
+    }
+    const [qr, qg, qb] = nearest(r, g, b);
+    data[i] = qr;
+    data[i + 1] = qg;
+    data[i + 2] = qb;
+  }
+  return out;
+};
+
+export interface PaletteCompliance {
+  offPalettePixels: number;
+  opaquePixels: number;
+  offPaletteColors: string[]; // Most used first
+}
+
+export const checkCompliance = (image: ImageData, colors: string[]): PaletteCompliance => {
+  const allowed = new Set(colors.map(c => c.toLowerCase()));
+  const offColors = new Map<string, number>();
+  const { data } = image;
+  let opaquePixels = 0, offPalettePixels = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < OPAQUE) continue;
+    opaquePixels++;
+    const hex = rgbToHex(data[i], data[i + 1], data[i + 2]);
+    if (!allowed.has(hex)) {
+      offPalettePixels++;
+      offColors.set(hex, (offColors.get(hex) ?? 0) + 1);
+    }
+  }
+
+  return {
+    offPalettePixels,
+    opaquePixels,
+    offPaletteColors: Array.from(offColors.entries()).sort((a, b) => b[1] - a[1]).map(([hex]) => hex)
+  };
+};
+
+export interface PaletteReportEntry extends PaletteCompliance {
+  assetId: string;
+  filename: string;
+}
+
+/**
+ * Checks every generated asset against the project palette.
+ */
+export const getPaletteReport = async (plan: ProjectManifest): Promise<PaletteReportEntry[]> => {
+  const colors = plan.palette?.colors ?? [];
+  const entries = await Promise.all(plan.assets.filter(a => a.imageUrl).map(async asset => {
+    try {
+      const compliance = checkCompliance(await readImageData(asset.imageUrl!), colors);
+      return { assetId: asset.id, filename: asset.filename, ...compliance };
+    } catch {
+      return null;
+    }
+  }));
+  return entries.filter((e): e is PaletteReportEntry => e !== null);
+};
+
+/**
+ * The palette prose for prompts, with the exact colours when there is a palette.
+ */
+export const getPalettePrompt = (plan: ProjectManifest): string =>
+  plan.palette && plan.palette.colors.length > 0
+    ? `${plan.paletteDescription}\nUse ONLY these colors: ${plan.palette.colors.join(', ')}.`
+    : plan.paletteDescription;
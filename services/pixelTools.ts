@@ -0,0 +1,191 @@
+/**
+ * PIXEL TOOLS
+ * The pixel-exact geometry behind the manual editor's tools: which pixels a
+ * line, rectangle, ellipse or brush stamp covers, mirrored copies of them,
+ * and selection masks (one byte per canvas pixel, 1 = selected).
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface PixelBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RGBA = [number, number, number, number];
+
+// Bresenham: every pixel between the two points, no gaps and no doubles
+export const linePoints = (x0: number, y0: number, x1: number, y1: number): Point[] => {
+  const points: Point[] = [];
+  const dx = Math.abs(x1 - x0), dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1, sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy, x = x0, y = y0;
+  while (true) {
+    points.push({ x, y });
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+  return points;
+};
+
+const normalize = (x0: number, y0: number, x1: number, y1: number) =>
+  ({ left: Math.min(x0, x1), top: Math.min(y0, y1), right: Math.max(x0, x1), bottom: Math.max(y0, y1) });
+
+export const rectPoints = (x0: number, y0: number, x1: number, y1: number): Point[] => {
+  const { left, top, right, bottom } = normalize(x0, y0, x1, y1);
+  const points: Point[] = [];
+  for (let x = left; x <= right; x++) points.push({ x, y: top }, { x, y: bottom });
+  for (let y = top + 1; y < bottom; y++) points.push({ x: left, y }, { x: right, y });
+  return points;
+};
+
+/**
+ * Outline of the ellipse inscribed in the box from (x0, y0) to (x1, y1).
+ * Sampled per column and per row, so steep and flat parts have no gaps.
+ */
+export const ellipsePoints = (x0: number, y0: number, x1: number, y1: number): Point[] => {
+  const { left, top, right, bottom } = normalize(x0, y0, x1, y1);
+  const cx = (left + right) / 2, cy = (top + bottom) / 2;
+  const rx = (right - left) / 2, ry = (bottom - top) / 2;
+  if (rx < 1 || ry < 1) return linePoints(left, top, right, bottom);
+
+  const seen = new Set<number>();
+  const points: Point[] = [];
+  const add = (x: number, y: number) => {
+    const key = y * 65536 + x;
+    if (!seen.has(key)) { seen.add(key); points.push({ x, y }); }
+  };
+  for (let x = left; x <= right; x++) {
+    const dy = ry * Math.sqrt(Math.max(0, 1 - ((x - cx) / rx) ** 2));
+    add(x, Math.round(cy - dy));
+    add(x, Math.round(cy + dy));
+  }
+  for (let y = top; y <= bottom; y++) {
+    const dx = rx * Math.sqrt(Math.max(0, 1 - ((y - cy) / ry) ** 2));
+    add(Math.round(cx - dx), y);
+    add(Math.round(cx + dx), y);
+  }
+  return points;
+};
+
+// A square stamp of `size` pixels centred on the point (up-left for even sizes)
+export const brushPoints = (x: number, y: number, size: number): Point[] => {
+  const offset = Math.floor((size - 1) / 2);
+  const points: Point[] = [];
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) points.push({ x: x - offset + dx, y: y - offset + dy });
+  }
+  return points;
+};
+
+/**
+ * The points plus their reflections across the canvas' vertical axis
+ * (`mirrorX`), horizontal axis (`mirrorY`) or both.
+ */
+export const mirrorPoints = (points: Point[], width: number, height: number, mirrorX: boolean, mirrorY: boolean): Point[] => {
+  let out = points;
+  if (mirrorX) out = [...out, ...out.map(p => ({ x: width - 1 - p.x, y: p.y }))];
+  if (mirrorY) out = [...out, ...out.map(p => ({ x: p.x, y: height - 1 - p.y }))];
+  return out;
+};
+
+export const hexToRgba = (hex: string): RGBA =>
+  [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16), 255];
+
+const samePixel = (data: Uint8ClampedArray, i: number, c: RGBA) =>
+  data[i] === c[0] && data[i + 1] === c[1] && data[i + 2] === c[2] && data[i + 3] === c[3];
+
+/**
+ * The contiguous area of exactly the colour at (x, y), as a mask.
+ */
+export const wandMask = (image: ImageData, x: number, y: number): Uint8Array => {
+  const { data, width, height } = image;
+  const mask = new Uint8Array(width * height);
+  if (x < 0 || y < 0 || x >= width || y >= height) return mask;
+  const i0 = (y * width + x) * 4;
+  const target: RGBA = [data[i0], data[i0 + 1], data[i0 + 2], data[i0 + 3]];
+  const stack = [y * width + x];
+  while (stack.length) {
+    const p = stack.pop()!;
+    if (mask[p] || !samePixel(data, p * 4, target)) continue;
+    mask[p] = 1;
+    const px = p % width;
+    if (px > 0) stack.push(p - 1);
+    if (px < width - 1) stack.push(p + 1);
+    if (p >= width) stack.push(p - width);
+    if (p < width * (height - 1)) stack.push(p + width);
+  }
+  return mask;
+};
+
+/**
+ * Fills the area `wandMask` would select with `color`. Returns false when
+ * there was nothing to change.
+ */
+export const floodFill = (image: ImageData, x: number, y: number, color: RGBA): boolean => {
+  const i0 = (y * image.width + x) * 4;
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height || samePixel(image.data, i0, color)) return false;
+  const mask = wandMask(image, x, y);
+  mask.forEach((m, p) => { if (m) image.data.set(color, p * 4); });
+  return true;
+};
+
+export const rectMask = (width: number, height: number, rect: PixelBounds): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  for (let y = Math.max(0, rect.y); y < Math.min(height, rect.y + rect.height); y++) {
+    for (let x = Math.max(0, rect.x); x < Math.min(width, rect.x + rect.width); x++) mask[y * width + x] = 1;
+  }
+  return mask;
+};
+
+export const maskBounds = (mask: Uint8Array, width: number): PixelBounds | null => {
+  let left = Infinity, top = Infinity, right = -1, bottom = -1;
+  mask.forEach((m, p) => {
+    if (!m) return;
+    const x = p % width, y = (p - x) / width;
+    left = Math.min(left, x); right = Math.max(right, x);
+    top = Math.min(top, y); bottom = Math.max(bottom, y);
+  });
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/**
+ * Copies the selected pixels (within `bounds`) into a new image; unselected
+ * pixels are transparent.
+ */
+export const extractMasked = (image: ImageData, mask: Uint8Array, bounds: PixelBounds): ImageData => {
+  const out = new ImageData(bounds.width, bounds.height);
+  for (let y = 0; y < bounds.height; y++) {
+    for (let x = 0; x < bounds.width; x++) {
+      const p = (bounds.y + y) * image.width + bounds.x + x;
+      if (mask[p]) out.data.set(image.data.subarray(p * 4, p * 4 + 4), (y * bounds.width + x) * 4);
+    }
+  }
+  return out;
+};
+
+export const clearMasked = (image: ImageData, mask: Uint8Array) => {
+  mask.forEach((m, p) => { if (m) image.data.fill(0, p * 4, p * 4 + 4); });
+};
+
+/**
+ * The mask of `image`'s opaque pixels placed at (x, y) on a canvas of the given size.
+ */
+export const footprintMask = (image: ImageData, x: number, y: number, width: number, height: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  for (let iy = 0; iy < image.height; iy++) {
+    for (let ix = 0; ix < image.width; ix++) {
+      const cx = x + ix, cy = y + iy;
+      if (cx < 0 || cy < 0 || cx >= width || cy >= height) continue;
+      if (image.data[(iy * image.width + ix) * 4 + 3] > 0) mask[cy * width + cx] = 1;
+    }
+  }
+  return mask;
+};
@@ -0,0 +1,57 @@
+import { GameAsset, PlaygroundBindings, PlaygroundRole, ProjectManifest } from "../types";
+import { findBackgroundAsset, findTileAsset } from "./level";
+
+/**
+ * PLAYGROUND BINDINGS
+ * Which asset plays the player's idle, run and jump, the tile, the backdrop
+ * and the enemy. Roles picked in the playground are saved on the manifest;
+ * the others are guessed from names. Run and jump fall back to the idle
+ * strip, which may carry "run"/"jump" tags of its own.
+ */
+
+export const PLAYGROUND_ROLES: { role: PlaygroundRole; label: string; category: GameAsset['category'] }[] = [
+  { role: 'idle', label: 'IDLE', category: 'Characters' },
+  { role: 'run', label: 'RUN', category: 'Characters' },
+  { role: 'jump', label: 'JUMP', category: 'Characters' },
+  { role: 'enemy', label: 'ENEMY', category: 'Characters' },
+  { role: 'tile', label: 'TILE', category: 'Environment' },
+  { role: 'background', label: 'BACKGROUND', category: 'Environment' }
+];
+
+// Heuristic Matcher: Find best assets based on filename/group
+const findAsset = (assets: GameAsset[], category: string, keyword: string) =>
+  assets.find(a =>
+    a.category === category &&
+    (a.name.toLowerCase().includes(keyword) || a.filename.toLowerCase().includes(keyword))
+  );
+
+export const guessBindings = (assets: GameAsset[]): Record<PlaygroundRole, GameAsset | undefined> => ({
+  idle: findAsset(assets, 'Characters', 'idle') || assets.find(a => a.category === 'Characters'),
+  run: findAsset(assets, 'Characters', 'run'),
+  jump: findAsset(assets, 'Characters', 'jump'),
+  tile: findTileAsset(assets),
+  background: findBackgroundAsset(assets),
+  enemy: assets.find(a => a.category === 'Characters' && !a.name.toLowerCase().includes('player') && !a.group?.toLowerCase().includes('player'))
+});
+
+/**
+ * The asset for every role: the saved pick while it still exists and has an
+ * image, the guess otherwise. Only roles with an image are returned.
+ */
+export const resolveBindings = (plan: ProjectManifest): Partial<Record<PlaygroundRole, GameAsset>> => {
+  const guessed = guessBindings(plan.assets);
+  const resolved: Partial<Record<PlaygroundRole, GameAsset>> = {};
+  PLAYGROUND_ROLES.forEach(({ role }) => {
+    const picked = plan.assets.find(a => a.id === plan.playgroundBindings?.[role]);
+    const asset = picked?.imageUrl ? picked : guessed[role];
+    if (asset?.imageUrl) resolved[role] = asset;
+  });
+  return resolved;
+};
+
+export const withBinding = (bindings: PlaygroundBindings | undefined, role: PlaygroundRole, assetId: string | null): PlaygroundBindings => {
+  const next = { ...bindings };
+  if (assetId) next[role] = assetId;
+  else delete next[role];
+  return next;
+};
@@ -0,0 +1,279 @@
+import { GameAsset, ProjectManifest } from "../types";
+import { loadImage } from "./imageData";
+import { findBox, getPivot } from "./frameData";
+import { findTag, getAnimation, getPlaybackRange, getSequence } from "./animationTiming";
+import { resolveBindings } from "./playgroundBindings";
+import {
+  PLAYGROUND_LEVEL, PLAYGROUND_PHYSICS, CANVAS_WIDTH, CANVAS_HEIGHT, DEFAULT_SIZE,
+  getDrawScale, getGroundRow, getPlatforms
+} from "./level";
+
+/**
+ * PLAYABLE HTML EXPORT
+ * Writes the playground as one self-contained HTML file: the sprites are
+ * embedded as data URLs and everything the playground works out at load
+ * time (bindings, draw scales, body size, pivots, clip sequences, level
+ * layout) is baked into a GAME object, so the page only runs the loop.
+ * Double-click the file to play; no server or network is needed.
+ */
+
+interface BakedSprite {
+  src: string;
+  frames: number;
+  width: number;   // One frame
+  height: number;
+  scale: number;   // On screen
+  pivots: { x: number; y: number }[];
+}
+
+interface BakedClip {
+  sprite: string;      // Key in GAME.sprites
+  sequence: number[];  // Frames of one cycle
+  durations: number[]; // ms, per sequence entry
+  once: boolean;
+}
+
+const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read image."));
+    reader.readAsDataURL(blob);
+  });
+};
+
+const bakeSprite = async (asset: GameAsset): Promise<BakedSprite> => {
+  const image = await loadImage(asset.imageUrl!);
+  const frames = asset.metadata?.frames || 1;
+  const width = image.width / frames;
+  return {
+    src: await toDataUrl(asset.imageUrl!),
+    frames,
+    width,
+    height: image.height,
+    scale: getDrawScale(image.height),
+    pivots: Array.from({ length: frames }, (_, i) => getPivot(asset.metadata?.frameData?.[i], width, image.height))
+  };
+};
+
+// The strip's timing, limited to a tag when the strip has one for the state (as in the playground)
+const bakeClip = (asset: GameAsset, state: string): BakedClip => {
+  const animation = getAnimation(asset);
+  const range = getPlaybackRange(animation, findTag(animation, state));
+  const sequence = getSequence(range);
+  return { sprite: asset.id, sequence, durations: sequence.map(f => animation.frameDurations[f]), once: range.loop === 'once' };
+};
+
+/**
+ * The GAME object of the page. Throws when there is no player sprite, since
+ * there would be nothing to play.
+ */
+const bakePlayground = async (plan: ProjectManifest) => {
+  const bound = resolveBindings(plan);
+  if (!bound.idle) throw new Error("There is no generated character to play.");
+
+  const sprites: Record<string, BakedSprite> = {};
+  for (const asset of Object.values(bound)) {
+    if (asset && !sprites[asset.id]) sprites[asset.id] = await bakeSprite(asset);
+  }
+
+  // The idle hurtbox is the body; without one, the whole frame is
+  const idle = sprites[bound.idle.id];
+  const body = findBox(bound.idle.metadata?.frameData?.[0], 'hurtbox') ?? { x: 0, y: 0, width: idle.width, height: idle.height };
+  const tile = bound.tile ? sprites[bound.tile.id] : null;
+
+  return {
+    physics: PLAYGROUND_PHYSICS,
+    level: {
+      rows: PLAYGROUND_LEVEL.rows,
+      cells: PLAYGROUND_LEVEL.cells.map(c => [c.column, c.row]),
+      platforms: getPlatforms(PLAYGROUND_LEVEL),
+      groundRow: getGroundRow(PLAYGROUND_LEVEL),
+      playerSpawn: PLAYGROUND_LEVEL.playerSpawn,
+      enemySpawn: PLAYGROUND_LEVEL.enemySpawn
+    },
+    tileSize: tile ? Math.round(tile.width * tile.scale) : DEFAULT_SIZE,
+    sprites,
+    tile: bound.tile?.id ?? null,
+    background: bound.background?.id ?? null,
+    player: {
+      width: Math.round(body.width * idle.scale),
+      height: Math.round(body.height * idle.scale),
+      scale: idle.scale,
+      pivot: { x: (idle.pivots[0].x - body.x) * idle.scale, y: (idle.pivots[0].y - body.y) * idle.scale },
+      clips: {
+        idle: bakeClip(bound.idle, 'idle'),
+        run: bakeClip(bound.run ?? bound.idle, 'run'),
+        jump: bakeClip(bound.jump ?? bound.idle, 'jump')
+      }
+    },
+    enemy: bound.enemy ? bakeClip(bound.enemy, 'idle') : null
+  };
+};
+
+// The page's game loop; mirrors GamePlayground.tsx with everything precomputed
+const RUNTIME = `
+(function () {
+  var canvas = document.getElementById('game');
+  var ctx = canvas.getContext('2d');
+  var P = GAME.physics, L = GAME.level, T = GAME.tileSize;
+  var keys = { left: false, right: false, jump: false };
+  var images = {};
+  var player = { x: 0, y: 0, vx: 0, vy: 0, state: 'idle', stateStart: 0, facingRight: true, grounded: false };
+
+  var rowY = function (row) { return canvas.height - (L.rows - row) * T; };
+  var floorY = rowY(L.groundRow);
+
+  var frameAt = function (clip, elapsed) {
+    var cycle = clip.durations.reduce(function (a, b) { return a + b; }, 0);
+    if (clip.once && elapsed >= cycle) return clip.sequence[clip.sequence.length - 1];
+    var t = cycle > 0 ? Math.max(0, elapsed) % cycle : 0;
+    for (var i = 0; i < clip.sequence.length; i++) {
+      if (t < clip.durations[i]) return clip.sequence[i];
+      t -= clip.durations[i];
+    }
+    return clip.sequence[clip.sequence.length - 1];
+  };
+
+  var reset = function () {
+    player.x = L.playerSpawn.column * T;
+    player.y = rowY(L.playerSpawn.row + 1) - GAME.player.height;
+    player.vx = 0;
+    player.vy = 0;
+  };
+
+  var setKey = function (e, down) {
+    if (e.code === 'ArrowLeft' || e.key === 'a') keys.left = down;
+    else if (e.code === 'ArrowRight' || e.key === 'd') keys.right = down;
+    else if (e.code === 'ArrowUp' || e.code === 'Space' || e.key === 'w') keys.jump = down;
+    else if (e.key === 'r' && down) reset();
+    else return;
+    e.preventDefault();
+  };
+  window.addEventListener('keydown', function (e) { setKey(e, true); });
+  window.addEventListener('keyup', function (e) { setKey(e, false); });
+
+  var loop = function (time) {
+    // Physics
+    if (keys.right) { player.vx += P.acceleration; player.facingRight = true; }
+    if (keys.left) { player.vx -= P.acceleration; player.facingRight = false; }
+    player.vx *= P.friction;
+    player.vy += P.gravity;
+    player.x += player.vx;
+    player.y += player.vy;
+
+    player.grounded = player.y + GAME.player.height > floorY;
+    if (player.grounded) { player.y = floorY - GAME.player.height; player.vy = 0; }
+
+    var feetY = player.y + GAME.player.height;
+    L.platforms.forEach(function (p) {
+      var px = p.column * T, py = rowY(p.row);
+      if (player.x + GAME.player.width > px && player.x < px + p.length * T && feetY > py && feetY < py + 10 && player.vy > 0) {
+        player.y = py - GAME.player.height;
+        player.vy = 0;
+        player.grounded = true;
+      }
+    });
+
+    if (keys.jump && player.grounded) { player.vy = P.jumpForce; player.grounded = false; }
+
+    var previous = player.state;
+    player.state = !player.grounded ? 'jump' : Math.abs(player.vx) > 0.5 ? 'run' : 'idle';
+    if (player.state !== previous) player.stateStart = time;
+
+    // Background
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = false;
+    if (GAME.background) ctx.drawImage(images[GAME.background], 0, 0, canvas.width, canvas.height);
+    else { ctx.fillStyle = '#1a1a2a'; ctx.fillRect(0, 0, canvas.width, canvas.height); }
+
+    // Tiles
+    var tile = GAME.tile && GAME.sprites[GAME.tile];
+    ctx.fillStyle = '#333';
+    L.cells.forEach(function (cell) {
+      var x = cell[0] * T, y = rowY(cell[1]);
+      if (tile) ctx.drawImage(images[GAME.tile], 0, 0, tile.width, tile.height, x, y, T, T);
+      else ctx.fillRect(x, y, T, T);
+    });
+
+    // Enemy (patrol, standing on its pivot)
+    if (GAME.enemy) {
+      var es = GAME.sprites[GAME.enemy.sprite];
+      var ef = frameAt(GAME.enemy, time) % es.frames;
+      var ex = L.enemySpawn.column * T + Math.sin(time / 1000) * 100 + (es.width / 2 - es.pivots[ef].x) * es.scale;
+      var ey = floorY - es.pivots[ef].y * es.scale;
+      ctx.drawImage(images[GAME.enemy.sprite], ef * es.width, 0, es.width, es.height, ex, ey, es.width * es.scale, es.height * es.scale);
+    }
+
+    // Player, with every frame's pivot on the same spot
+    var clip = GAME.player.clips[player.state];
+    var sprite = GAME.sprites[clip.sprite];
+    var frame = frameAt(clip, time - player.stateStart) % sprite.frames;
+    var w = GAME.player.width, h = GAME.player.height, s = GAME.player.scale;
+    ctx.save();
+    ctx.translate(player.x + w / 2, player.y + h / 2);
+    if (!player.facingRight) ctx.scale(-1, 1);
+    ctx.drawImage(
+      images[clip.sprite], frame * sprite.width, 0, sprite.width, sprite.height,
+      GAME.player.pivot.x - w / 2 - sprite.pivots[frame].x * s, GAME.player.pivot.y - h / 2 - sprite.pivots[frame].y * s,
+      sprite.width * s, sprite.height * s
+    );
+    ctx.restore();
+
+    ctx.font = '10px monospace';
+    ctx.fillStyle = 'white';
+    ctx.fillText('ARROWS / WASD to Move, SPACE to Jump, R to Restart', 10, canvas.height - 10);
+
+    requestAnimationFrame(loop);
+  };
+
+  var load = function (src) {
+    return new Promise(function (resolve, reject) {
+      var img = new Image();
+      img.onload = function () { resolve(img); };
+      img.onerror = reject;
+      img.src = src;
+    });
+  };
+  var ids = Object.keys(GAME.sprites);
+  Promise.all(ids.map(function (id) { return load(GAME.sprites[id].src); })).then(function (loaded) {
+    ids.forEach(function (id, i) { images[id] = loaded[i]; });
+    reset();
+    requestAnimationFrame(loop);
+  });
+})();
+`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildPlayableHtml = async (plan: ProjectManifest): Promise<string> => {
+  const game = await bakePlayground(plan);
+  // "</" would end the script element early
+  const data = JSON.stringify(game).replace(/<\//g, '<\\/');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(plan.theme)} - Playable Prototype</title>
+<style>
+  html, body { margin: 0; height: 100%; background: #0a0a0a; }
+  body { display: flex; align-items: center; justify-content: center; }
+  canvas { width: 100vw; max-width: calc(100vh * ${CANVAS_WIDTH} / ${CANVAS_HEIGHT}); image-rendering: pixelated; }
+</style>
+</head>
+<body>
+<canvas id="game" width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}"></canvas>
+<script>
+var GAME = ${data};
+${RUNTIME}
+</script>
+</body>
+</html>
+`;
+};
+
+export const getPlayableFilename = (plan: ProjectManifest) => `${plan.theme.replace(/\s+/g, '_')}_Playable.html`;
@@ -0,0 +1,208 @@
+import JSZip from 'jszip';
+import { ProjectManifest, GameAsset, AssetRevision } from "../types";
+import { isRecord, migrateManifest, parseManifest } from "./manifestSchema";
+import { ERROR_KIND_LABELS } from "./generationErrors";
+import { buildSheetData, getFrameSize, getSheetFilename, hasSheetData } from "./sheetData";
+
+/**
+ * PROJECT ARCHIVE
+ * Writes and reads the downloadable ZIP layout:
+ *   Project_<Theme>/_Documentation/Game_Design_Doc.md
+ *   Project_<Theme>/_Documentation/Manifest.json
+ *   Project_<Theme>/{Characters,Environment,UI}/<filename>
+ *   Project_<Theme>/{Characters,Environment,UI}/<filename>.json  (strips: frames, timing, tags, boxes)
+ *   Project_<Theme>/_History/{Characters,Environment,UI}/<name>/<revision id>[_raw].<ext>
+ *   Project_<Theme>/_History/Style/<revision id>.<ext>
+ * Every image is stored once, as a file; the manifest refers to images by
+ * their path in the archive instead of embedding them.
+ */
+
+const MANIFEST_PATH = '_Documentation/Manifest.json';
+const HISTORY_FOLDER = '_History';
+
+// Also takes the unchecked assets of an archive being imported
+export const getCategoryFolder = (asset: { category?: unknown }) =>
+  asset.category === 'Characters' || asset.category === 'Environment' ? asset.category : 'UI';
+
+/**
+ * Assets that would be absent from an export (never generated or failed).
+ */
+export const getMissingAssets = (plan: ProjectManifest): GameAsset[] =>
+  plan.assets.filter(a => !a.imageUrl);
+
+export const describeMissingReason = (asset: GameAsset) =>
+  asset.error ? `${ERROR_KIND_LABELS[asset.error.kind]}: ${asset.error.message}` : asset.status.toUpperCase();
+
+const buildMissingReport = (missing: GameAsset[]) => [
+  '# Missing Assets',
+  '',
+  `This export is incomplete: ${missing.length} file(s) listed in Manifest.json were not generated.`,
+  '',
+  '| File | Folder | Reason |',
+  '| --- | --- | --- |',
+  ...missing.map(a => `| ${a.filename} | ${getCategoryFolder(a)} | ${describeMissingReason(a).replace(/\|/g, '\\|')} |`)
+].join('\n');
+
+const extensionFromUrl = (url: string) => {
+  const type = url.match(/^data:image\/([a-z]+)/)?.[1];
+  return type === 'jpeg' ? 'jpg' : type || 'png';
+};
+
+export const buildProjectZip = async (plan: ProjectManifest): Promise<JSZip> => {
+  const zip = new JSZip();
+  const root = zip.folder(`Project_${plan.theme.replace(/\s+/g, '_')}`);
+
+  if (!root) throw new Error("Could not create project folder.");
+
+  // Image URL -> path of the file it was written to (relative to the project folder)
+  const paths = new Map<string, string>();
+  const writeImage = async (url: string, path: string) => {
+      root.file(path, await (await fetch(url)).blob());
+      if (!paths.has(url)) paths.set(url, path);
+  };
+  // History images that are already in the archive are not written twice
+  const addImage = async (url: string | undefined, path: string) => {
+      if (url && !paths.has(url)) await writeImage(url, `${path}.${extensionFromUrl(url)}`);
+      return url ? paths.get(url) : undefined;
+  };
+
+  for (const asset of plan.assets) {
+      if (!asset.imageUrl) continue;
+
+      await writeImage(asset.imageUrl, `${getCategoryFolder(asset)}/${asset.filename}`);
+
+      if (hasSheetData(asset)) {
+          const size = await getFrameSize(asset);
+          const sheet = buildSheetData(asset, size.width, size.height);
+          root.folder(getCategoryFolder(asset))?.file(getSheetFilename(asset), JSON.stringify(sheet, null, 2));
+      }
+  }
+
+  // One at a time, so an image shared by several revisions is only written once
+  const addRevisions = async (revisions: AssetRevision[] | undefined, folder: string) => {
+      if (!revisions) return revisions;
+      const stored: AssetRevision[] = [];
+      for (const r of revisions) {
+          stored.push({
+              ...r,
+              imageUrl: await addImage(r.imageUrl, `${folder}/${r.id}`),
+              rawImageUrl: await addImage(r.rawImageUrl, `${folder}/${r.id}_raw`)
+          });
+      }
+      return stored;
+  };
+
+  const assets: GameAsset[] = [];
+  for (const asset of plan.assets) {
+      assets.push({
+          ...asset,
+          imageUrl: asset.imageUrl && paths.get(asset.imageUrl),
+          revisions: await addRevisions(asset.revisions, `${HISTORY_FOLDER}/${getCategoryFolder(asset)}/${asset.filename.replace(/\.[^.]+$/, '')}`)
+      });
+  }
+  const styleRevisions = await addRevisions(plan.styleRevisions, `${HISTORY_FOLDER}/Style`);
+  const masterStyleImage = await addImage(plan.masterStyleImage, `${HISTORY_FOLDER}/Style/master`);
+
+  const docs = root.folder("_Documentation");
+  docs?.file("Game_Design_Doc.md", plan.designDocs);
+  docs?.file("Manifest.json", JSON.stringify({ ...plan, assets, styleRevisions, masterStyleImage }, null, 2));
+
+  const missing = getMissingAssets(plan);
+  if (missing.length > 0) {
+    docs?.file("Missing_Assets.md", buildMissingReport(missing));
+  }
+
+  return zip;
+};
+
+const mimeFromFilename = (filename: string) => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg';
+  if (ext === 'webp') return 'image/webp';
+  if (ext === 'gif') return 'image/gif';
+  return 'image/png';
+};
+
+/**
+ * Reads a ZIP produced by buildProjectZip back into a ProjectManifest.
+ * Image files in the category folders are the source of truth; each asset's
+ * `filename` is re-linked to its file, and `masterStyleImage` is re-linked to
+ * whichever asset it pointed at when the archive was written. Revisions are
+ * re-linked to their files under _History; those whose file is gone are
+ * dropped. Older archives embed every image in the manifest instead.
+ */
+export const importProjectZip = async (file: Blob): Promise<ProjectManifest> => {
+  const zip = await JSZip.loadAsync(file);
+
+  const manifestEntry = Object.values(zip.files).find(f => !f.dir && f.name.endsWith(MANIFEST_PATH));
+  if (!manifestEntry) {
+    throw new Error(`Not a project archive: ${MANIFEST_PATH} is missing.`);
+  }
+  const rootPrefix = manifestEntry.name.slice(0, manifestEntry.name.length - MANIFEST_PATH.length);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestEntry.async('string'));
+  } catch {
+    throw new Error("Manifest.json is not valid JSON.");
+  }
+  // Bring archives from older builds up to date before re-linking files;
+  // full validation runs on the rebuilt manifest below
+  const manifest = migrateManifest(raw);
+  if (!isRecord(manifest) || !Array.isArray(manifest.assets)) {
+    throw new Error("Manifest.json does not describe a project (missing assets).");
+  }
+
+  // A path in the archive, or (older archives) the image itself; each file is read once
+  const images = new Map<string, Promise<string | undefined>>();
+  const readImage = (value: unknown): Promise<string | undefined> => {
+    if (typeof value !== 'string') return Promise.resolve(undefined);
+    if (value.startsWith('data:')) return Promise.resolve(value);
+    if (!images.has(value)) {
+      const entry = zip.file(`${rootPrefix}${value}`);
+      images.set(value, entry
+        ? entry.async('base64').then(base64 => `data:${mimeFromFilename(value)};base64,${base64}`)
+        : Promise.resolve(undefined));
+    }
+    return images.get(value)!;
+  };
+
+  const readRevisions = async (revisions: unknown) => Array.isArray(revisions)
+    ? (await Promise.all(revisions.map(async (r: unknown) => {
+        if (!isRecord(r) || typeof r.imageUrl !== 'string') return r;
+        const imageUrl = await readImage(r.imageUrl);
+        return imageUrl ? { ...r, imageUrl, rawImageUrl: await readImage(r.rawImageUrl) } : null;
+      }))).filter(r => r !== null)
+    : revisions;
+
+  const previousMaster = typeof manifest.masterStyleImage === 'string' ? manifest.masterStyleImage : undefined;
+  let masterStyleImage: string | undefined;
+
+  const assets = await Promise.all(manifest.assets.map(async (a: unknown) => {
+    if (!isRecord(a) || typeof a.filename !== 'string') return a;
+    const imageUrl = await readImage(`${getCategoryFolder(a)}/${a.filename}`) ?? await readImage(a.imageUrl);
+
+    if (previousMaster && a.imageUrl === previousMaster && imageUrl) {
+      masterStyleImage = imageUrl;
+    }
+
+    return {
+      ...a,
+      imageUrl,
+      revisions: await readRevisions(a.revisions),
+      status: imageUrl ? 'done' : a.error ? 'error' : 'pending'
+    };
+  }));
+
+  // The master concept may not belong to any asset (e.g. it was later regenerated)
+  if (!masterStyleImage) {
+    masterStyleImage = await readImage(previousMaster);
+  }
+
+  return parseManifest({
+    ...manifest,
+    assets,
+    styleRevisions: await readRevisions(manifest.styleRevisions),
+    masterStyleImage
+  }, 'Manifest.json');
+};
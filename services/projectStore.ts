@@ -0,0 +1,130 @@
+import { AppPhase, SavedProject } from "../types";
+import { parseManifest } from "./manifestSchema";
+
+/**
+ * LOCAL PERSISTENCE
+ * Projects (manifest, base64 images, phase and terminal history) are stored in
+ * IndexedDB so a reload never throws away generated work.
+ */
+
+const DB_NAME = 'cerebro-projects';
+const DB_VERSION = 1;
+const STORE = 'projects';
+const LAST_PROJECT_KEY = 'cerebro.lastProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createProjectId = () =>
+  `prj_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<SavedProject[]> => {
+  const all = await withStore<SavedProject[]>('readonly', store => store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = (id: string): Promise<SavedProject | undefined> =>
+  withStore<SavedProject | undefined>('readonly', store => store.get(id));
+
+export const saveProject = async (project: SavedProject): Promise<void> => {
+  await withStore('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+export const duplicateProject = async (id: string): Promise<SavedProject> => {
+  const source = await loadProject(id);
+  if (!source) throw new Error(`Project ${id} not found.`);
+
+  const now = Date.now();
+  const copy: SavedProject = {
+    ...structuredClone(source),
+    id: createProjectId(),
+    name: `${source.name} (Copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+    else localStorage.removeItem(LAST_PROJECT_KEY);
+  } catch {
+    // Non-fatal: the project list still works without auto-reopen
+  }
+};
+
+/**
+ * Work that was in flight when the tab closed cannot be resumed mid-request.
+ * Assets stuck in 'generating' go back to 'pending', and transient phases map
+ * to the nearest stable one so the user can pick up from there.
+ * Manifests saved by older builds are migrated on the way in.
+ */
+export const toResumableProject = (saved: SavedProject): SavedProject => {
+  const project = { ...saved, plan: parseManifest(saved.plan, `Saved project "${saved.name}"`) };
+  const assets = project.plan.assets.map(a =>
+    a.status === 'generating' ? { ...a, status: 'pending' as const } : a
+  );
+
+  let phase = project.phase;
+  let groupConcepts = project.plan.groupConcepts;
+  if (phase === AppPhase.PLANNING) phase = AppPhase.REVIEW;
+  // Until every concept is finished the phase cannot move on (approval needs
+  // a finished concept), so concept generation starts over from the review
+  const conceptsDone = !!groupConcepts && Object.values(groupConcepts).every(c => assets.find(a => a.id === c.assetId)?.status === 'done');
+  if (phase === AppPhase.CONCEPT && !conceptsDone) {
+    phase = AppPhase.REVIEW;
+    groupConcepts = undefined;
+  }
+  // GENERATING is kept: the workspace offers to resume, queueing only unfinished assets
+
+  return { ...project, phase, plan: { ...project.plan, assets, groupConcepts } };
+};
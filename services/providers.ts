@@ -0,0 +1,11 @@
+import { registerProvider } from "./assetProvider";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+// Built-in backends. Additional adapters (e.g. a self-hosted image model)
+// only need to implement AssetProvider and be registered here.
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+export { getProvider, setProvider, listProviders } from "./assetProvider";
+export type { AssetProvider } from "./assetProvider";
@@ -0,0 +1,100 @@
+import { AssetRevision, GameAsset, ProjectManifest, RevisionSource } from "../types";
+
+/**
+ * REVISION HISTORY
+ * Every image an asset has had (and every project style reference) is kept
+ * as a revision, oldest first, so any change can be compared and undone.
+ * The newest non-rejected revision is the current image. Reverting records a
+ * new revision instead of discarding the ones after it.
+ */
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  generate: 'GENERATED',
+  ai_edit: 'AI EDIT',
+  manual: 'MANUAL EDIT',
+  animation: 'ANIMATION',
+  variant: 'VARIANT',
+  process: 'CLEANUP',
+  revert: 'REVERT',
+  import: 'IMPORT'
+};
+
+export const REVISION_SOURCES = Object.keys(REVISION_SOURCE_LABELS) as RevisionSource[];
+
+export const createRevisionId = () =>
+  `rev_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createRevision = (
+  imageUrl: string,
+  source: RevisionSource,
+  details: Pick<AssetRevision, 'prompt' | 'frames' | 'rejected' | 'rawImageUrl' | 'width' | 'height'> = {}
+): AssetRevision => ({
+  id: createRevisionId(),
+  imageUrl,
+  source,
+  createdAt: Date.now(),
+  ...details
+});
+
+/**
+ * The patch that makes `revision` an asset's current image. A revision
+ * without a frame count inherits the asset's current one; one with a known
+ * image size sets the real per-frame size in the metadata.
+ */
+export const withAssetRevision = (asset: GameAsset, revision: AssetRevision): Partial<GameAsset> => {
+  const frames = revision.frames ?? asset.metadata?.frames;
+  const size = revision.width && revision.height
+    ? { width: Math.max(1, Math.round(revision.width / (frames || 1))), height: revision.height }
+    : {};
+  return {
+    imageUrl: revision.imageUrl,
+    status: 'done',
+    error: undefined,
+    revisions: [...(asset.revisions || []), { ...revision, frames }],
+    metadata: { ...asset.metadata, frames, ...size }
+  };
+};
+
+/**
+ * Makes `revision` an asset's current image. When that asset is the one the
+ * project style reference was taken from, the style reference follows it.
+ */
+export const applyAssetRevision = (plan: ProjectManifest, assetId: string, revision: AssetRevision): ProjectManifest => {
+  const asset = plan.assets.find(a => a.id === assetId);
+  if (!asset) return plan;
+  const isStyleSource = !!asset.imageUrl && asset.imageUrl === plan.masterStyleImage && revision.imageUrl !== plan.masterStyleImage;
+  return {
+    ...plan,
+    ...(isStyleSource ? withStyleRevision(plan, revision) : {}),
+    assets: plan.assets.map(a => a.id === assetId ? { ...a, ...withAssetRevision(a, revision) } : a)
+  };
+};
+
+/**
+ * The patch that makes `revision` the project style reference.
+ */
+export const withStyleRevision = (plan: ProjectManifest, revision: AssetRevision): Partial<ProjectManifest> => ({
+  masterStyleImage: revision.imageUrl,
+  styleRevisions: [...(plan.styleRevisions || []), revision]
+});
+
+/**
+ * A new revision that restores an older one.
+ */
+export const createRevertRevision = (target: AssetRevision): AssetRevision =>
+  createRevision(target.imageUrl, 'revert', {
+    prompt: `Reverted to ${REVISION_SOURCE_LABELS[target.source].toLowerCase()} from ${formatRevisionTime(target.createdAt)}`,
+    frames: target.frames,
+    rawImageUrl: target.rawImageUrl,
+    width: target.width,
+    height: target.height
+  });
+
+/**
+ * The revision currently shown: the newest one matching the image in use.
+ */
+export const getCurrentRevision = (revisions: AssetRevision[] | undefined, imageUrl: string | undefined) =>
+  imageUrl ? [...(revisions || [])].reverse().find(r => r.imageUrl === imageUrl) : undefined;
+
+export const formatRevisionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
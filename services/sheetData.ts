@@ -0,0 +1,75 @@
+import { GameAsset, LoopMode } from "../types";
+import { getAnimation } from "./animationTiming";
+import { fitFrameData, getPivot } from "./frameData";
+import { loadImage } from "./imageData";
+
+/**
+ * SHEET DATA
+ * The JSON written next to each animation strip in the export: frame rects,
+ * durations and tags in Aseprite's "array" layout (which most engine
+ * importers read), plus the pivots and boxes from `metadata.frameData`.
+ */
+
+const ASEPRITE_DIRECTIONS: Record<LoopMode, string> = {
+  loop: 'forward',
+  once: 'forward',
+  pingpong: 'pingpong'
+};
+
+export const getSheetFilename = (asset: GameAsset) => asset.filename.replace(/\.[^.]+$/, '') + '.json';
+
+// Also the frame keys of texture atlases (see atlasPacker.ts)
+export const getFrameName = (asset: GameAsset, frame: number) => `${asset.filename.replace(/\.[^.]+$/, '')}_${frame}`;
+
+/**
+ * Strips and anything with timing or frame data get sheet data; plain single images don't.
+ */
+export const hasSheetData = (asset: GameAsset) =>
+  (asset.metadata?.frames || 1) > 1 || !!asset.metadata?.animation || !!asset.metadata?.frameData?.length;
+
+/**
+ * The size of one frame of the strip, measured from the image. The metadata
+ * sizes are not used: they are the planner's target, which the image only
+ * matches once post-processing has run (and older projects may keep them
+ * after a revert or an import).
+ */
+export const getFrameSize = async (asset: GameAsset): Promise<{ width: number; height: number }> => {
+  const frames = asset.metadata?.frames || 1;
+  const img = await loadImage(asset.imageUrl!);
+  return { width: Math.floor(img.width / frames), height: img.height };
+};
+
+/**
+ * `frameWidth`/`frameHeight` are the size of one frame (the strip is one row).
+ */
+export const buildSheetData = (asset: GameAsset, frameWidth: number, frameHeight: number) => {
+  const frames = asset.metadata?.frames || 1;
+  const animation = getAnimation(asset);
+  const frameData = fitFrameData(asset.metadata?.frameData, frames);
+
+  return {
+    frames: frameData.map((data, i) => ({
+      filename: getFrameName(asset, i),
+      frame: { x: i * frameWidth, y: 0, w: frameWidth, h: frameHeight },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: frameWidth, h: frameHeight },
+      sourceSize: { w: frameWidth, h: frameHeight },
+      duration: animation.frameDurations[i],
+      pivot: getPivot(data, frameWidth, frameHeight),
+      boxes: data.boxes.map(({ name, kind, x, y, width, height }) => ({ name, kind, x, y, w: width, h: height }))
+    })),
+    meta: {
+      app: 'O Cérebro do Sistema',
+      image: asset.filename,
+      format: 'RGBA8888',
+      size: { w: frameWidth * frames, h: frameHeight },
+      scale: '1',
+      loop: animation.loop,
+      frameTags: animation.tags.map(tag => {
+        const loop = tag.loop ?? animation.loop;
+        return { name: tag.name, from: tag.from, to: tag.to, direction: ASEPRITE_DIRECTIONS[loop], ...(loop === 'once' ? { repeat: '1' } : {}) };
+      })
+    }
+  };
+};
@@ -0,0 +1,204 @@
+import JSZip from 'jszip';
+import { ProjectManifest, GameAsset } from "../types";
+import { loadImage, readImageData, imageDataToUrl } from "./imageData";
+import { getAnimation } from "./animationTiming";
+import { blit } from "./atlasPacker";
+import { cropImage } from "./frameSlicer";
+import { LEVEL_TILE_PROPERTIES, Level, LevelTile, PLAYGROUND_LEVEL } from "./level";
+import { resolveBindings } from "./playgroundBindings";
+
+/**
+ * TILED EXPORT
+ * Writes the Environment assets as a Tiled tileset and a sample map to start
+ * building levels from:
+ *   <Theme>_Tiled/tileset.png   every tile-sized frame on a grid, edges extruded into the margin and spacing
+ *   <Theme>_Tiled/tileset.tsx   tile size, margin, spacing, per-tile properties and animations
+ *   <Theme>_Tiled/level.tmx     the playground level (see level.ts), plus spawn points
+ *   <Theme>_Tiled/<background>  the map's image layer, when there is a backdrop
+ * The tile size is the most common Environment frame size; frames of any
+ * other size (backgrounds, props) are not tiles and are left out.
+ */
+
+const TILED_VERSION = '1.10.2';
+const TILESET_MARGIN = 1;
+const TILESET_SPACING = 2;
+
+interface TileProperties {
+  solid: boolean;
+  oneWay: boolean;
+}
+
+interface Tile {
+  asset: GameAsset;
+  frame: number;
+  image: ImageData;
+  properties: TileProperties;
+}
+
+// One-way and decorative tiles are told apart by name; everything else blocks
+const getTileProperties = (asset: GameAsset): TileProperties => {
+  const name = `${asset.name} ${asset.filename}`.toLowerCase();
+  if (/platform|ledge|bridge|one.?way/.test(name)) return { ...LEVEL_TILE_PROPERTIES.platform };
+  if (/deco|grass|plant|water|background|\bbg\b/.test(name)) return { solid: false, oneWay: false };
+  return { ...LEVEL_TILE_PROPERTIES.ground };
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const property = (name: string, value: string | boolean | number) => typeof value === 'string'
+  ? `<property name="${name}" value="${escapeXml(value)}"/>`
+  : `<property name="${name}" type="${typeof value === 'boolean' ? 'bool' : 'int'}" value="${value}"/>`;
+
+const getTiles = async (assets: GameAsset[]): Promise<{ tiles: Tile[]; tileWidth: number; tileHeight: number }> => {
+  const strips = await Promise.all(assets.map(async asset => {
+    const image = await readImageData(asset.imageUrl!);
+    const frames = Math.max(1, asset.metadata?.frames || 1);
+    return { asset, image, frames, width: Math.floor(image.width / frames), height: image.height };
+  }));
+
+  const counts = new Map<string, number>();
+  strips.forEach(({ width, height, frames }) => counts.set(`${width}x${height}`, (counts.get(`${width}x${height}`) || 0) + frames));
+  const best = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  if (!best) throw new Error("There are no generated Environment tiles to export.");
+  const [tileWidth, tileHeight] = best[0].split('x').map(Number);
+
+  const tiles = strips
+    .filter(s => s.width === tileWidth && s.height === tileHeight)
+    .flatMap(({ asset, image, frames }) => Array.from({ length: frames }, (_, frame) => ({
+      asset,
+      frame,
+      image: cropImage(image, { x: frame * tileWidth, y: 0, width: tileWidth, height: tileHeight }),
+      properties: getTileProperties(asset)
+    })));
+  return { tiles, tileWidth, tileHeight };
+};
+
+const buildTilesetImage = (tiles: Tile[], columns: number, tileWidth: number, tileHeight: number) => {
+  const rows = Math.ceil(tiles.length / columns);
+  const image = new ImageData(
+    TILESET_MARGIN * 2 + columns * tileWidth + (columns - 1) * TILESET_SPACING,
+    TILESET_MARGIN * 2 + rows * tileHeight + (rows - 1) * TILESET_SPACING
+  );
+  tiles.forEach((tile, i) => blit(
+    image,
+    tile.image,
+    TILESET_MARGIN + (i % columns) * (tileWidth + TILESET_SPACING),
+    TILESET_MARGIN + Math.floor(i / columns) * (tileHeight + TILESET_SPACING),
+    1
+  ));
+  return image;
+};
+
+/**
+ * The .tsx tileset. Each tile carries the asset it came from and its
+ * collision (solid, oneWay); the first frame of an animated strip plays the
+ * whole strip with its frame durations.
+ */
+const buildTileset = (name: string, tiles: Tile[], columns: number, tileWidth: number, tileHeight: number, image: { source: string; width: number; height: number }): string => {
+  const entries = tiles.map((tile, id) => {
+    const animation = tile.frame === 0 && (tile.asset.metadata?.frames || 1) > 1
+      ? `
+  <animation>
+${getAnimation(tile.asset).frameDurations.map((duration, f) => `   <frame tileid="${id + f}" duration="${duration}"/>`).join('\n')}
+  </animation>`
+      : '';
+    return ` <tile id="${id}">
+  <properties>
+   ${property('asset', tile.asset.name)}
+   ${property('frame', tile.frame)}
+   ${property('solid', tile.properties.solid)}
+   ${property('oneWay', tile.properties.oneWay)}
+  </properties>${animation}
+ </tile>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tileset version="1.10" tiledversion="${TILED_VERSION}" name="${escapeXml(name)}" tilewidth="${tileWidth}" tileheight="${tileHeight}" spacing="${TILESET_SPACING}" margin="${TILESET_MARGIN}" tilecount="${tiles.length}" columns="${columns}">
+ <image source="${escapeXml(image.source)}" width="${image.width}" height="${image.height}"/>
+${entries.join('\n')}
+</tileset>
+`;
+};
+
+// The tile each kind of level cell is painted with: the playground's tile for ground, a one-way tile for platforms when there is one
+const getLevelTileIds = (tiles: Tile[], groundAsset?: GameAsset): Record<LevelTile, number> => {
+  const isGround = (t: Tile) => t.properties.solid && !t.properties.oneWay;
+  const preferred = tiles.findIndex(t => t.asset === groundAsset && t.frame === 0 && isGround(t));
+  const ground = preferred >= 0 ? preferred : Math.max(0, tiles.findIndex(isGround));
+  const platform = tiles.findIndex(t => t.properties.oneWay);
+  return { ground, platform: platform >= 0 ? platform : ground };
+};
+
+/**
+ * The .tmx map of `level`, with one tile layer per kind of cell (carrying
+ * the collision of the level as layer properties) and the spawn points as
+ * objects.
+ */
+const buildMap = (level: Level, tileIds: Record<LevelTile, number>, tileWidth: number, tileHeight: number, tilesetSource: string, background?: { source: string; width: number; height: number }): string => {
+  const layers: string[] = [];
+  let layerId = 1;
+
+  if (background) {
+    layers.push(` <imagelayer id="${layerId++}" name="background">
+  <image source="${escapeXml(background.source)}" width="${background.width}" height="${background.height}"/>
+ </imagelayer>`);
+  }
+
+  (['ground', 'platform'] as LevelTile[]).forEach(kind => {
+    const gids = Array.from({ length: level.rows }, () => new Array<number>(level.columns).fill(0));
+    level.cells.filter(c => c.tile === kind).forEach(c => { gids[c.row][c.column] = tileIds[kind] + 1; });
+    layers.push(` <layer id="${layerId++}" name="${kind === 'ground' ? 'ground' : 'platforms'}" width="${level.columns}" height="${level.rows}">
+  <properties>
+   ${property('solid', LEVEL_TILE_PROPERTIES[kind].solid)}
+   ${property('oneWay', LEVEL_TILE_PROPERTIES[kind].oneWay)}
+  </properties>
+  <data encoding="csv">
+${gids.map(row => row.join(',')).join(',\n')}
+</data>
+ </layer>`);
+  });
+
+  // Points at the feet of the spawn cells
+  const spawns = [['player', level.playerSpawn], ['enemy', level.enemySpawn]] as const;
+  layers.push(` <objectgroup id="${layerId++}" name="spawns">
+${spawns.map(([name, spawn], i) => `  <object id="${i + 1}" name="${name}" type="spawn" x="${(spawn.column + 0.5) * tileWidth}" y="${(spawn.row + 1) * tileHeight}">
+   <point/>
+  </object>`).join('\n')}
+ </objectgroup>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.10" tiledversion="${TILED_VERSION}" orientation="orthogonal" renderorder="right-down" width="${level.columns}" height="${level.rows}" tilewidth="${tileWidth}" tileheight="${tileHeight}" infinite="0" nextlayerid="${layerId}" nextobjectid="${spawns.length + 1}">
+ <tileset firstgid="1" source="${escapeXml(tilesetSource)}"/>
+${layers.join('\n')}
+</map>
+`;
+};
+
+export const buildTiledZip = async (plan: ProjectManifest): Promise<JSZip> => {
+  const zip = new JSZip();
+  const root = zip.folder(`${plan.theme.replace(/\s+/g, '_')}_Tiled`);
+  if (!root) throw new Error("Could not create project folder.");
+
+  const environment = plan.assets.filter(a => a.category === 'Environment' && a.imageUrl);
+  const bound = resolveBindings(plan);
+  const backgroundAsset = bound.background;
+  const { tiles, tileWidth, tileHeight } = await getTiles(environment.filter(a => a !== backgroundAsset));
+
+  const columns = Math.ceil(Math.sqrt(tiles.length));
+  const image = buildTilesetImage(tiles, columns, tileWidth, tileHeight);
+  root.file('tileset.png', await (await fetch(imageDataToUrl(image))).blob());
+  root.file('tileset.tsx', buildTileset(plan.theme, tiles, columns, tileWidth, tileHeight, { source: 'tileset.png', width: image.width, height: image.height }));
+
+  let background: { source: string; width: number; height: number } | undefined;
+  if (backgroundAsset) {
+    const size = await loadImage(backgroundAsset.imageUrl!);
+    root.file(backgroundAsset.filename, await (await fetch(backgroundAsset.imageUrl!)).blob());
+    background = { source: backgroundAsset.filename, width: size.width, height: size.height };
+  }
+
+  const tileIds = getLevelTileIds(tiles, bound.tile);
+  root.file('level.tmx', buildMap(PLAYGROUND_LEVEL, tileIds, tileWidth, tileHeight, 'tileset.tsx', background));
+
+  return zip;
+};
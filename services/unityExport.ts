@@ -0,0 +1,425 @@
+import JSZip from 'jszip';
+import { ProjectManifest, GameAsset } from "../types";
+import { getAnimation, getPlaybackRange, getSequence, PlaybackRange } from "./animationTiming";
+import { fitFrameData, getPivot } from "./frameData";
+import { getFrameName, getFrameSize } from "./sheetData";
+
+/**
+ * UNITY EXPORT
+ * Writes the project as a folder to drop into a Unity project's Assets:
+ *   <Theme>_Unity/<Category>/<Group>/<filename>(.meta)     sprites, sliced
+ *   <Theme>_Unity/Characters/<Group>/Animations/<clip>.anim(.meta)
+ *   <Theme>_Unity/Characters/<Group>/<Group>.controller(.meta)
+ * Textures import as Sprite (2D and UI), Multiple mode for strips with one
+ * rect and pivot per frame, Point filtering and no compression. GUIDs are
+ * derived from the file paths, so exporting again keeps Unity's references.
+ */
+
+type FrameSize = { width: number; height: number };
+
+interface ExportedAsset {
+  asset: GameAsset;
+  folder: string;
+  guid: string;
+  size: FrameSize; // One frame, measured from the image, so the sliced rects and pivots match the PNG
+}
+
+const YAML_HEADER = '%YAML 1.1\n%TAG !u! tag:unity3d.com,2011:';
+const CLIP_FILE_ID = 7400000;
+const CONTROLLER_FILE_ID = 9100000;
+const STATE_MACHINE_FILE_ID = 110700000;
+// Unity's own numbering for the sprites of a texture: 21300000, 21300002, ...
+const spriteFileId = (frame: number) => 21300000 + frame * 2;
+
+// FNV-1a, four differently seeded rounds make up the 128-bit GUID
+const fnv1a = (text: string, seed: number) => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  return hash;
+};
+
+export const unityGuid = (path: string) =>
+  [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x7f4a7c15].map(seed => fnv1a(path, seed).toString(16).padStart(8, '0')).join('');
+
+const sanitize = (name: string) => name.trim().replace(/[^A-Za-z0-9_-]+/g, '_') || 'Unnamed';
+
+const spriteRef = (guid: string, frame: number) => `{fileID: ${spriteFileId(frame)}, guid: ${guid}, type: 3}`;
+
+const formatTime = (ms: number) => String(+(ms / 1000).toFixed(4));
+
+const nativeMeta = (guid: string, mainObjectFileId: number) => `fileFormatVersion: 2
+guid: ${guid}
+NativeFormatImporter:
+  externalObjects: {}
+  mainObjectFileID: ${mainObjectFileId}
+  userData:
+  assetBundleName:
+  assetBundleVariant:
+`;
+
+/**
+ * One world unit per tile: the most common environment frame width, or 16.
+ */
+export const getPixelsPerUnit = (sizes: FrameSize[]) => {
+  const counts = new Map<number, number>();
+  sizes.forEach(s => counts.set(s.width, (counts.get(s.width) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 16;
+};
+
+// Unity pivots are normalized with the origin at the bottom left
+const getSpritePivots = (asset: GameAsset, size: FrameSize) =>
+  fitFrameData(asset.metadata?.frameData, asset.metadata?.frames || 1).map(data => {
+    const pivot = getPivot(data, size.width, size.height);
+    return { x: +(pivot.x / size.width).toFixed(4), y: +(1 - pivot.y / size.height).toFixed(4) };
+  });
+
+export const buildTextureMeta = ({ asset, guid, size }: ExportedAsset, pixelsPerUnit: number): string => {
+  const frames = asset.metadata?.frames || 1;
+  const pivots = getSpritePivots(asset, size);
+  const names = Array.from({ length: frames }, (_, i) => getFrameName(asset, i));
+  const sprites = frames > 1 ? names.map((name, i) => `    - serializedVersion: 2
+      name: ${name}
+      rect:
+        serializedVersion: 2
+        x: ${i * size.width}
+        y: 0
+        width: ${size.width}
+        height: ${size.height}
+      alignment: 9
+      pivot: {x: ${pivots[i].x}, y: ${pivots[i].y}}
+      border: {x: 0, y: 0, z: 0, w: 0}
+      outline: []
+      physicsShape: []
+      tessellationDetail: 0
+      bones: []
+      spriteID: ${unityGuid(`${guid}/${name}`)}
+      internalID: ${spriteFileId(i)}
+      vertices: []
+      indices:
+      edges: []
+      weights: []`) : [];
+
+  return `fileFormatVersion: 2
+guid: ${guid}
+TextureImporter:
+  internalIDToNameTable: []
+  externalObjects: {}
+  serializedVersion: 12
+  mipmaps:
+    mipMapMode: 0
+    enableMipMap: 0
+    sRGBTexture: 1
+    linearTexture: 0
+    fadeOut: 0
+    borderMipMap: 0
+    mipMapsPreserveCoverage: 0
+    alphaTestReferenceValue: 0.5
+    mipMapFadeDistanceStart: 1
+    mipMapFadeDistanceEnd: 3
+  bumpmap:
+    convertToNormalMap: 0
+    externalNormalMap: 0
+    heightScale: 0.25
+    normalMapFilter: 0
+  isReadable: 0
+  streamingMipmaps: 0
+  streamingMipmapsPriority: 0
+  vTOnly: 0
+  ignoreMasterTextureLimit: 0
+  grayScaleToAlpha: 0
+  generateCubemap: 6
+  cubemapConvolution: 0
+  seamlessCubemap: 0
+  textureFormat: 1
+  maxTextureSize: 2048
+  textureSettings:
+    serializedVersion: 2
+    filterMode: 0
+    aniso: 1
+    mipBias: 0
+    wrapU: 1
+    wrapV: 1
+    wrapW: 1
+  nPOTScale: 0
+  lightmap: 0
+  compressionQuality: 50
+  spriteMode: ${frames > 1 ? 2 : 1}
+  spriteExtrude: 1
+  spriteMeshType: 0
+  alignment: 9
+  spritePivot: {x: ${pivots[0].x}, y: ${pivots[0].y}}
+  spritePixelsToUnits: ${pixelsPerUnit}
+  spriteBorder: {x: 0, y: 0, z: 0, w: 0}
+  spriteGenerateFallbackPhysicsShape: 1
+  alphaUsage: 1
+  alphaIsTransparency: 1
+  spriteTessellationDetail: -1
+  textureType: 8
+  textureShape: 1
+  singleChannelComponent: 0
+  flipbookRows: 1
+  flipbookColumns: 1
+  maxTextureSizeSet: 0
+  compressionQualitySet: 0
+  textureFormatSet: 0
+  ignorePngGamma: 0
+  applyGammaDecoding: 0
+  cookieLightType: 0
+  platformSettings:
+  - serializedVersion: 3
+    buildTarget: DefaultTexturePlatform
+    maxTextureSize: 2048
+    resizeAlgorithm: 0
+    textureFormat: -1
+    textureCompression: 0
+    compressionQuality: 50
+    crunchedCompression: 0
+    allowsAlphaSplitting: 0
+    overridden: 0
+    androidETC2FallbackOverride: 0
+    forceMaximumCompressionQuality_BC6H_BC7: 0
+  spriteSheet:
+    serializedVersion: 2
+    sprites:${sprites.length ? '\n' + sprites.join('\n') : ' []'}
+    outline: []
+    physicsShape: []
+    bones: []
+    spriteID: ${frames > 1 ? '' : unityGuid(`${guid}/${names[0]}`)}
+    internalID: 0
+    vertices: []
+    indices:
+    edges: []
+    weights: []
+    secondaryTextures: []
+    nameFileIdTable:${frames > 1 ? '\n' + names.map((name, i) => `      ${name}: ${spriteFileId(i)}`).join('\n') : ' {}'}
+  spritePackingTag:
+  pSDRemoveMatte: 0
+  pSDShowRemoveMatteOption: 0
+  userData:
+  assetBundleName:
+  assetBundleVariant:
+`;
+};
+
+/**
+ * A sprite-swapping clip. Each key holds its frame for the frame's duration;
+ * a last key repeats the final sprite so it is shown for its full time.
+ * Ping-pong has no clip equivalent and is written out as the frames it plays.
+ */
+export const buildAnimationClip = (name: string, guid: string, range: PlaybackRange, durations: number[]): string => {
+  const sequence = getSequence(range);
+  let time = 0;
+  const keys = sequence.map(frame => {
+    const key = `    - time: ${formatTime(time)}\n      value: ${spriteRef(guid, frame)}`;
+    time += durations[frame];
+    return key;
+  });
+  keys.push(`    - time: ${formatTime(time)}\n      value: ${spriteRef(guid, sequence[sequence.length - 1])}`);
+  const used = [...new Set(sequence)];
+
+  return `${YAML_HEADER}
+--- !u!74 &${CLIP_FILE_ID}
+AnimationClip:
+  m_ObjectHideFlags: 0
+  m_CorrespondingSourceObject: {fileID: 0}
+  m_PrefabInstance: {fileID: 0}
+  m_PrefabAsset: {fileID: 0}
+  m_Name: ${name}
+  serializedVersion: 6
+  m_Legacy: 0
+  m_Compressed: 0
+  m_UseHighQualityCurve: 1
+  m_RotationCurves: []
+  m_CompressedRotationCurves: []
+  m_EulerCurves: []
+  m_PositionCurves: []
+  m_ScaleCurves: []
+  m_FloatCurves: []
+  m_PPtrCurves:
+  - curve:
+${keys.join('\n')}
+    attribute: m_Sprite
+    path:
+    classID: 212
+    script: {fileID: 0}
+  m_SampleRate: 60
+  m_WrapMode: 0
+  m_Bounds:
+    m_Center: {x: 0, y: 0, z: 0}
+    m_Extent: {x: 0, y: 0, z: 0}
+  m_ClipBindingConstant:
+    genericBindings:
+    - serializedVersion: 2
+      path: 0
+      attribute: 0
+      script: {fileID: 0}
+      typeID: 212
+      customType: 23
+      isPPtrCurve: 1
+    pptrCurveMapping:
+${used.map(frame => `    - ${spriteRef(guid, frame)}`).join('\n')}
+  m_AnimationClipSettings:
+    serializedVersion: 2
+    m_AdditiveReferencePoseClip: {fileID: 0}
+    m_AdditiveReferencePoseTime: 0
+    m_StartTime: 0
+    m_StopTime: ${formatTime(time)}
+    m_OrientationOffsetY: 0
+    m_Level: 0
+    m_CycleOffset: 0
+    m_HasAdditiveReferencePose: 0
+    m_LoopTime: ${range.loop === 'once' ? 0 : 1}
+    m_LoopBlend: 0
+    m_LoopBlendOrientation: 0
+    m_LoopBlendPositionY: 0
+    m_LoopBlendPositionXZ: 0
+    m_KeepOriginalOrientation: 0
+    m_KeepOriginalPositionY: 1
+    m_KeepOriginalPositionXZ: 0
+    m_HeightFromFeet: 0
+    m_Mirror: 0
+  m_EditorCurves: []
+  m_EulerEditorCurves: []
+  m_HasGenericRootTransform: 0
+  m_HasMotionFloatCurves: 0
+  m_Events: []
+`;
+};
+
+/**
+ * An Animator Controller with one state per clip; the first is the default.
+ */
+export const buildAnimatorController = (name: string, clips: { name: string; guid: string }[]): string => {
+  const stateId = (i: number) => 110200001 + i;
+  const states = clips.map((clip, i) => `--- !u!1102 &${stateId(i)}
+AnimatorState:
+  serializedVersion: 6
+  m_ObjectHideFlags: 1
+  m_CorrespondingSourceObject: {fileID: 0}
+  m_PrefabInstance: {fileID: 0}
+  m_PrefabAsset: {fileID: 0}
+  m_Name: ${clip.name}
+  m_Speed: 1
+  m_CycleOffset: 0
+  m_Transitions: []
+  m_StateMachineBehaviours: []
+  m_Position: {x: 50, y: 50, z: 0}
+  m_IKOnFeet: 0
+  m_WriteDefaultValues: 1
+  m_Mirror: 0
+  m_SpeedParameterActive: 0
+  m_MirrorParameterActive: 0
+  m_CycleOffsetParameterActive: 0
+  m_TimeParameterActive: 0
+  m_Motion: {fileID: ${CLIP_FILE_ID}, guid: ${clip.guid}, type: 2}
+  m_Tag:
+  m_SpeedParameter:
+  m_MirrorParameter:
+  m_CycleOffsetParameter:
+  m_TimeParameter: `);
+
+  return `${YAML_HEADER}
+--- !u!91 &${CONTROLLER_FILE_ID}
+AnimatorController:
+  m_ObjectHideFlags: 0
+  m_CorrespondingSourceObject: {fileID: 0}
+  m_PrefabInstance: {fileID: 0}
+  m_PrefabAsset: {fileID: 0}
+  m_Name: ${name}
+  serializedVersion: 5
+  m_AnimatorParameters: []
+  m_AnimatorLayers:
+  - serializedVersion: 5
+    m_Name: Base Layer
+    m_StateMachine: {fileID: ${STATE_MACHINE_FILE_ID}}
+    m_Mask: {fileID: 0}
+    m_Motions: []
+    m_Behaviours: []
+    m_BlendingMode: 0
+    m_SyncedLayerIndex: -1
+    m_DefaultWeight: 0
+    m_IKPass: 0
+    m_SyncedLayerAffectsTiming: 0
+    m_Controller: {fileID: ${CONTROLLER_FILE_ID}}
+--- !u!1107 &${STATE_MACHINE_FILE_ID}
+AnimatorStateMachine:
+  serializedVersion: 6
+  m_ObjectHideFlags: 1
+  m_CorrespondingSourceObject: {fileID: 0}
+  m_PrefabInstance: {fileID: 0}
+  m_PrefabAsset: {fileID: 0}
+  m_Name: Base Layer
+  m_ChildStates:
+${clips.map((_, i) => `  - serializedVersion: 1
+    m_State: {fileID: ${stateId(i)}}
+    m_Position: {x: ${250 + (i % 4) * 220}, y: ${Math.floor(i / 4) * 60}, z: 0}`).join('\n')}
+  m_ChildStateMachines: []
+  m_AnyStateTransitions: []
+  m_EntryTransitions: []
+  m_StateMachineTransitions: {}
+  m_StateMachineBehaviours: []
+  m_AnyStatePosition: {x: 50, y: 20, z: 0}
+  m_EntryPosition: {x: 50, y: 120, z: 0}
+  m_ExitPosition: {x: 800, y: 120, z: 0}
+  m_ParentStateMachinePosition: {x: 800, y: 20, z: 0}
+  m_DefaultState: {fileID: ${clips.length ? stateId(0) : 0}}
+${states.join('\n')}
+`;
+};
+
+export const buildUnityZip = async (plan: ProjectManifest): Promise<JSZip> => {
+  const zip = new JSZip();
+  const rootName = `${sanitize(plan.theme)}_Unity`;
+  const root = zip.folder(rootName);
+  if (!root) throw new Error("Could not create project folder.");
+
+  const exported: ExportedAsset[] = [];
+  for (const asset of plan.assets) {
+    if (!asset.imageUrl) continue;
+    const folder = `${asset.category === 'Characters' || asset.category === 'Environment' ? asset.category : 'UI'}/${sanitize(asset.group || asset.category)}`;
+    exported.push({ asset, folder, guid: unityGuid(`${rootName}/${folder}/${asset.filename}`), size: await getFrameSize(asset) });
+  }
+
+  const tiles = exported.filter(e => e.asset.category === 'Environment').map(e => e.size);
+  const pixelsPerUnit = getPixelsPerUnit(tiles);
+
+  const groups = new Map<string, ExportedAsset[]>();
+  for (const entry of exported) {
+    const blob = await (await fetch(entry.asset.imageUrl!)).blob();
+    root.file(`${entry.folder}/${entry.asset.filename}`, blob);
+    root.file(`${entry.folder}/${entry.asset.filename}.meta`, buildTextureMeta(entry, pixelsPerUnit));
+    if (entry.asset.category === 'Characters') groups.set(entry.folder, [...(groups.get(entry.folder) || []), entry]);
+  }
+
+  // One clip per strip and per tag, and a controller per character group
+  groups.forEach((entries, folder) => {
+    const clips: { name: string; guid: string }[] = [];
+    entries.forEach(({ asset, guid }) => {
+      const animation = getAnimation(asset);
+      const base = sanitize(asset.name);
+      const ranges: [string, PlaybackRange][] = [
+        [base, getPlaybackRange(animation)],
+        ...animation.tags.map(tag => [`${base}_${sanitize(tag.name)}`, getPlaybackRange(animation, tag)] as [string, PlaybackRange])
+      ];
+      ranges.forEach(([name, range]) => {
+        let unique = name, n = 1;
+        while (clips.some(c => c.name === unique)) unique = `${name}_${++n}`;
+        const path = `${folder}/Animations/${unique}.anim`;
+        const clipGuid = unityGuid(`${rootName}/${path}`);
+        root.file(path, buildAnimationClip(unique, guid, range, animation.frameDurations));
+        root.file(`${path}.meta`, nativeMeta(clipGuid, CLIP_FILE_ID));
+        clips.push({ name: unique, guid: clipGuid });
+      });
+    });
+
+    const name = folder.split('/').pop()!;
+    const path = `${folder}/${name}.controller`;
+    root.file(path, buildAnimatorController(name, clips));
+    root.file(`${path}.meta`, nativeMeta(unityGuid(`${rootName}/${path}`), CONTROLLER_FILE_ID));
+  });
+
+  return zip;
+};
@@ -8,6 +8,68 @@ export enum AppPhase {
   COMPLETE = 'COMPLETE'
 }
 
+export type GenerationErrorKind = 'quota' | 'safety' | 'no_image' | 'network' | 'unknown';
+
+export interface AssetError {
+  kind: GenerationErrorKind;
+  message: string;
+}
+
+export type RevisionSource = 'generate' | 'ai_edit' | 'manual' | 'animation' | 'variant' | 'process' | 'revert' | 'import';
+
+export interface AssetRevision {
+  id: string;
+  imageUrl: string;
+  source: RevisionSource;
+  prompt?: string; // Generation prompt or edit instruction
+  frames?: number; // Frame count the image was saved with
+  rawImageUrl?: string; // Provider output before post-processing, if that changed it
+  width?: number; // Size of the whole image (all frames) in pixels
+  height?: number;
+  createdAt: number;
+  rejected?: boolean; // A candidate that lost a variants comparison
+}
+
+export interface ProcessingSettings {
+  removeBackground: boolean; // Key out the background of provider images
+  tolerance: number; // Per-channel distance (0-255) from the background colour that still counts as background
+  pixelGrid: boolean; // Detect the logical pixel grid of upscaled renders and resample to true resolution
+  sliceFrames: boolean; // Detect the frames of animation strips and normalize them to uniform cells
+}
+
+export type FrameBoxKind = 'hitbox' | 'hurtbox' | 'custom';
+
+// In pixels, relative to the frame's top-left corner
+export interface FrameBox {
+  name: string; // Boxes with the same name are the same box across frames (e.g. "sword")
+  kind: FrameBoxKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameData {
+  pivot?: { x: number; y: number }; // Anchor point; bottom-center of the frame when unset
+  boxes: FrameBox[];
+}
+
+export type LoopMode = 'loop' | 'once' | 'pingpong';
+
+// A named sub-range of a strip, e.g. "attack" = frames 4-7 of a combined sheet
+export interface AnimationTag {
+  name: string;
+  from: number; // First frame (0-based, inclusive)
+  to: number; // Last frame (inclusive)
+  loop?: LoopMode; // Overrides the strip's loop mode while the tag plays
+}
+
+export interface AnimationTiming {
+  frameDurations: number[]; // Milliseconds, one per frame
+  loop: LoopMode;
+  tags: AnimationTag[];
+}
+
 export interface GameAsset {
   id: string;
   category: 'Characters' | 'Environment' | 'UI';
@@ -17,19 +79,66 @@ export interface GameAsset {
   description: string; // The prompt for the image generation
   status: 'pending' | 'generating' | 'done' | 'error';
   imageUrl?: string;
+  error?: AssetError; // Why the last generation/edit failed (status 'error')
+  processing?: ProcessingSettings; // Post-processing overrides (see services/imageProcessing.ts)
+  revisions?: AssetRevision[]; // Every image the asset has had (incl. the current one), oldest first
   metadata?: {
     width?: number;
     height?: number;
     frames?: number;
+    frameData?: FrameData[]; // Pivot and collision boxes, one entry per frame (see services/frameData.ts)
+    animation?: AnimationTiming; // Frame durations, loop mode and tags (see services/animationTiming.ts)
   };
 }
 
+// What the animation editor saves besides the strip itself
+export type AnimationMetadata = Pick<NonNullable<GameAsset['metadata']>, 'frameData' | 'animation'>;
+
+export interface GroupConcept {
+  assetId: string; // The asset whose image defines the group's design
+  approved: boolean;
+}
+
+export interface ProjectPalette {
+  colors: string[]; // #rrggbb, darkest first
+  limit: number; // Max colours when extracting (e.g. 16, 32)
+  dither: boolean; // Ordered (Bayer) dithering when remapping
+  enforce: boolean; // Remap every generated asset to the palette
+  source: 'concept' | 'manual'; // Extracted from the style reference, or entered by hand
+}
+
 export interface ProjectManifest {
+  schemaVersion: number; // See services/manifestSchema.ts for migrations
   theme: string;
   paletteDescription: string;
   designDocs: string; // The "Didactic" part
   assets: GameAsset[];
-  masterStyleImage?: string; // The approved concept art used for consistency
+  masterStyleImage?: string; // Project-wide style reference (palette), from the first approved concept
+  groupConcepts?: Record<string, GroupConcept>; // Master concept per group, keyed by group name
+  palette?: ProjectPalette; // Exact project colours; paletteDescription is the prose for prompts
+  styleRevisions?: AssetRevision[]; // Every masterStyleImage the project has had, oldest first
+  playgroundBindings?: PlaygroundBindings; // Assets picked for the playground; the rest are guessed
+}
+
+// The parts an asset can play in the playground
+export type PlaygroundRole = 'idle' | 'run' | 'jump' | 'tile' | 'background' | 'enemy';
+
+// Asset id per role
+export type PlaygroundBindings = Partial<Record<PlaygroundRole, string>>;
+
+export interface TerminalMessage {
+  role: 'user' | 'system';
+  text: string;
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  phase: AppPhase;
+  history: TerminalMessage[];
+  plan: ProjectManifest;
 }
 
 export interface FolderNode {